@@ -0,0 +1,112 @@
+import { useState } from "react";
+import { Attachment } from "@shared/schema";
+import { cn } from "@/lib/utils";
+import { AudioPlayer } from "./audio-player";
+import { FileCard } from "./file-card";
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+import {
+  Carousel,
+  CarouselContent,
+  CarouselItem,
+  CarouselNext,
+  CarouselPrevious,
+} from "@/components/ui/carousel";
+import { Play } from "lucide-react";
+
+// Tiles shown in the grid; the rest are behind a "+N" on the last one
+const ALBUM_TILES = 4;
+
+function AlbumMedia({ attachment, className, preview }: {
+  attachment: Attachment;
+  className?: string;
+  preview?: boolean;
+}) {
+  const alt = attachment.metadata?.fileName ?? "Shared image";
+  return attachment.mediaType === "image" ? (
+    <img src={attachment.url} alt={alt} className={className} loading="lazy" />
+  ) : (
+    <video src={attachment.url} className={className} controls={!preview} muted={preview} preload="metadata" />
+  );
+}
+
+// Images and video form a grid that opens a swipeable lightbox; audio and
+// other files are listed below it
+export function AttachmentAlbum({ attachments }: { attachments: Attachment[] }) {
+  const [openIndex, setOpenIndex] = useState<number | null>(null);
+  const visual = attachments.filter((a) => a.mediaType === "image" || a.mediaType === "video");
+  const others = attachments.filter((a) => a.mediaType === "audio" || a.mediaType === "file");
+  const tiles = visual.slice(0, ALBUM_TILES);
+  const hidden = visual.length - tiles.length;
+
+  return (
+    <div className="mt-2 space-y-2">
+      {tiles.length > 0 && (
+        <div className={cn("grid gap-1 max-w-sm", { "grid-cols-2": tiles.length > 1 })}>
+          {tiles.map((attachment, index) => (
+            <button
+              key={attachment.id}
+              type="button"
+              onClick={() => setOpenIndex(index)}
+              className={cn("relative overflow-hidden rounded-lg bg-secondary/20", {
+                // An odd one out spans the full width
+                "col-span-2": tiles.length === 3 && index === 0,
+              })}
+            >
+              <AlbumMedia
+                attachment={attachment}
+                preview
+                className={cn("w-full object-cover", tiles.length === 1 ? "max-h-64" : "h-32")}
+              />
+              {attachment.mediaType === "video" && (
+                <div className="absolute inset-0 flex items-center justify-center">
+                  <Play className="h-8 w-8 text-white drop-shadow-lg" />
+                </div>
+              )}
+              {hidden > 0 && index === tiles.length - 1 && (
+                <div className="absolute inset-0 flex items-center justify-center bg-black/50 text-2xl font-semibold text-white">
+                  +{hidden}
+                </div>
+              )}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {others.map((attachment) =>
+        attachment.mediaType === "audio" ? (
+          <AudioPlayer key={attachment.id} src={attachment.url} metadata={attachment.metadata} />
+        ) : (
+          <FileCard
+            key={attachment.id}
+            fileName={attachment.metadata?.fileName ?? "Attachment"}
+            fileSize={attachment.metadata?.fileSize}
+            href={`/api/attachments/${attachment.id}/download`}
+          />
+        )
+      )}
+
+      <Dialog open={openIndex !== null} onOpenChange={(open) => !open && setOpenIndex(null)}>
+        <DialogContent className="max-w-[90vw] sm:max-w-3xl">
+          <DialogTitle className="sr-only">Attachments</DialogTitle>
+          {openIndex !== null && (
+            <Carousel opts={{ startIndex: openIndex }} className="mx-10">
+              <CarouselContent>
+                {visual.map((attachment) => (
+                  <CarouselItem key={attachment.id} className="flex items-center justify-center">
+                    <AlbumMedia attachment={attachment} className="max-h-[75vh] w-auto object-contain" />
+                  </CarouselItem>
+                ))}
+              </CarouselContent>
+              {visual.length > 1 && (
+                <>
+                  <CarouselPrevious />
+                  <CarouselNext />
+                </>
+              )}
+            </Carousel>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+import { useEffect, useRef, useState } from "react";
+import { MediaMetadata, WAVEFORM_BARS } from "@shared/schema";
+import { cn } from "@/lib/utils";
+import { formatDuration } from "@/lib/audio";
+import { Button } from "@/components/ui/button";
+import { Pause, Play } from "lucide-react";
+
+// Shown for uploads whose waveform could not be measured
+const FLAT_WAVEFORM = Array.from({ length: WAVEFORM_BARS }, () => 0.3);
+
+export function AudioPlayer({
+  src,
+  metadata,
+}: {
+  src: string;
+  metadata?: MediaMetadata | null;
+}) {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [currentTime, setCurrentTime] = useState(0);
+  // The stored duration is known before the file loads; the element's is a fallback
+  const [durationMs, setDurationMs] = useState(metadata?.durationMs ?? 0);
+  const waveform = metadata?.waveform?.length ? metadata.waveform : FLAT_WAVEFORM;
+  const progress = durationMs > 0 ? Math.min(1, (currentTime * 1000) / durationMs) : 0;
+
+  useEffect(() => {
+    setDurationMs(metadata?.durationMs ?? 0);
+  }, [metadata?.durationMs]);
+
+  const togglePlayback = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (audio.paused) {
+      void audio.play();
+    } else {
+      audio.pause();
+    }
+  };
+
+  const handleSeek = (e: React.MouseEvent<HTMLDivElement>) => {
+    const audio = audioRef.current;
+    if (!audio || durationMs <= 0) return;
+    const { left, width } = e.currentTarget.getBoundingClientRect();
+    audio.currentTime = ((e.clientX - left) / width) * (durationMs / 1000);
+    setCurrentTime(audio.currentTime);
+  };
+
+  return (
+    <div className="mt-2 flex items-center gap-2 min-w-[220px]">
+      <audio
+        ref={audioRef}
+        src={src}
+        preload="metadata"
+        onPlay={() => setIsPlaying(true)}
+        onPause={() => setIsPlaying(false)}
+        onEnded={() => {
+          setIsPlaying(false);
+          setCurrentTime(0);
+        }}
+        onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+        onLoadedMetadata={(e) => {
+          // Recordings from MediaRecorder often report an infinite duration
+          const seconds = e.currentTarget.duration;
+          if (!metadata?.durationMs && Number.isFinite(seconds)) {
+            setDurationMs(Math.round(seconds * 1000));
+          }
+        }}
+      />
+      <Button
+        type="button"
+        size="icon"
+        variant="ghost"
+        className="h-8 w-8 shrink-0 rounded-full"
+        onClick={togglePlayback}
+        title={isPlaying ? "Pause" : "Play"}
+      >
+        {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+      </Button>
+      <div
+        className="flex h-8 flex-1 cursor-pointer items-center gap-px"
+        onClick={handleSeek}
+      >
+        {waveform.map((peak, index) => (
+          <div
+            key={index}
+            className={cn("flex-1 rounded-full bg-current", {
+              "opacity-30": (index + 0.5) / waveform.length > progress,
+            })}
+            style={{ height: `${Math.max(10, peak * 100)}%` }}
+          />
+        ))}
+      </div>
+      <span className="w-10 shrink-0 text-right text-xs tabular-nums opacity-70">
+        {formatDuration(isPlaying || currentTime > 0 ? currentTime * 1000 : durationMs)}
+      </span>
+    </div>
+  );
+}
@@ -1,13 +1,27 @@
-import { useState, useEffect, useRef, ChangeEvent, useCallback } from "react";
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useState, useEffect, useLayoutEffect, useRef, ChangeEvent, useCallback, useMemo } from "react";
+import { useQuery, useMutation, useInfiniteQuery } from "@tanstack/react-query";
 import { MessageBubble } from "./message-bubble";
+import { ThreadPanel } from "./thread-panel";
+import { RoomSettingsDialog } from "./room-settings-dialog";
+import { ScheduleSendButton, ScheduledMessagesDialog } from "./scheduled-messages";
+import { VoiceRecordButton } from "./voice-recorder";
+import { formatFileSize } from "./file-card";
+import { PendingAttachment, PendingAttachmentList } from "./pending-attachments";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Room, MessageWithUser, User, UserRole } from "@shared/schema";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Room, MessageWithUser, MediaMetadata, ReadReceipt, Draft, User, UserRole, SlashCommandInfo, messageLengthLimit, messageTtlLabel, fileTypeAllowlist, uploadLimitBytes, fileExtension, MediaType, MAX_ATTACHMENTS, AttachmentInput } from "@shared/schema";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import { Send, Loader2, Image, X, ArrowDown, Pencil, Check, Trash2, LogOut, Users, PanelLeftClose, PanelLeft, Lock } from "lucide-react";
+import { analyzeAudio } from "@/lib/audio";
+import { uploadFile } from "@/lib/upload";
+import { Send, Loader2, Image, X, ArrowDown, Pencil, Check, Trash2, LogOut, Users, PanelLeftClose, PanelLeft, Lock, Settings, Timer } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
 import { useAuth } from "@/hooks/use-auth";
+import { useRoomSocket, upsertMessage, readReceiptsKey } from "@/hooks/use-room-socket";
+import { useMessageLimits } from "@/hooks/use-message-limits";
+import { useDirectMessages, directRoomName } from "@/hooks/use-direct-messages";
 import { useDebouncedCallback } from "use-debounce";
 import { format } from "date-fns";
 import {
@@ -100,83 +114,77 @@ const SPECIAL_MENTIONS = [
   { id: 'mod', username: 'mod', description: 'Mention all moderators' }
 ] as const;
 
-const MAX_MESSAGE_LENGTH = 100;
+// Drafts longer than this, or with line breaks, move to a multiline composer
+const MULTILINE_THRESHOLD = 80;
+const MESSAGE_PAGE_SIZE = 50;
+const LOAD_OLDER_THRESHOLD = 100;
 const ALLOWED_FILE_TYPES = {
   "image/jpeg": "image",
   "image/png": "image",
   "image/gif": "image",
   "video/mp4": "video",
   "video/webm": "video",
+  "audio/mpeg": "audio",
+  "audio/mp4": "audio",
+  "audio/x-m4a": "audio",
+  "audio/aac": "audio",
+  "audio/ogg": "audio",
+  "audio/wav": "audio",
+  "audio/webm": "audio",
 } as const;
 
-const WHISPER_COMMAND = "/whisper";
-const SUS_IMAGE_URL = "https://i.ytimg.com/vi/Mw3jK9YwOxk/maxresdefault.jpg";
-const KRATOS_IMAGE_URL = "https://ew.com/thmb/4lmLC5Ark8X7GwPpaATjk738Xao=/1500x0/filters:no_upscale():max_bytes(150000):strip_icc()/god-of-war-2018-2000-408387a68b78478aaa52d04b8a99c0a0.jpg";
-const VINE_BOOM_URL = "https://www.myinstants.com/media/sounds/vine-boom.mp3";
+// Images, video and audio are shown inline; anything else the room allows is a file
+function mediaKindOf(file: File, room: Room): MediaType | undefined {
+  const kind: (typeof ALLOWED_FILE_TYPES)[keyof typeof ALLOWED_FILE_TYPES] | undefined =
+    ALLOWED_FILE_TYPES[file.type as keyof typeof ALLOWED_FILE_TYPES];
+  return kind
+    ?? (fileTypeAllowlist(room).includes(fileExtension(file.name)) ? "file" : undefined);
+}
+
 const GOOGLE_MESSAGE_SOUND_URL = "https://www.myinstants.com/media/sounds/google-message-sound.mp3";
 
-const TEXT_COMMANDS = {
-  "/tableflip": "(╯°□°)╯︵ ┻━┻",
-  "/unflip": "┬─┬ ノ( ゜-゜ノ)",
-  "/shrug": "¯\\_(ツ)_/¯",
-} as const;
+const HIGHLIGHT_DURATION = 2000;
+const READ_REPORT_DELAY = 500;
+const DRAFT_SAVE_DELAY = 1000;
 
-const commands = [
-  {
-    name: 'whisper',
-    description: 'Send a private message to a user',
-    format: '/whisper "username" your message',
-  },
-  {
-    name: 'tableflip',
-    description: 'Flip a table in anger',
-    format: '/tableflip',
-  },
-  {
-    name: 'unflip',
-    description: 'Restore the flipped table',
-    format: '/unflip',
-  },
-  {
-    name: 'shrug',
-    description: 'Shrug your shoulders',
-    format: '/shrug',
-  },
-  {
-    name: 'sus',
-    description: 'Send the Rock eyebrow raise meme',
-    format: '/sus',
-  },
-  {
-    name: 'kratos',
-    description: 'Send an angry Kratos image',
-    format: '/kratos',
-  },
-];
+type CommandNotice = { notice: string };
 
 interface ChatRoomProps {
   room: Room;
   onToggleSidebar: () => void;
   onLeave: (roomId: number) => void;
+  // A message to scroll to, e.g. a search result; replies open their thread
+  focusMessage?: { id: number; parentId: number | null } | null;
+  onFocusHandled?: () => void;
 }
 
-function ChatRoom({ room, onToggleSidebar, onLeave }: ChatRoomProps) {
+function ChatRoom({ room, onToggleSidebar, onLeave, focusMessage, onFocusHandled }: ChatRoomProps) {
   const { user } = useAuth();
   const [message, setMessage] = useState("");
-  const [mediaFile, setMediaFile] = useState<File | null>(null);
-  const [mediaPreviewUrl, setMediaPreviewUrl] = useState<string | null>(null);
+  const [pendingAttachments, setPendingAttachments] = useState<PendingAttachment[]>([]);
+  const [isUploading, setIsUploading] = useState(false);
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
   const [showScrollButton, setShowScrollButton] = useState(false);
   const [isEditingName, setIsEditingName] = useState(false);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
   const [newRoomName, setNewRoomName] = useState(room.name);
   const [isSidebarCollapsed, setIsSidebarCollapsed] = useState(false);
   const [isLeaveDialogOpen, setIsLeaveDialogOpen] = useState(false);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+  const [threadParent, setThreadParent] = useState<MessageWithUser | null>(null);
+  const [highlightedId, setHighlightedId] = useState<number | null>(null);
+  // Set from within the room, e.g. a reminder's "View message" link
+  const [jumpTarget, setJumpTarget] = useState<number | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const messagesContainerRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
   const { toast } = useToast();
   const [showCommands, setShowCommands] = useState(false);
+  const { data: commands } = useQuery<SlashCommandInfo[]>({
+    queryKey: ["/api/commands"],
+  });
   const commandsRef = useRef<HTMLDivElement>(null);
   const audioRef = useRef<HTMLAudioElement>(null);
   const messageSoundRef = useRef<HTMLAudioElement>(null);
@@ -187,20 +195,80 @@ function ChatRoom({ room, onToggleSidebar, onLeave }: ChatRoomProps) {
   const mentionMatchRef = useRef<{ start: number; end: number } | null>(null);
 
   const isOwner = user?.id === room.createdById;
-
-  const { data: messages, isLoading } = useQuery<MessageWithUser[]>({
+  const messageLimits = useMessageLimits();
+  const maxMessageLength = messageLengthLimit(room, messageLimits);
+  const isMultiline = message.includes("\n") || message.length > MULTILINE_THRESHOLD;
+  const wasMultilineRef = useRef(isMultiline);
+  const directMessages = useDirectMessages();
+  const roomName = room.isDirect ? directRoomName(room, user) : room.name;
+
+  const {
+    data: messagePages,
+    isLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
     queryKey: [`/api/rooms/${room.id}/messages`],
-    refetchInterval: 1000,
+    queryFn: async ({ pageParam }) => {
+      const params = new URLSearchParams({ limit: String(MESSAGE_PAGE_SIZE) });
+      if (pageParam) params.set("before", pageParam);
+      const res = await apiRequest("GET", `/api/rooms/${room.id}/messages?${params}`);
+      return (await res.json()) as MessageWithUser[];
+    },
+    initialPageParam: null as string | null,
+    // Older pages are "next" pages; the cursor is the oldest message we have
+    getNextPageParam: (lastPage) =>
+      lastPage.length < MESSAGE_PAGE_SIZE ? undefined : String(lastPage[0].id),
   });
 
+  const messages = useMemo(
+    () => messagePages?.pages.slice().reverse().flat(),
+    [messagePages]
+  );
+
+  // Where we had read up to when the room was opened; the divider stays put
+  // while new messages arrive
+  const dividerAfterId = useMemo(() => room.lastReadMessageId ?? null, [room.id]);
+  const firstUnreadId = useMemo(
+    () => dividerAfterId === null
+      ? undefined
+      : messages?.find((m) => m.id > dividerAfterId && m.userId !== user?.id)?.id,
+    [messages, dividerAfterId, user?.id]
+  );
+  const lastReportedReadRef = useRef(0);
+
+  const { data: readReceipts } = useQuery<ReadReceipt[]>({
+    queryKey: readReceiptsKey(room.id),
+    enabled: !!room.participants?.some(p => p.id === user?.id),
+  });
+  // Receipts are only shown under the newest message
+  const latestMessage = useMemo(
+    () => messages?.slice().reverse().find((m) => !m.deletedAt),
+    [messages]
+  );
+  const seenBy = useMemo(
+    () => latestMessage && readReceipts
+      ? readReceipts
+          .filter((r) =>
+            r.lastReadMessageId >= latestMessage.id &&
+            r.user.id !== latestMessage.userId &&
+            // Only the recipient of a whisper can have seen it
+            (latestMessage.whisperToId == null || r.user.id === latestMessage.whisperToId)
+          )
+          .map((r) => r.user)
+      : [],
+    [latestMessage, readReceipts]
+  );
+
+  useRoomSocket(room.id);
+
   const sendMessageMutation = useMutation({
-    mutationFn: async ({ content, mediaUrl, mediaType, whisperTo, mentions }: { content: string; mediaUrl?: string; mediaType?: string; whisperTo?: string; mentions?: string[] }) => {
+    mutationFn: async ({ content, attachments, mentions }: { content: string; attachments?: AttachmentInput[]; mentions?: string[] }) => {
       const res = await apiRequest("POST", `/api/rooms/${room.id}/messages`, {
         content,
         roomId: room.id,
-        mediaUrl,
-        mediaType,
-        whisperTo,
+        attachments,
         mentions,
       });
       if (!res.ok) {
@@ -208,6 +276,8 @@ function ChatRoom({ room, onToggleSidebar, onLeave }: ChatRoomProps) {
         throw new Error(error);
       }
       const message = await res.json();
+      // Commands like /remind only confirm to the sender
+      if ("notice" in message) return message as CommandNotice;
 
       // Handle mentions including special mentions
       if (mentions && mentions.length > 0) {
@@ -233,16 +303,17 @@ function ChatRoom({ room, onToggleSidebar, onLeave }: ChatRoomProps) {
 
       return message;
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({
-        queryKey: [`/api/rooms/${room.id}/messages`],
-      });
+    onSuccess: (result: MessageWithUser | CommandNotice) => {
+      if ("notice" in result) {
+        toast({ description: result.notice });
+      } else {
+        upsertMessage(room.id, result);
+      }
       queryClient.invalidateQueries({
         queryKey: ["/api/mentions/unread"],
       });
       setMessage("");
-      setMediaFile(null);
-      setMediaPreviewUrl(null);
+      clearPendingAttachments();
       setShowCommands(false);
       if (fileInputRef.current) {
         fileInputRef.current.value = "";
@@ -428,27 +499,151 @@ function ChatRoom({ room, onToggleSidebar, onLeave }: ChatRoomProps) {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
   };
 
+  // Scroll height before an older page was prepended, used to keep the view still
+  const prependAnchorRef = useRef<number | null>(null);
+  const hasScrolledInitiallyRef = useRef(false);
+
+  const reportRead = useDebouncedCallback((messageId: number) => {
+    apiRequest("POST", `/api/rooms/${room.id}/read`, { messageId })
+      .then(() => queryClient.invalidateQueries({ queryKey: ["/api/rooms"] }))
+      .catch(error => console.error('Failed to update read position:', error));
+  }, READ_REPORT_DELAY);
+
+  // Reports the newest message that has been scrolled into view
+  const markVisibleRead = () => {
+    const container = messagesContainerRef.current;
+    if (!container || !messages || document.visibilityState !== "visible") return;
+
+    const containerBottom = container.getBoundingClientRect().bottom;
+    for (let i = messages.length - 1; i >= 0; i--) {
+      const element = document.getElementById(`message-${messages[i].id}`);
+      if (element && element.getBoundingClientRect().top < containerBottom) {
+        if (messages[i].id > lastReportedReadRef.current) {
+          lastReportedReadRef.current = messages[i].id;
+          reportRead(messages[i].id);
+        }
+        return;
+      }
+    }
+  };
+
+  useEffect(() => {
+    markVisibleRead();
+  }, [messages]);
+
   const handleScroll = () => {
     if (!messagesContainerRef.current) return;
+    markVisibleRead();
 
     const { scrollTop, scrollHeight, clientHeight } = messagesContainerRef.current;
     const atBottom = Math.abs(scrollHeight - scrollTop - clientHeight) < 50;
     setShowScrollButton(!atBottom);
+
+    if (scrollTop < LOAD_OLDER_THRESHOLD && hasNextPage && !isFetchingNextPage) {
+      prependAnchorRef.current = scrollHeight;
+      fetchNextPage();
+    }
   };
 
   useEffect(() => {
+    hasScrolledInitiallyRef.current = false;
+    lastReportedReadRef.current = 0;
+    setThreadParent(null);
+    // Uploads are checked against the room's rules, so attachments don't carry over
+    clearPendingAttachments();
+  }, [room.id]);
+
+  // The room whose draft is in the composer; nothing is saved until it has loaded
+  const draftRoomRef = useRef<number | null>(null);
+  const savedDraftRef = useRef("");
+
+  const saveDraft = useDebouncedCallback((roomId: number, content: string) => {
+    apiRequest("PUT", `/api/rooms/${roomId}/draft`, { content })
+      .then(() => queryClient.invalidateQueries({ queryKey: ["/api/drafts"] }))
+      .catch(error => console.error('Failed to save draft:', error));
+  }, DRAFT_SAVE_DELAY);
+
+  useEffect(() => {
+    let cancelled = false;
+    draftRoomRef.current = null;
+    setMessage("");
+    // Always refetch, since the draft may have been written on another device
+    queryClient.fetchQuery<Draft[]>({ queryKey: ["/api/drafts"], staleTime: 0 })
+      .catch(() => [] as Draft[])
+      .then((drafts) => {
+        if (cancelled) return;
+        const draft = drafts.find((d) => d.roomId === room.id)?.content ?? "";
+        savedDraftRef.current = draft;
+        draftRoomRef.current = room.id;
+        // Keep anything typed while the draft was loading
+        setMessage((current) => current || draft);
+      });
+    return () => {
+      cancelled = true;
+      // Don't lose the last keystrokes when switching rooms or leaving the page
+      saveDraft.flush();
+    };
+  }, [room.id]);
+
+  useEffect(() => {
+    if (draftRoomRef.current !== room.id || message === savedDraftRef.current) return;
+    savedDraftRef.current = message;
+    saveDraft(room.id, message);
+  }, [message]);
+
+  useLayoutEffect(() => {
     const container = messagesContainerRef.current;
-    if (container) {
-      container.addEventListener('scroll', handleScroll);
-      handleScroll();
+    if (!container || !messagePages) return;
+
+    if (!hasScrolledInitiallyRef.current) {
+      container.scrollTop = container.scrollHeight;
+      hasScrolledInitiallyRef.current = true;
+    } else if (prependAnchorRef.current !== null && !isFetchingNextPage) {
+      container.scrollTop += container.scrollHeight - prependAnchorRef.current;
+      prependAnchorRef.current = null;
     }
+  }, [messagePages, isFetchingNextPage]);
 
-    return () => {
-      if (container) {
-        container.removeEventListener('scroll', handleScroll);
+  const focusTarget = useMemo(
+    () => focusMessage ?? (jumpTarget !== null ? { id: jumpTarget, parentId: null } : null),
+    [focusMessage, jumpTarget]
+  );
+
+  const handleFocusDone = () => {
+    setJumpTarget(null);
+    onFocusHandled?.();
+  };
+
+  // Pages back through history until the focused message is loaded
+  useEffect(() => {
+    if (!focusTarget || !messages) return;
+
+    const targetId = focusTarget.parentId ?? focusTarget.id;
+    const target = messages.find((m) => m.id === targetId);
+    if (target) {
+      document.getElementById(`message-${targetId}`)?.scrollIntoView({ block: "center" });
+      setHighlightedId(targetId);
+      if (focusTarget.parentId) {
+        setThreadParent(target);
       }
-    };
-  }, []);
+      handleFocusDone();
+    } else if (hasNextPage) {
+      if (!isFetchingNextPage) fetchNextPage();
+    } else {
+      toast({
+        title: "Message not found",
+        description: "It may have been deleted.",
+        variant: "destructive",
+      });
+      handleFocusDone();
+    }
+  }, [focusTarget, messages, hasNextPage, isFetchingNextPage]);
+
+  useEffect(() => {
+    if (highlightedId === null) return;
+    const timeout = setTimeout(() => setHighlightedId(null), HIGHLIGHT_DURATION);
+    return () => clearTimeout(timeout);
+  }, [highlightedId]);
 
   useEffect(() => {
     function handleClickOutside(event: MouseEvent) {
@@ -468,7 +663,7 @@ function ChatRoom({ room, onToggleSidebar, onLeave }: ChatRoomProps) {
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setShowCommands(false);
-    if (!message.trim() && !mediaFile) return;
+    if (!message.trim() && pendingAttachments.length === 0) return;
 
     const mentions = message.match(/@(everyone|admin|mod|[^@\s]+)(?:\s|$)/g)?.map(mention =>
       mention.slice(1).trim()
@@ -486,79 +681,28 @@ function ChatRoom({ room, onToggleSidebar, onLeave }: ChatRoomProps) {
       }
     }
 
-    let uploadedMediaUrl: string | undefined;
-    let uploadedMediaType: string | undefined;
-    let whisperTo: string | undefined;
+    let uploadedAttachments: AttachmentInput[] | undefined;
     let messageContent = message.trim();
 
     if (containsInappropriateWord(messageContent)) {
       messageContent = filterInappropriateWords(messageContent);
     }
 
-    const textCommand = TEXT_COMMANDS[messageContent as keyof typeof TEXT_COMMANDS];
-    if (messageContent === '/sus') {
-      uploadedMediaUrl = SUS_IMAGE_URL;
-      uploadedMediaType = 'image';
-      messageContent = '';
-      if (audioRef.current) {
-        audioRef.current.volume = 0.3;
-        audioRef.current.currentTime = 0;
-        audioRef.current.play();
-      }
-    } else if (messageContent === '/kratos') {
-      uploadedMediaUrl = KRATOS_IMAGE_URL;
-      uploadedMediaType = 'image';
-      messageContent = '';
-    } else if (textCommand) {
-      messageContent = textCommand;
-    } else if (messageContent.startsWith(WHISPER_COMMAND)) {
-      const commandText = messageContent.slice(WHISPER_COMMAND.length).trim();
-
-      const usernameMatch = commandText.match(/^["']([^"']+)["']\s+(.+)$/);
-      if (!usernameMatch) {
-        toast({
-          title: "Invalid whisper format",
-          description: `Use the format: /whisper "username" your message`,
-          variant: "destructive",
-        });
-        return;
-      }
-
-      whisperTo = usernameMatch[1].replace(/^@/, '');
-      messageContent = usernameMatch[2];
-
-      if (!messageContent.trim()) {
-        toast({
-          title: "Invalid whisper format",
-          description: "Message cannot be empty",
-          variant: "destructive",
-        });
-        return;
-      }
+    // Commands run on the server; a few come with a sound for the sender
+    const sound = commands?.find((command) =>
+      messageContent.split(/\s/)[0].toLowerCase() === `/${command.name}`
+    )?.sound;
+    if (sound && audioRef.current) {
+      audioRef.current.src = sound;
+      audioRef.current.volume = 0.3;
+      audioRef.current.currentTime = 0;
+      audioRef.current.play();
     }
 
-    if (mediaFile) {
-      const formData = new FormData();
-      formData.append("file", mediaFile);
-
+    if (pendingAttachments.length > 0) {
+      setIsUploading(true);
       try {
-        const uploadRes = await fetch("/api/upload", {
-          method: "POST",
-          body: formData,
-        });
-
-        if (!uploadRes.ok) {
-          const errorText = await uploadRes.text();
-          throw new Error("Upload failed: " + errorText);
-        }
-
-        const data = await uploadRes.json();
-        if (!data.url) {
-          throw new Error("No URL returned from server");
-        }
-
-        uploadedMediaUrl = data.url;
-        uploadedMediaType = ALLOWED_FILE_TYPES[mediaFile.type as keyof typeof ALLOWED_FILE_TYPES];
+        uploadedAttachments = await Promise.all(pendingAttachments.map(uploadAttachment));
       } catch (error) {
         toast({
           title: "Failed to upload file",
@@ -566,20 +710,21 @@ function ChatRoom({ room, onToggleSidebar, onLeave }: ChatRoomProps) {
           variant: "destructive",
         });
         return;
+      } finally {
+        setIsUploading(false);
+        setPendingAttachments((current) => current.map((a) => ({ ...a, progress: null })));
       }
     }
 
     try {
       const response = await sendMessageMutation.mutateAsync({
         content: messageContent,
-        mediaUrl: uploadedMediaUrl,
-        mediaType: uploadedMediaType,
-        whisperTo,
+        attachments: uploadedAttachments,
         mentions: [...new Set(mentions)], // Ensure unique mentions
       });
 
       // If message sent successfully and there are mentions
-      if (response && mentions.length > 0) {
+      if (response && "id" in response && mentions.length > 0) {
         // Handle special mentions
         const specialMentions = mentions.filter(mention =>
           ['everyone', 'admin', 'mod'].includes(mention.toLowerCase())
@@ -614,9 +759,39 @@ function ChatRoom({ room, onToggleSidebar, onLeave }: ChatRoomProps) {
     }
   };
 
-  const handleMessageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const focusComposer = () => {
+    (textareaRef.current ?? inputRef.current)?.focus();
+  };
+
+  // Keep focus and the caret when the composer switches between input and textarea
+  useLayoutEffect(() => {
+    if (wasMultilineRef.current === isMultiline) return;
+    wasMultilineRef.current = isMultiline;
+    const element = isMultiline ? textareaRef.current : inputRef.current;
+    if (element) {
+      element.focus();
+      element.setSelectionRange(element.value.length, element.value.length);
+    }
+  }, [isMultiline]);
+
+  const handleComposerKeyDown = (e: React.KeyboardEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    if (e.key !== "Enter") return;
+    if (e.shiftKey && !isMultiline) {
+      // Shift+Enter starts a new line, which switches to the textarea
+      e.preventDefault();
+      const { selectionStart, selectionEnd, value } = e.currentTarget;
+      const start = selectionStart ?? value.length;
+      const next = value.slice(0, start) + "\n" + value.slice(selectionEnd ?? start);
+      if (next.length <= maxMessageLength) setMessage(next);
+    } else if (!e.shiftKey && isMultiline) {
+      e.preventDefault();
+      e.currentTarget.form?.requestSubmit();
+    }
+  };
+
+  const handleMessageChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
     const newValue = e.target.value;
-    if (newValue.length <= MAX_MESSAGE_LENGTH) {
+    if (newValue.length <= maxMessageLength) {
       setMessage(newValue);
 
       const cursorPosition = e.target.selectionStart || 0;
@@ -647,40 +822,118 @@ function ChatRoom({ room, onToggleSidebar, onLeave }: ChatRoomProps) {
     }
   };
 
-  const handleCommandSelect = (command: typeof commands[0]) => {
-    if (command.name === 'whisper') {
-      setMessage(`${command.format.split(' ')[0]} "`);
-    } else {
-      setMessage(command.format);
-    }
+  const handleCommandSelect = (command: SlashCommandInfo) => {
+    // Leave the cursor ready for the arguments, if the command takes any
+    const takesArgs = command.usage !== `/${command.name}`;
+    setMessage(takesArgs ? `/${command.name} ` : command.usage);
     setShowCommands(false);
-    inputRef.current?.focus();
+    focusComposer();
   };
 
-  const handleFileSelect = (e: ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
+  const addAttachments = (files: File[]) => {
+    const accepted: PendingAttachment[] = [];
+    for (const file of files) {
+      const kind = mediaKindOf(file, room);
+      if (!kind) {
+        toast({
+          title: "Invalid file type",
+          description: `${file.name}: this room accepts images, video, audio and ${fileTypeAllowlist(room).join(", ")} files`,
+          variant: "destructive",
+        });
+        continue;
+      }
+      if (file.size > uploadLimitBytes(room)) {
+        toast({
+          title: "File too large",
+          description: `${file.name}: files in this room cannot exceed ${formatFileSize(uploadLimitBytes(room))}`,
+          variant: "destructive",
+        });
+        continue;
+      }
+      accepted.push({
+        id: crypto.randomUUID(),
+        file,
+        kind,
+        previewUrl: URL.createObjectURL(file),
+        progress: null,
+      });
+    }
 
-    if (!ALLOWED_FILE_TYPES[file.type as keyof typeof ALLOWED_FILE_TYPES]) {
+    const remaining = MAX_ATTACHMENTS - pendingAttachments.length;
+    if (accepted.length > remaining) {
       toast({
-        title: "Invalid file type",
-        description: "Please upload an image or video file",
+        title: "Too many files",
+        description: `A message can have at most ${MAX_ATTACHMENTS} attachments`,
         variant: "destructive",
       });
-      return;
+      accepted.splice(Math.max(remaining, 0)).forEach((a) => URL.revokeObjectURL(a.previewUrl));
+    }
+    if (accepted.length > 0) {
+      setPendingAttachments((current) => [...current, ...accepted]);
     }
-
-    const url = URL.createObjectURL(file);
-    setMediaFile(file);
-    setMediaPreviewUrl(url);
   };
 
-  const clearMediaPreview = () => {
-    setMediaFile(null);
-    setMediaPreviewUrl(null);
-    if (fileInputRef.current) {
-      fileInputRef.current.value = "";
+  const uploadAttachment = async (attachment: PendingAttachment): Promise<AttachmentInput> => {
+    const uploaded = await uploadFile(room.id, attachment.file, (progress) => {
+      setPendingAttachments((current) =>
+        current.map((a) => (a.id === attachment.id ? { ...a, progress } : a))
+      );
+    });
+    const metadata: MediaMetadata = {
+      fileName: uploaded.fileName,
+      fileSize: uploaded.fileSize,
+      mimeType: uploaded.mimeType,
+    };
+    if (attachment.kind === "audio") {
+      Object.assign(metadata, await analyzeAudio(attachment.file));
     }
+    return { url: uploaded.url, mediaType: attachment.kind, metadata };
+  };
+
+  const handleFileSelect = (e: ChangeEvent<HTMLInputElement>) => {
+    addAttachments(Array.from(e.target.files ?? []));
+    // Lets the same file be picked again after removing it
+    e.target.value = "";
+  };
+
+  const handleComposerPaste = (e: React.ClipboardEvent) => {
+    if (e.clipboardData.files.length === 0) return;
+    e.preventDefault();
+    addAttachments(Array.from(e.clipboardData.files));
+  };
+
+  const hasDraggedFiles = (e: React.DragEvent) => e.dataTransfer.types.includes("Files");
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!hasDraggedFiles(e)) return;
+    e.preventDefault();
+    setIsDraggingFiles(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    // Moving between children also fires dragleave
+    if (e.currentTarget.contains(e.relatedTarget as Node | null)) return;
+    setIsDraggingFiles(false);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    if (!hasDraggedFiles(e)) return;
+    e.preventDefault();
+    setIsDraggingFiles(false);
+    addAttachments(Array.from(e.dataTransfer.files));
+  };
+
+  const removePendingAttachment = (id: string) => {
+    const removed = pendingAttachments.find((a) => a.id === id);
+    if (removed) URL.revokeObjectURL(removed.previewUrl);
+    setPendingAttachments((current) => current.filter((a) => a.id !== id));
+  };
+
+  const clearPendingAttachments = () => {
+    setPendingAttachments((current) => {
+      current.forEach((a) => URL.revokeObjectURL(a.previewUrl));
+      return [];
+    });
   };
 
   const handleUpdateRoomName = () => {
@@ -705,7 +958,7 @@ function ChatRoom({ room, onToggleSidebar, onLeave }: ChatRoomProps) {
       setMessage(newMessage);
       setShowMentions(false);
       setMentionSearch('');
-      inputRef.current?.focus();
+      focusComposer();
     }
   };
 
@@ -737,7 +990,6 @@ function ChatRoom({ room, onToggleSidebar, onLeave }: ChatRoomProps) {
 
   const { data: allUsers } = useQuery<User[]>({
     queryKey: [`/api/rooms/${room.id}/users`],
-    refetchInterval: 1000,
     select: (users) => {
       const uniqueUsers = new Map();
       users?.forEach(user => {
@@ -747,45 +999,6 @@ function ChatRoom({ room, onToggleSidebar, onLeave }: ChatRoomProps) {
     }
   });
 
-  function formatMessageContent(content: string | null) {
-    if (!content) return "";
-
-    return content
-      .split(/(@[^@\s]+(?:\s+[^@\s]+)*\s|\b(?:https?:\/\/|www\.)[^\s]+\b)/g)
-      .map((part, index) => {
-        if (part.startsWith('@')) {
-          return (
-            <span
-              key={index}
-              className="text-blue-500 font-medium hover:underline cursor-pointer"
-              onClick={() => {
-                console.log('Clicked mention:', part);
-              }}
-            >
-              {part}
-            </span>
-          );
-        } else if (/^(?:https?:\/\/|www\.)[^\s]+$/.test(part)) {
-          const href = part.startsWith('www.') ? `https://${part}` : part;
-          return (
-            <a
-              key={index}
-              href={href}
-              target="_blank"
-              rel="noopener noreferrer"
-              className="text-blue-500 hover:underline break-all"
-              onClick={(e) => {
-                e.stopPropagation();
-              }}
-            >
-              {part}
-            </a>
-          );
-        }
-        return <span key={index}>{part}</span>;
-      });
-  }
-
   return (
     <div className="flex flex-col h-full">
       <div className="border-b p-2 sm:p-4 flex items-center justify-between">
@@ -843,7 +1056,7 @@ function ChatRoom({ room, onToggleSidebar, onLeave }: ChatRoomProps) {
           ) : (
             <div className="flex items-center gap-2 overflow-hidden">
               <div className="flex flex-col min-w-0">
-                <h2 className="font-semibold truncate">{room.name}</h2>
+                <h2 className="font-semibold truncate">{roomName}</h2>
                 <div className="flex items-center text-sm text-muted-foreground gap-1">
                   {!room.isPublic && room.inviteCode && (
                     <div className="flex items-center gap-1 mr-2">
@@ -860,16 +1073,43 @@ function ChatRoom({ room, onToggleSidebar, onLeave }: ChatRoomProps) {
                   </span>
                 </div>
               </div>
+              {room.messageTtlSeconds != null && (
+                <Badge
+                  variant="secondary"
+                  className="flex-shrink-0 gap-1"
+                  title="New messages in this room disappear after this long"
+                >
+                  <Timer className="h-3 w-3" />
+                  {messageTtlLabel(room.messageTtlSeconds)}
+                </Badge>
+              )}
+              <ScheduledMessagesDialog roomId={room.id} />
               {(isOwner || user?.role === UserRole.OWNER) && (
                 <>
+                  {!room.isDirect && (
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => setIsEditingName(true)}
+                      className="flex-shrink-0"
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                  )}
                   <Button
                     size="icon"
                     variant="ghost"
-                    onClick={() => setIsEditingName(true)}
+                    onClick={() => setIsSettingsOpen(true)}
                     className="flex-shrink-0"
+                    title="Room settings"
                   >
-                    <Pencil className="h-4 w-4" />
+                    <Settings className="h-4 w-4" />
                   </Button>
+                  <RoomSettingsDialog
+                    room={room}
+                    open={isSettingsOpen}
+                    onOpenChange={setIsSettingsOpen}
+                  />
                   <AlertDialog
                     open={isDeleteDialogOpen}
                     onOpenChange={setIsDeleteDialogOpen}
@@ -951,20 +1191,56 @@ function ChatRoom({ room, onToggleSidebar, onLeave }: ChatRoomProps) {
         </div>
       </div>
       <div className="flex flex-1 overflow-hidden">
-        <div className="flex-1 flex flex-col overflow-hidden">
+        <div
+          className="flex-1 flex flex-col overflow-hidden relative"
+          onDragOver={handleDragOver}
+          onDragLeave={handleDragLeave}
+          onDrop={handleDrop}
+        >
+          {isDraggingFiles && (
+            <div className="absolute inset-0 z-20 flex items-center justify-center border-2 border-dashed border-primary bg-background/80 text-lg font-medium pointer-events-none">
+              Drop files to attach
+            </div>
+          )}
           <div
             className="flex-1 overflow-auto p-2 sm:p-4 relative"            ref={messagesContainerRef}
+            onScroll={handleScroll}
           >
+            {isFetchingNextPage && (
+              <div className="flex justify-center mb-4">
+                <Loader2 className="h-4 w-4 animate-spin" />
+              </div>
+            )}
             {isLoading ? (
               <div className="flex justify-center">
                 <Loader2 className="h-6 w-6 animate-spin" />
               </div>
             ) : (
               messages?.map((message) => (
-                <MessageBubble
-                  key={message.id}
-                  message={message}                  roomId={room.id}
-                />
+                <div key={message.id}>
+                  {message.id === firstUnreadId && (
+                    <div className="flex items-center gap-2 my-2 text-xs font-medium text-red-500">
+                      <div className="flex-1 h-px bg-red-500/50" />
+                      New messages
+                      <div className="flex-1 h-px bg-red-500/50" />
+                    </div>
+                  )}
+                  <div
+                    id={`message-${message.id}`}
+                    className={cn("rounded-lg transition-colors duration-1000", {
+                      "bg-yellow-100/60": highlightedId === message.id,
+                    })}
+                  >
+                    <MessageBubble
+                      message={message}
+                      roomId={room.id}
+                      onOpenThread={setThreadParent}
+                      maxMessageLength={maxMessageLength}
+                      seenBy={message.id === latestMessage?.id ? seenBy : undefined}
+                      onJumpToMessage={setJumpTarget}
+                    />
+                  </div>
+                </div>
               ))
             )}
             <div ref={messagesEndRef} />
@@ -989,51 +1265,57 @@ function ChatRoom({ room, onToggleSidebar, onLeave }: ChatRoomProps) {
                   </div>
                 );
               })}
-            {mediaPreviewUrl && (
-              <div className="relative inline-block">
-                {ALLOWED_FILE_TYPES[mediaFile?.type as keyof typeof ALLOWED_FILE_TYPES] === "image" ? (
-                  <img
-                    src={mediaPreviewUrl}
-                    alt="Preview"
-                    className="max-h-32 rounded-lg"
-                  />
-                ) : (
-                  <video
-                    src={mediaPreviewUrl}
-                    className="max-h-32 rounded-lg"
-                    controls
-                  />
-                )}
-                <button
-                  type="button"
-                  onClick={clearMediaPreview}
-                  className="absolute -top-2 -right-2 bg-destructive text-destructive-foreground rounded-full p-1 hover:bg-destructive/90"
-                >
-                  <X className="h-4 w-4" />
-                </button>
-              </div>
-            )}
+            <PendingAttachmentList
+              attachments={pendingAttachments}
+              onRemove={removePendingAttachment}
+            />
             <div className="flex gap-2 items-center relative">
               <input
                 type="file"
-                accept={Object.keys(ALLOWED_FILE_TYPES).join(",")}
+                accept={[
+                  ...Object.keys(ALLOWED_FILE_TYPES),
+                  ...fileTypeAllowlist(room).map((extension) => `.${extension}`),
+                ].join(",")}
+                multiple
                 className="hidden"
                 ref={fileInputRef}
                 onChange={handleFileSelect}
               />
               <div className="flex-1 relative">
-                <Input
-                  ref={inputRef}
-                  type="text"
-                  placeholder="Use @ to mention people..."
-                  className="pr-12"
-                  value={message}
-                  onChange={handleMessageChange}
-                  maxLength={MAX_MESSAGE_LENGTH}
-                  disabled={sendMessageMutation.isPending}
-                />
-                <span className="absolute right-2 top-1/2 -translate-y-1/2 text-sm text-muted-foreground">
-                  {message.length}/{MAX_MESSAGE_LENGTH}
+                {isMultiline ? (
+                  <Textarea
+                    ref={textareaRef}
+                    placeholder="Use @ to mention people..."
+                    className="min-h-[96px] max-h-64 pr-20 pb-6 resize-none"
+                    value={message}
+                    onChange={handleMessageChange}
+                    onKeyDown={handleComposerKeyDown}
+                    onPaste={handleComposerPaste}
+                    maxLength={maxMessageLength}
+                    disabled={sendMessageMutation.isPending}
+                  />
+                ) : (
+                  <Input
+                    ref={inputRef}
+                    type="text"
+                    placeholder="Use @ to mention people..."
+                    className="pr-20"
+                    value={message}
+                    onChange={handleMessageChange}
+                    onKeyDown={handleComposerKeyDown}
+                    onPaste={handleComposerPaste}
+                    maxLength={maxMessageLength}
+                    disabled={sendMessageMutation.isPending}
+                  />
+                )}
+                <span
+                  className={cn("absolute right-2 text-sm text-muted-foreground", {
+                    "bottom-1": isMultiline,
+                    "top-1/2 -translate-y-1/2": !isMultiline,
+                    "text-destructive": message.length >= maxMessageLength,
+                  })}
+                >
+                  {message.length}/{maxMessageLength}
                 </span>
                 {showMentions && (
                   <div className="absolute bottom-full left-0 w-80 bg-popover border rounded-lg shadow-lg mb-2 overflow-hidden">
@@ -1087,6 +1369,19 @@ function ChatRoom({ room, onToggleSidebar, onLeave }: ChatRoomProps) {
                   </div>
                 )}
               </div>
+              <ScheduleSendButton
+                roomId={room.id}
+                content={filterInappropriateWords(message.trim())}
+                disabled={sendMessageMutation.isPending || !message.trim() || pendingAttachments.length > 0}
+                onScheduled={() => {
+                  setMessage("");
+                  setShowCommands(false);
+                }}
+              />
+              <VoiceRecordButton
+                disabled={sendMessageMutation.isPending || isUploading}
+                onRecorded={(file) => addAttachments([file])}
+              />
               <Button
                 type="button"
                 variant="ghost"
@@ -1099,7 +1394,7 @@ function ChatRoom({ room, onToggleSidebar, onLeave }: ChatRoomProps) {
               <Button
                 type="submit"
                 size="icon"
-                disabled={sendMessageMutation.isPending || (!message.trim() && !mediaFile)}
+                disabled={sendMessageMutation.isPending || isUploading || (!message.trim() && pendingAttachments.length === 0)}
               >
                 {sendMessageMutation.isPending ? (
                   <Loader2 className="h-5 w-5 animate-spin" />
@@ -1115,7 +1410,7 @@ function ChatRoom({ room, onToggleSidebar, onLeave }: ChatRoomProps) {
                   <CommandList>
                     <CommandEmpty>No commands found</CommandEmpty>
                     <CommandGroup>
-                      {commands.map((command) => (
+                      {commands?.map((command) => (
                         <CommandItem
                           key={command.name}
                           value={command.name}
@@ -1138,7 +1433,18 @@ function ChatRoom({ room, onToggleSidebar, onLeave }: ChatRoomProps) {
           </div>
           <div className="p-2">
             {room.participants?.map((member) => (
-              <div key={member.id} className="flex items-center gap-2 p-2">
+              <div
+                key={member.id}
+                className={`flex items-center gap-2 p-2 rounded-md ${
+                  directMessages && member.id !== user?.id ? "cursor-pointer hover:bg-accent" : ""
+                }`}
+                title={directMessages && member.id !== user?.id ? `Message ${member.username}` : undefined}
+                onClick={() => {
+                  if (directMessages && member.id !== user?.id) {
+                    directMessages.startDirectMessageMutation.mutate([member.id]);
+                  }
+                }}
+              >
                 <Avatar className="h-8 w-8">
                   <AvatarImage src={member.avatarUrl ?? undefined} />
                   <AvatarFallback>
@@ -1156,7 +1462,13 @@ function ChatRoom({ room, onToggleSidebar, onLeave }: ChatRoomProps) {
           </div>
         </div>
       </div>
-      <audio ref={audioRef} src={VINE_BOOM_URL} />
+      <ThreadPanel
+        parent={threadParent}
+        roomId={room.id}
+        maxMessageLength={maxMessageLength}
+        onClose={() => setThreadParent(null)}
+      />
+      <audio ref={audioRef} />
       <audio ref={messageSoundRef} src={GOOGLE_MESSAGE_SOUND_URL} />
     </div>
   );
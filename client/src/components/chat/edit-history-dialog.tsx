@@ -0,0 +1,105 @@
+import { useQuery } from "@tanstack/react-query";
+import { MessageRevisionWithEditor, MessageWithUser } from "@shared/schema";
+import { cn } from "@/lib/utils";
+import { diffWords } from "@/lib/word-diff";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Loader2 } from "lucide-react";
+import { format } from "date-fns";
+
+type EditHistory = {
+  current: MessageWithUser;
+  revisions: MessageRevisionWithEditor[];
+};
+
+function VersionDiff({ before, after }: { before: string; after: string }) {
+  return (
+    <p className="whitespace-pre-wrap break-words">
+      {diffWords(before, after).map((part, index) => (
+        <span
+          key={index}
+          className={cn({
+            "bg-green-100 text-green-900": part.type === "added",
+            "bg-red-100 text-red-900 line-through": part.type === "removed",
+          })}
+        >
+          {part.value}
+        </span>
+      ))}
+    </p>
+  );
+}
+
+export function EditHistoryDialog({
+  messageId,
+  open,
+  onOpenChange,
+}: {
+  messageId: number;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { data, isLoading } = useQuery<EditHistory>({
+    queryKey: [`/api/messages/${messageId}/revisions`],
+    enabled: open,
+    // History grows with every edit, so refetch whenever the dialog opens
+    staleTime: 0,
+  });
+
+  // Each revision is the text an edit replaced; pair it with what came next
+  const versions = data
+    ? data.revisions.map((revision, index) => ({
+        revision,
+        before: revision.content ?? "",
+        after: (index + 1 < data.revisions.length
+          ? data.revisions[index + 1].content
+          : data.current.content) ?? "",
+      })).reverse()
+    : [];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[80vh] overflow-auto">
+        <DialogHeader>
+          <DialogTitle>Edit History</DialogTitle>
+        </DialogHeader>
+        {isLoading ? (
+          <div className="flex justify-center">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : versions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">This message has not been edited.</p>
+        ) : (
+          <div className="space-y-4">
+            {versions.map(({ revision, before, after }) => (
+              <div key={revision.id} className="space-y-1">
+                <div className="text-xs text-muted-foreground">
+                  Edited by <span className="font-medium">{revision.editedBy.username}</span>
+                  {" · "}
+                  {format(new Date(revision.editedAt), "PPp")}
+                </div>
+                <div className="rounded-md border p-2 text-sm">
+                  <VersionDiff before={before} after={after} />
+                </div>
+              </div>
+            ))}
+            {data && (
+              <div className="space-y-1">
+                <div className="text-xs text-muted-foreground">
+                  Original · {format(new Date(data.current.createdAt), "PPp")}
+                </div>
+                <div className="rounded-md border p-2 text-sm whitespace-pre-wrap break-words">
+                  {data.revisions[0]?.content}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,66 @@
+import { fileExtension } from "@shared/schema";
+import { cn } from "@/lib/utils";
+import { Download, File, FileArchive, FileSpreadsheet, FileText, type LucideIcon } from "lucide-react";
+
+const FILE_ICONS: Record<string, LucideIcon> = {
+  pdf: FileText,
+  txt: FileText,
+  log: FileText,
+  md: FileText,
+  doc: FileText,
+  docx: FileText,
+  odt: FileText,
+  csv: FileSpreadsheet,
+  xls: FileSpreadsheet,
+  xlsx: FileSpreadsheet,
+  ods: FileSpreadsheet,
+  zip: FileArchive,
+  gz: FileArchive,
+  tar: FileArchive,
+  "7z": FileArchive,
+};
+
+export function formatFileSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// Without an href it is a preview, e.g. of a file about to be sent
+export function FileCard({
+  fileName,
+  fileSize,
+  href,
+  className,
+}: {
+  fileName: string;
+  fileSize?: number;
+  href?: string;
+  className?: string;
+}) {
+  const Icon = FILE_ICONS[fileExtension(fileName)] ?? File;
+  const body = (
+    <>
+      <Icon className="h-8 w-8 shrink-0 opacity-80" />
+      <div className="min-w-0 flex-1">
+        <div className="truncate text-sm font-medium">{fileName}</div>
+        {fileSize !== undefined && (
+          <div className="text-xs opacity-70">{formatFileSize(fileSize)}</div>
+        )}
+      </div>
+      {href && <Download className="h-4 w-4 shrink-0 opacity-70" />}
+    </>
+  );
+  const classes = cn(
+    "flex items-center gap-3 rounded-md border bg-background/60 text-foreground px-3 py-2 min-w-[200px] max-w-xs",
+    className
+  );
+
+  return href ? (
+    <a href={href} download={fileName} className={cn(classes, "hover:bg-accent")} title={`Download ${fileName}`}>
+      {body}
+    </a>
+  ) : (
+    <div className={classes}>{body}</div>
+  );
+}
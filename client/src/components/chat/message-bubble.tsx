@@ -1,13 +1,27 @@
-import { MessageWithUser } from "@shared/schema";
+import { MessageWithUser, ReadReceipt } from "@shared/schema";
 import { cn } from "@/lib/utils";
 import { useAuth } from "@/hooks/use-auth";
 import { format } from "date-fns";
 import { UserStatus } from "./user-status";
+import { ReactionBar, ReactionPicker } from "./message-reactions";
+import { EditHistoryDialog } from "./edit-history-dialog";
+import { MessageContent } from "./message-content";
+import { PollCard } from "./poll-card";
+import { RemindMeButton } from "./remind-me";
+import { AudioPlayer } from "./audio-player";
+import { FileCard } from "./file-card";
+import { AttachmentAlbum } from "./attachment-album";
 import { useState, useEffect, useRef } from "react";
-import { AlertCircle, Loader2, Trash2, Pencil, X, Check, Maximize2 } from "lucide-react";
+import { AlarmClock, AlertCircle, Loader2, Timer, Trash2, Pencil, X, Check, Maximize2, EyeOff, MessageSquareReply, Undo2 } from "lucide-react";
 import { useMutation } from "@tanstack/react-query";
-import { apiRequest, queryClient } from "@/lib/queryClient";
+import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { upsertMessage, upsertThreadReply, markDeleted, type Tombstone } from "@/hooks/use-room-socket";
+import {
+  Avatar,
+  AvatarImage,
+  AvatarFallback,
+} from "@/components/ui/avatar";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import {
@@ -25,69 +39,97 @@ import {
   DialogContent,
   DialogTrigger,
 } from "@/components/ui/dialog";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipProvider,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
 import { UserRole } from "@/types/user";
 
-const MAX_MESSAGE_LENGTH = 100;
+// Past this many readers the receipt collapses to a count
+const MAX_SEEN_BY_AVATARS = 3;
+
+// Milliseconds until a disappearing message expires, ticking faster near the end
+function useTimeLeft(expiresAt: Date | string | null) {
+  const expiresAtMs = expiresAt ? new Date(expiresAt).getTime() : null;
+  const [now, setNow] = useState(Date.now);
+
+  useEffect(() => {
+    if (expiresAtMs === null) return;
+    const remaining = expiresAtMs - Date.now();
+    if (remaining <= 0) return;
+    const tick = remaining <= 60 * 1000 ? 1000 : 30 * 1000;
+    const timer = setTimeout(() => setNow(Date.now()), Math.min(tick, remaining));
+    return () => clearTimeout(timer);
+  }, [expiresAtMs, now]);
+
+  return expiresAtMs === null ? null : Math.max(0, expiresAtMs - now);
+}
+
+function formatTimeLeft(ms: number) {
+  const seconds = Math.ceil(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 60 * 60) return `${Math.ceil(seconds / 60)}m`;
+  if (seconds < 24 * 60 * 60) return `${Math.ceil(seconds / 3600)}h`;
+  return `${Math.ceil(seconds / 86400)}d`;
+}
 
 interface ExtendedMessageWithUser extends MessageWithUser {
-  whisperTo?: string;
   mentions?: string[];
 }
 
-function formatMessageContent(content: string | null) {
-  if (!content) return "";
-
-  return content
-    .split(/(@(?:everyone|admin|mod|[^@\s]+)(?:\s|$)|\b(?:https?:\/\/|www\.)[^\s]+\b)/g)
-    .map((part, index) => {
-      if (part?.startsWith('@')) {
-        const mention = part.trim();
-        return (
-          <span
-            key={index}
-            className="text-blue-500 font-medium hover:underline cursor-pointer"
-            onClick={() => {
-              console.log('Clicked mention:', mention);
-            }}
-          >
-            {mention}
-          </span>
-        );
-      } else if (part && /^(?:https?:\/\/|www\.)[^\s]+$/.test(part)) {
-        const href = part.startsWith('www.') ? `https://${part}` : part;
-        return (
-          <a
-            key={index}
-            href={href}
-            target="_blank"
-            rel="noopener noreferrer"
-            className="text-blue-500 hover:underline break-all"
-            onClick={(e) => {
-              e.stopPropagation();
-            }}
-          >
-            {part}
-          </a>
-        );
-      }
-      return <span key={index}>{part}</span>;
-    });
+// Marks posts from webhooks and bot accounts
+function BotBadge() {
+  return (
+    <span className="text-[10px] font-bold px-1.5 py-0.5 rounded bg-indigo-500 text-white">
+      BOT
+    </span>
+  );
 }
 
-export function MessageBubble({ message, roomId }: { message: ExtendedMessageWithUser; roomId: number }) {
+export function MessageBubble({
+  message,
+  roomId,
+  onOpenThread,
+  seenBy,
+  maxMessageLength,
+  onJumpToMessage,
+}: {
+  message: ExtendedMessageWithUser;
+  roomId: number;
+  // The room's limit, applied when editing
+  maxMessageLength: number;
+  // Omitted inside a thread, where replies cannot start threads of their own
+  onOpenThread?: (message: MessageWithUser) => void;
+  // Only passed for the newest message in the room
+  seenBy?: ReadReceipt["user"][];
+  // Scrolls to the message a reminder points back to
+  onJumpToMessage?: (messageId: number) => void;
+}) {
   const { user } = useAuth();
-  const isOwn = message.userId === user?.id;
+  // Webhook posts are stored under the hook's creator but belong to the hook
+  const isOwn = message.userId === user?.id && !message.webhook;
   const isOwner = user?.role === UserRole.OWNER;
-  const isWhisper = message.whisperTo !== undefined;
-  const canSeeWhisper = !isWhisper || isOwn || message.whisperTo === user?.username;
+  // The server only sends whispers to the people allowed to read them
+  const isWhisper = message.whisperToId != null;
+  const isWhisperRecipient = isWhisper && message.whisperToId === user?.id;
   const canDelete = isOwn ||
     (isOwner || (user?.role === 'admin' || user?.role === 'moderator')) && message.user.role !== UserRole.OWNER;
-  const canEdit = isOwn || isOwner;
+  // A poll's question is fixed once people have started voting on it
+  const canEdit = (isOwn || isOwner) && !message.poll;
+  const isModerator = isOwner || user?.role === UserRole.ADMIN || user?.role === UserRole.MODERATOR;
+  const canViewHistory = isOwn || isModerator;
+  const isDeleted = !!message.deletedAt;
+  const editedByOther = !!message.editedBy && message.editedById !== message.userId;
   const [imageError, setImageError] = useState(false);
   const [imageLoading, setImageLoading] = useState(true);
   const [isEditing, setIsEditing] = useState(false);
   const [editedContent, setEditedContent] = useState(message.content || "");
   const [showImageModal, setShowImageModal] = useState(false);
+  const [showEditHistory, setShowEditHistory] = useState(false);
+  const [deleteReason, setDeleteReason] = useState("");
+  const timeLeft = useTimeLeft(message.expiresAt);
   const imgRef = useRef<HTMLImageElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
@@ -100,10 +142,14 @@ export function MessageBubble({ message, roomId }: { message: ExtendedMessageWit
 
   const deleteMessageMutation = useMutation({
     mutationFn: async () => {
-      await apiRequest("DELETE", `/api/messages/${message.id}`);
+      const res = await apiRequest("DELETE", `/api/messages/${message.id}`, {
+        reason: deleteReason.trim() || undefined,
+      });
+      return (await res.json()) as Tombstone;
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: [`/api/rooms/${roomId}/messages`] });
+    onSuccess: (tombstone) => {
+      markDeleted(roomId, message, tombstone);
+      setDeleteReason("");
       toast({
         title: "Message deleted",
         description: "The message has been successfully deleted.",
@@ -118,14 +164,43 @@ export function MessageBubble({ message, roomId }: { message: ExtendedMessageWit
     },
   });
 
+  const restoreMessageMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/messages/${message.id}/restore`);
+      return (await res.json()) as MessageWithUser;
+    },
+    onSuccess: (restored) => {
+      if (message.parentId) {
+        upsertThreadReply(message.parentId, restored);
+      } else {
+        upsertMessage(roomId, restored);
+      }
+      toast({
+        title: "Message restored",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to restore message",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const editMessageMutation = useMutation({
     mutationFn: async () => {
-      await apiRequest("PATCH", `/api/messages/${message.id}`, {
+      const res = await apiRequest("PATCH", `/api/messages/${message.id}`, {
         content: editedContent,
       });
+      return res.json();
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: [`/api/rooms/${roomId}/messages`] });
+    onSuccess: (updatedMessage) => {
+      if (message.parentId) {
+        upsertThreadReply(message.parentId, updatedMessage);
+      } else {
+        upsertMessage(roomId, updatedMessage);
+      }
       setIsEditing(false);
       toast({
         title: "Message updated",
@@ -170,9 +245,8 @@ export function MessageBubble({ message, roomId }: { message: ExtendedMessageWit
     }
   };
 
-  if (!canSeeWhisper) {
-    return null;
-  }
+  // The sweeper removes it from the cache shortly; until then keep it out of sight
+  if (timeLeft === 0) return null;
 
   return (
     <div
@@ -180,8 +254,14 @@ export function MessageBubble({ message, roomId }: { message: ExtendedMessageWit
         "justify-end": isOwn,
       })}
     >
-      {!isOwn && (
+      {message.webhook ? (
+        <Avatar className="h-8 w-8">
+          <AvatarImage src={message.webhook.avatarUrl ?? undefined} />
+          <AvatarFallback>{message.webhook.name[0].toUpperCase()}</AvatarFallback>
+        </Avatar>
+      ) : !isOwn && (
         <UserStatus
+          userId={message.user.id}
           username={message.user.username}
           isOnline={message.user.isOnline}
           lastSeen={new Date(message.user.lastSeen)}
@@ -192,6 +272,7 @@ export function MessageBubble({ message, roomId }: { message: ExtendedMessageWit
         className={cn(
           "rounded-lg px-4 py-2 max-w-[70%] break-words relative group",
           {
+            "border border-dashed border-violet-400": isWhisper,
             "bg-violet-500 text-violet-50": isWhisper && isOwn,
             "bg-violet-100 text-violet-900": isWhisper && !isOwn,
             "bg-primary text-primary-foreground": !isWhisper && isOwn,
@@ -200,7 +281,12 @@ export function MessageBubble({ message, roomId }: { message: ExtendedMessageWit
         )}
       >
         <div className="flex items-baseline gap-2">
-          {!isOwn && (
+          {message.webhook ? (
+            <div className="flex items-baseline gap-2">
+              <span className="font-semibold text-sm">{message.webhook.name}</span>
+              <BotBadge />
+            </div>
+          ) : !isOwn && (
             <div className="flex items-baseline gap-2">
               <span className="font-semibold text-sm flex items-center">
                 {message.user.username}
@@ -223,32 +309,112 @@ export function MessageBubble({ message, roomId }: { message: ExtendedMessageWit
                   />
                 )}
               </span>
-              <span className="text-xs px-1.5 py-0.5 rounded-full bg-muted text-muted-foreground">
-                {message.user.role === UserRole.OWNER ? "owner" : message.user.role}
-              </span>
+              {message.user.isBot ? (
+                <BotBadge />
+              ) : (
+                <span className="text-xs px-1.5 py-0.5 rounded-full bg-muted text-muted-foreground">
+                  {message.user.role === UserRole.OWNER ? "owner" : message.user.role}
+                </span>
+              )}
             </div>
           )}
           <span className="text-xs opacity-70">
             {format(new Date(message.createdAt), "HH:mm")}
           </span>
+          {timeLeft !== null && (
+            <span
+              className="text-xs opacity-70 flex items-center gap-0.5"
+              title={`Disappears ${format(new Date(message.expiresAt!), "PPp")}`}
+            >
+              <Timer className="h-3 w-3" />
+              {formatTimeLeft(timeLeft)}
+            </span>
+          )}
         </div>
 
-        {isWhisper && (
-          <div className="text-xs italic mb-1">
+        {message.isReminder ? (
+          <div className="text-xs italic mb-1 flex items-center gap-2">
+            <span className="flex items-center gap-1">
+              <AlarmClock className="h-3 w-3" />
+              Reminder, only visible to you
+            </span>
+            {message.reminderOfId != null && onJumpToMessage && (
+              <button
+                type="button"
+                className="not-italic font-medium hover:underline"
+                onClick={() => onJumpToMessage(message.reminderOfId!)}
+              >
+                View message
+              </button>
+            )}
+          </div>
+        ) : isWhisper && (
+          <div className="text-xs italic mb-1 flex items-center gap-1">
+            <EyeOff className="h-3 w-3" />
             {isOwn
               ? `Whispered to ${message.whisperTo}`
-              : "Whispered to you"
+              : isWhisperRecipient
+                ? "Whispered to you"
+                : `Whisper to ${message.whisperTo}`
             }
           </div>
         )}
 
-        {message.content && !isEditing && (
-          <div className="mt-1">
-            <p>{formatMessageContent(message.content)}</p>
+        {isDeleted && (
+          <div className="mt-1 text-sm italic opacity-80 flex flex-col gap-1">
+            <span className="flex items-center gap-1">
+              <Trash2 className="h-3 w-3" />
+              Message deleted {message.deletedById === message.userId ? "by author" : "by a moderator"}
+            </span>
+            {isModerator && message.deleteReason && (
+              <span className="text-xs">Reason: {message.deleteReason}</span>
+            )}
+            {isModerator && (
+              <Button
+                size="sm"
+                variant="outline"
+                className="h-7 w-fit not-italic text-foreground"
+                onClick={() => restoreMessageMutation.mutate()}
+                disabled={restoreMessageMutation.isPending}
+              >
+                {restoreMessageMutation.isPending ? (
+                  <Loader2 className="h-3 w-3 animate-spin mr-1" />
+                ) : (
+                  <Undo2 className="h-3 w-3 mr-1" />
+                )}
+                Restore
+              </Button>
+            )}
+          </div>
+        )}
+
+        {message.poll && !isDeleted ? (
+          <PollCard message={message} poll={message.poll} roomId={roomId} />
+        ) : message.content && !isEditing && (
+          <div className={cn("mt-1", { "opacity-50 line-through": isDeleted })}>
+            <MessageContent content={message.content} />
             {message.editedAt && (
-              <span className="text-xs text-muted-foreground italic">
-                edited {format(new Date(message.editedAt), "HH:mm")}
-              </span>
+              <>
+                <button
+                  type="button"
+                  className={cn("text-xs text-muted-foreground italic", {
+                    "hover:underline": canViewHistory,
+                  })}
+                  onClick={() => setShowEditHistory(true)}
+                  disabled={!canViewHistory}
+                  title={canViewHistory ? "View edit history" : undefined}
+                >
+                  edited {format(new Date(message.editedAt), "HH:mm")}
+                  {editedByOther && ` by ${message.editedBy}`}
+                </button>
+                {canViewHistory && (
+                  <EditHistoryDialog
+                    messageId={message.id}
+                    open={showEditHistory}
+                    onOpenChange={setShowEditHistory}
+                  />
+                )}
+              </>
             )}
           </div>
         )}
@@ -292,6 +458,23 @@ export function MessageBubble({ message, roomId }: { message: ExtendedMessageWit
           </div>
         )}
 
+        {mediaUrl && message.mediaType === "audio" && !isDeleted && (
+          <AudioPlayer src={mediaUrl} metadata={message.mediaMetadata} />
+        )}
+
+        {message.mediaType === "file" && message.mediaUrl && !isDeleted && (
+          <FileCard
+            className="mt-2"
+            fileName={message.mediaMetadata?.fileName ?? "Attachment"}
+            fileSize={message.mediaMetadata?.fileSize}
+            href={`/api/messages/${message.id}/download`}
+          />
+        )}
+
+        {!!message.attachments?.length && !isDeleted && (
+          <AttachmentAlbum attachments={message.attachments} />
+        )}
+
         {imageError && (
           <div className="flex items-center gap-2 text-destructive text-sm mt-2">
             <AlertCircle className="h-4 w-4" />
@@ -301,8 +484,23 @@ export function MessageBubble({ message, roomId }: { message: ExtendedMessageWit
 
         <div className={cn(
           "absolute top-0 opacity-0 group-hover:opacity-100 transition-opacity flex gap-2",
-          isOwn ? "-left-[6rem]" : "left-[100%] ml-2"
+          isOwn ? "right-full mr-2" : "left-[100%] ml-2",
+          { hidden: isDeleted }
         )}>
+          {!isEditing && <ReactionPicker message={message} roomId={roomId} />}
+          {onOpenThread && !isEditing && (
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => onOpenThread(message)}
+              title="Reply in thread"
+            >
+              <MessageSquareReply className="h-4 w-4" />
+            </Button>
+          )}
+          {!message.parentId && !message.isReminder && !isEditing && (
+            <RemindMeButton messageId={message.id} />
+          )}
           {canEdit && !isEditing && (
             <Button
               variant="ghost"
@@ -324,9 +522,16 @@ export function MessageBubble({ message, roomId }: { message: ExtendedMessageWit
                 <AlertDialogHeader>
                   <AlertDialogTitle>Delete Message</AlertDialogTitle>
                   <AlertDialogDescription>
-                    Are you sure you want to delete this message? This action cannot be undone.
+                    Are you sure you want to delete this message? It will be replaced by a
+                    tombstone, and moderators can restore it for a limited time.
                   </AlertDialogDescription>
                 </AlertDialogHeader>
+                <Input
+                  value={deleteReason}
+                  onChange={(e) => setDeleteReason(e.target.value)}
+                  maxLength={200}
+                  placeholder="Reason (optional)"
+                />
                 <AlertDialogFooter>
                   <AlertDialogCancel>Cancel</AlertDialogCancel>
                   <Button
@@ -346,23 +551,81 @@ export function MessageBubble({ message, roomId }: { message: ExtendedMessageWit
           )}
         </div>
 
+        {!isDeleted && <ReactionBar message={message} roomId={roomId} />}
+
+        {onOpenThread && message.thread && message.thread.replyCount > 0 && (
+          <button
+            type="button"
+            onClick={() => onOpenThread(message)}
+            className="mt-2 flex items-center gap-2 text-xs font-medium hover:underline"
+          >
+            <div className="flex -space-x-2">
+              {message.thread.lastRepliers.map((replier) => (
+                <Avatar key={replier.id} className="h-5 w-5 ring-2 ring-background">
+                  <AvatarImage src={replier.avatarUrl ?? undefined} />
+                  <AvatarFallback className="text-[10px]">
+                    {replier.username[0].toUpperCase()}
+                  </AvatarFallback>
+                </Avatar>
+              ))}
+            </div>
+            {message.thread.replyCount} {message.thread.replyCount === 1 ? "reply" : "replies"}
+          </button>
+        )}
+
+        {seenBy && (seenBy.length > 0 || isOwn) && (
+          <TooltipProvider>
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <div
+                  className={cn("mt-1 flex items-center gap-1 text-[10px] text-muted-foreground", {
+                    "justify-end": isOwn,
+                  })}
+                >
+                  {seenBy.length === 0 ? (
+                    "Delivered"
+                  ) : seenBy.length > MAX_SEEN_BY_AVATARS ? (
+                    `Seen by ${seenBy.length}`
+                  ) : (
+                    <div className="flex -space-x-1">
+                      {seenBy.map((reader) => (
+                        <Avatar key={reader.id} className="h-4 w-4 ring-1 ring-background">
+                          <AvatarImage src={reader.avatarUrl ?? undefined} />
+                          <AvatarFallback className="text-[8px]">
+                            {reader.username[0].toUpperCase()}
+                          </AvatarFallback>
+                        </Avatar>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </TooltipTrigger>
+              {seenBy.length > 0 && (
+                <TooltipContent>
+                  Seen by {seenBy.map((reader) => reader.username).join(", ")}
+                </TooltipContent>
+              )}
+            </Tooltip>
+          </TooltipProvider>
+        )}
+
         {isEditing && (
           <div className="mt-1 space-y-2">
             <Input
               ref={inputRef}
               value={editedContent}
               onChange={(e) => {
-                if (e.target.value.length <= MAX_MESSAGE_LENGTH) {
+                if (e.target.value.length <= maxMessageLength) {
                   setEditedContent(e.target.value);
                 }
               }}
-              maxLength={MAX_MESSAGE_LENGTH}
+              maxLength={maxMessageLength}
               className="min-w-[200px]"
               placeholder="Edit your message..."
             />
             <div className="flex items-center justify-end gap-2">
               <span className="text-xs text-muted-foreground">
-                {editedContent.length}/{MAX_MESSAGE_LENGTH}
+                {editedContent.length}/{maxMessageLength}
               </span>
               <Button
                 size="sm"
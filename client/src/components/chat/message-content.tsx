@@ -0,0 +1,253 @@
+import { ReactNode, useState } from "react";
+import { createLowlight, common } from "lowlight";
+import type { ElementContent } from "hast";
+import { cn } from "@/lib/utils";
+
+// Renders the markdown subset we support in messages: **bold**, *italic*,
+// ~~strike~~, `code`, ```fenced code```, > quotes, lists and ||spoilers||.
+// Everything is built as React elements, so message text is never parsed as HTML.
+
+const lowlight = createLowlight(common);
+
+// highlight.js class names mapped onto the app's palette
+const HIGHLIGHT_CLASSES: Record<string, string> = {
+  "hljs-keyword": "text-purple-600",
+  "hljs-built_in": "text-cyan-700",
+  "hljs-type": "text-cyan-700",
+  "hljs-literal": "text-blue-600",
+  "hljs-number": "text-blue-600",
+  "hljs-string": "text-green-700",
+  "hljs-regexp": "text-green-700",
+  "hljs-comment": "text-gray-500 italic",
+  "hljs-title": "text-amber-700",
+  "hljs-attr": "text-amber-700",
+  "hljs-attribute": "text-amber-700",
+  "hljs-variable": "text-red-600",
+  "hljs-params": "text-foreground",
+  "hljs-meta": "text-gray-500",
+  "hljs-tag": "text-red-600",
+  "hljs-name": "text-red-600",
+};
+
+// Alternatives, in order: inline code, spoiler, bold, strike, italic (* or _),
+// mention, bare URL. The earliest match in the text wins.
+const INLINE_PATTERN = new RegExp(
+  [
+    "`([^`\\n]+)`",
+    "\\|\\|([^|][\\s\\S]*?)\\|\\|",
+    "\\*\\*([^*][\\s\\S]*?)\\*\\*",
+    "__([^_][\\s\\S]*?)__",
+    "~~([^~][\\s\\S]*?)~~",
+    "\\*([^\\s*](?:[^*]*?[^\\s*])?)\\*",
+    "(?<![\\w])_([^\\s_](?:[^_]*?[^\\s_])?)_(?![\\w])",
+    "(@[^@\\s`*_~|]+)",
+    "\\b((?:https?:\\/\\/|www\\.)[^\\s]+)\\b",
+  ].join("|"),
+  "g"
+);
+
+function Spoiler({ children }: { children: ReactNode }) {
+  const [revealed, setRevealed] = useState(false);
+  return (
+    <span
+      role="button"
+      tabIndex={0}
+      title={revealed ? undefined : "Reveal spoiler"}
+      onClick={(e) => {
+        e.stopPropagation();
+        setRevealed(true);
+      }}
+      onKeyDown={(e) => e.key === "Enter" && setRevealed(true)}
+      className={cn("rounded px-0.5 transition-colors", {
+        "bg-foreground text-transparent cursor-pointer select-none [&_*]:invisible": !revealed,
+        "bg-muted/40": revealed,
+      })}
+    >
+      {children}
+    </span>
+  );
+}
+
+function renderInline(text: string, keyPrefix: string): ReactNode[] {
+  const nodes: ReactNode[] = [];
+  const pattern = new RegExp(INLINE_PATTERN.source, "g");
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    if (match.index > lastIndex) {
+      nodes.push(text.slice(lastIndex, match.index));
+    }
+    const key = `${keyPrefix}-${match.index}`;
+    const [whole, code, spoiler, bold, boldUnderscore, strike, italic, italicUnderscore, mention, url] = match;
+
+    if (code !== undefined) {
+      nodes.push(
+        <code key={key} className="rounded bg-muted px-1 py-0.5 font-mono text-[0.85em] text-foreground">
+          {code}
+        </code>
+      );
+    } else if (spoiler !== undefined) {
+      nodes.push(<Spoiler key={key}>{renderInline(spoiler, key)}</Spoiler>);
+    } else if (bold !== undefined || boldUnderscore !== undefined) {
+      nodes.push(<strong key={key}>{renderInline(bold ?? boldUnderscore!, key)}</strong>);
+    } else if (strike !== undefined) {
+      nodes.push(<s key={key}>{renderInline(strike, key)}</s>);
+    } else if (italic !== undefined || italicUnderscore !== undefined) {
+      nodes.push(<em key={key}>{renderInline(italic ?? italicUnderscore!, key)}</em>);
+    } else if (mention !== undefined) {
+      nodes.push(
+        <span
+          key={key}
+          className="text-blue-500 font-medium hover:underline cursor-pointer"
+        >
+          {mention}
+        </span>
+      );
+    } else {
+      const href = url.startsWith("www.") ? `https://${url}` : url;
+      nodes.push(
+        <a
+          key={key}
+          href={href}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="text-blue-500 hover:underline break-all"
+          onClick={(e) => {
+            e.stopPropagation();
+          }}
+        >
+          {url}
+        </a>
+      );
+    }
+    lastIndex = match.index + whole.length;
+  }
+
+  if (lastIndex < text.length) {
+    nodes.push(text.slice(lastIndex));
+  }
+  return nodes;
+}
+
+// Keeps single newlines inside a paragraph as line breaks, as in chat
+function renderLines(lines: string[], keyPrefix: string): ReactNode[] {
+  return lines.flatMap((line, index) => {
+    const rendered = renderInline(line, `${keyPrefix}-${index}`);
+    return index === 0 ? rendered : [<br key={`${keyPrefix}-br-${index}`} />, ...rendered];
+  });
+}
+
+function renderHighlighted(nodes: ElementContent[], keyPrefix: string): ReactNode[] {
+  return nodes.map((node, index) => {
+    if (node.type === "text") return node.value;
+    if (node.type !== "element") return null;
+    const classNames = (node.properties.className as string[] | undefined) ?? [];
+    return (
+      <span
+        key={`${keyPrefix}-${index}`}
+        className={classNames.map((name) => HIGHLIGHT_CLASSES[name] ?? "").join(" ")}
+      >
+        {renderHighlighted(node.children, `${keyPrefix}-${index}`)}
+      </span>
+    );
+  });
+}
+
+function CodeBlock({ code, language }: { code: string; language: string }) {
+  const tree = language && lowlight.registered(language)
+    ? lowlight.highlight(language, code)
+    : null;
+
+  return (
+    <pre className="my-1 overflow-x-auto rounded-md bg-muted p-2 font-mono text-xs text-foreground">
+      <code>{tree ? renderHighlighted(tree.children as ElementContent[], "hl") : code}</code>
+    </pre>
+  );
+}
+
+const FENCE_PATTERN = /^```\s*([\w+-]*)\s*$/;
+const QUOTE_PATTERN = /^>\s?(.*)$/;
+const UNORDERED_ITEM_PATTERN = /^\s*[-*+]\s+(.*)$/;
+const ORDERED_ITEM_PATTERN = /^\s*(\d+)[.)]\s+(.*)$/;
+
+function renderBlocks(content: string): ReactNode[] {
+  const lines = content.replace(/\r\n?/g, "\n").split("\n");
+  const blocks: ReactNode[] = [];
+  let paragraph: string[] = [];
+  let i = 0;
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      const key = `p-${blocks.length}`;
+      blocks.push(<p key={key}>{renderLines(paragraph, key)}</p>);
+      paragraph = [];
+    }
+  };
+
+  while (i < lines.length) {
+    const line = lines[i];
+    const fence = line.match(FENCE_PATTERN);
+
+    if (fence) {
+      flushParagraph();
+      const codeLines: string[] = [];
+      i++;
+      // An unclosed fence runs to the end of the message
+      while (i < lines.length && !FENCE_PATTERN.test(lines[i])) {
+        codeLines.push(lines[i++]);
+      }
+      i++;
+      blocks.push(
+        <CodeBlock key={`code-${blocks.length}`} code={codeLines.join("\n")} language={fence[1].toLowerCase()} />
+      );
+    } else if (QUOTE_PATTERN.test(line)) {
+      flushParagraph();
+      const quoted: string[] = [];
+      while (i < lines.length && QUOTE_PATTERN.test(lines[i])) {
+        quoted.push(lines[i++].match(QUOTE_PATTERN)![1]);
+      }
+      const key = `quote-${blocks.length}`;
+      blocks.push(
+        <blockquote key={key} className="my-1 border-l-4 border-muted-foreground/40 pl-2 opacity-90">
+          {renderLines(quoted, key)}
+        </blockquote>
+      );
+    } else if (UNORDERED_ITEM_PATTERN.test(line) || ORDERED_ITEM_PATTERN.test(line)) {
+      flushParagraph();
+      const ordered = !UNORDERED_ITEM_PATTERN.test(line);
+      const itemPattern = ordered ? ORDERED_ITEM_PATTERN : UNORDERED_ITEM_PATTERN;
+      const start = ordered ? parseInt(line.match(ORDERED_ITEM_PATTERN)![1]) : undefined;
+      const items: string[] = [];
+      while (i < lines.length && itemPattern.test(lines[i])) {
+        const item = lines[i++].match(itemPattern)!;
+        items.push(ordered ? item[2] : item[1]);
+      }
+      const key = `list-${blocks.length}`;
+      const children = items.map((item, index) => (
+        <li key={index}>{renderInline(item, `${key}-${index}`)}</li>
+      ));
+      blocks.push(
+        ordered ? (
+          <ol key={key} start={start} className="my-1 list-decimal pl-5">{children}</ol>
+        ) : (
+          <ul key={key} className="my-1 list-disc pl-5">{children}</ul>
+        )
+      );
+    } else if (line.trim() === "") {
+      flushParagraph();
+      i++;
+    } else {
+      paragraph.push(line);
+      i++;
+    }
+  }
+
+  flushParagraph();
+  return blocks;
+}
+
+export function MessageContent({ content }: { content: string | null }) {
+  if (!content) return null;
+  return <div className="space-y-1 whitespace-pre-wrap">{renderBlocks(content)}</div>;
+}
@@ -0,0 +1,117 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { MessageWithUser, ReactionSummary } from "@shared/schema";
+import { cn } from "@/lib/utils";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { setReactions } from "@/hooks/use-room-socket";
+import { Button } from "@/components/ui/button";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { SmilePlus } from "lucide-react";
+
+const PICKER_EMOJI = [
+  "👍", "👎", "❤️", "😂", "😮", "😢",
+  "😡", "🎉", "🔥", "👀", "🙏", "✅",
+];
+
+function useToggleReaction(message: MessageWithUser, roomId: number) {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ emoji, remove }: { emoji: string; remove: boolean }) => {
+      const res = remove
+        ? await apiRequest("DELETE", `/api/messages/${message.id}/reactions/${encodeURIComponent(emoji)}`)
+        : await apiRequest("POST", `/api/messages/${message.id}/reactions`, { emoji });
+      return (await res.json()) as { reactions: ReactionSummary[] };
+    },
+    onSuccess: ({ reactions }) => {
+      setReactions(roomId, message, reactions);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to update reaction",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+export function ReactionPicker({
+  message,
+  roomId,
+}: {
+  message: MessageWithUser;
+  roomId: number;
+}) {
+  const [open, setOpen] = useState(false);
+  const toggleReaction = useToggleReaction(message, roomId);
+
+  const handlePick = (emoji: string) => {
+    const existing = message.reactions?.find((r) => r.emoji === emoji);
+    toggleReaction.mutate({ emoji, remove: !!existing?.reactedByMe });
+    setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" title="Add reaction">
+          <SmilePlus className="h-4 w-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-auto p-2">
+        <div className="grid grid-cols-6 gap-1">
+          {PICKER_EMOJI.map((emoji) => (
+            <button
+              key={emoji}
+              type="button"
+              className="h-8 w-8 rounded hover:bg-accent text-lg"
+              onClick={() => handlePick(emoji)}
+            >
+              {emoji}
+            </button>
+          ))}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+export function ReactionBar({
+  message,
+  roomId,
+}: {
+  message: MessageWithUser;
+  roomId: number;
+}) {
+  const toggleReaction = useToggleReaction(message, roomId);
+
+  if (!message.reactions || message.reactions.length === 0) return null;
+
+  return (
+    <div className="mt-2 flex flex-wrap gap-1">
+      {message.reactions.map((reaction) => (
+        <button
+          key={reaction.emoji}
+          type="button"
+          onClick={() =>
+            toggleReaction.mutate({ emoji: reaction.emoji, remove: reaction.reactedByMe })
+          }
+          disabled={toggleReaction.isPending}
+          className={cn(
+            "flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs bg-background text-foreground",
+            { "border-blue-500 bg-blue-50 text-blue-700": reaction.reactedByMe }
+          )}
+        >
+          <span>{reaction.emoji}</span>
+          <span className="font-medium">{reaction.count}</span>
+        </button>
+      ))}
+    </div>
+  );
+}
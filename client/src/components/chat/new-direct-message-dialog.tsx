@@ -0,0 +1,101 @@
+import { useState } from "react";
+import { MAX_DIRECT_PARTICIPANTS, User } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import {
+  Avatar,
+  AvatarImage,
+  AvatarFallback,
+} from "@/components/ui/avatar";
+import { Loader2 } from "lucide-react";
+import { useDirectMessages } from "@/hooks/use-direct-messages";
+
+export function NewDirectMessageDialog({
+  open,
+  onOpenChange,
+  users,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  users: User[];
+}) {
+  const directMessages = useDirectMessages();
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const isFull = selectedIds.length >= MAX_DIRECT_PARTICIPANTS - 1;
+
+  const toggleUser = (userId: number) => {
+    setSelectedIds((prev) =>
+      prev.includes(userId)
+        ? prev.filter((id) => id !== userId)
+        : isFull ? prev : [...prev, userId]
+    );
+  };
+
+  const handleStart = () => {
+    directMessages?.startDirectMessageMutation.mutate(selectedIds, {
+      onSuccess: () => {
+        setSelectedIds([]);
+        onOpenChange(false);
+      },
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>New Message</DialogTitle>
+        </DialogHeader>
+        <Command className="border rounded-lg">
+          <CommandInput placeholder="Search people..." />
+          <CommandList>
+            <CommandEmpty>No people found</CommandEmpty>
+            <CommandGroup>
+              {users.map((member) => (
+                <CommandItem
+                  key={member.id}
+                  value={member.username}
+                  onSelect={() => toggleUser(member.id)}
+                >
+                  <Checkbox
+                    checked={selectedIds.includes(member.id)}
+                    className="mr-2"
+                  />
+                  <Avatar className="h-6 w-6 mr-2">
+                    <AvatarImage src={member.avatarUrl ?? undefined} />
+                    <AvatarFallback>{member.username[0].toUpperCase()}</AvatarFallback>
+                  </Avatar>
+                  <span className="font-medium">{member.username}</span>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+        <div className="text-sm text-muted-foreground">
+          {isFull
+            ? `Group messages are limited to ${MAX_DIRECT_PARTICIPANTS} people`
+            : "Pick one person, or a few for a group message"}
+        </div>
+        <Button
+          className="w-full"
+          onClick={handleStart}
+          disabled={selectedIds.length === 0 || directMessages?.startDirectMessageMutation.isPending}
+        >
+          {directMessages?.startDirectMessageMutation.isPending && (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          )}
+          Start Conversation
+        </Button>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,58 @@
+import { MediaType } from "@shared/schema";
+import { Progress } from "@/components/ui/progress";
+import { FileCard } from "./file-card";
+import { X } from "lucide-react";
+
+// A file picked in the composer; `progress` is set while it uploads
+export type PendingAttachment = {
+  id: string;
+  file: File;
+  kind: MediaType;
+  previewUrl: string;
+  progress: number | null;
+};
+
+export function PendingAttachmentList({
+  attachments,
+  onRemove,
+}: {
+  attachments: PendingAttachment[];
+  onRemove: (id: string) => void;
+}) {
+  if (attachments.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {attachments.map((attachment) => (
+        <div key={attachment.id} className="relative w-fit space-y-1">
+          {attachment.kind === "image" ? (
+            <img
+              src={attachment.previewUrl}
+              alt={attachment.file.name}
+              className="h-24 w-24 rounded-lg object-cover"
+            />
+          ) : attachment.kind === "video" ? (
+            <video src={attachment.previewUrl} className="h-24 w-24 rounded-lg object-cover" muted />
+          ) : attachment.kind === "audio" ? (
+            <audio src={attachment.previewUrl} controls className="h-10 w-56" />
+          ) : (
+            <FileCard fileName={attachment.file.name} fileSize={attachment.file.size} />
+          )}
+          {attachment.progress !== null && (
+            <Progress value={attachment.progress} className="h-1.5" />
+          )}
+          {attachment.progress === null && (
+            <button
+              type="button"
+              onClick={() => onRemove(attachment.id)}
+              className="absolute -top-2 -right-2 bg-destructive text-destructive-foreground rounded-full p-1 hover:bg-destructive/90"
+              title="Remove"
+            >
+              <X className="h-3 w-3" />
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { MessageWithUser, PollSummary } from "@shared/schema";
+import { cn } from "@/lib/utils";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { setPoll } from "@/hooks/use-room-socket";
+import { Progress } from "@/components/ui/progress";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipProvider,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import { format } from "date-fns";
+import { BarChart3, Check } from "lucide-react";
+
+// Re-renders once the poll's close time passes so voting switches off on its own
+function useIsClosed(closesAt: Date | string | null) {
+  const closesAtMs = closesAt ? new Date(closesAt).getTime() : null;
+  const [isClosed, setIsClosed] = useState(closesAtMs !== null && closesAtMs <= Date.now());
+
+  useEffect(() => {
+    if (closesAtMs === null) {
+      setIsClosed(false);
+      return;
+    }
+    const remaining = closesAtMs - Date.now();
+    setIsClosed(remaining <= 0);
+    if (remaining <= 0) return;
+    const timer = setTimeout(() => setIsClosed(true), remaining);
+    return () => clearTimeout(timer);
+  }, [closesAtMs]);
+
+  return isClosed;
+}
+
+export function PollCard({
+  message,
+  poll,
+  roomId,
+}: {
+  message: MessageWithUser;
+  poll: PollSummary;
+  roomId: number;
+}) {
+  const { toast } = useToast();
+  const isClosed = useIsClosed(poll.closesAt);
+
+  const voteMutation = useMutation({
+    mutationFn: async (options: number[]) => {
+      const res = await apiRequest("POST", `/api/messages/${message.id}/poll/votes`, { options });
+      return (await res.json()) as { poll: PollSummary };
+    },
+    onSuccess: ({ poll }) => {
+      setPoll(roomId, message, poll);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to vote",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Picking your current single choice again withdraws the vote
+  const handlePick = (option: number) => {
+    const picked = poll.myVotes.includes(option);
+    if (poll.multipleChoice) {
+      voteMutation.mutate(
+        picked ? poll.myVotes.filter((o) => o !== option) : [...poll.myVotes, option]
+      );
+    } else {
+      voteMutation.mutate(picked ? [] : [option]);
+    }
+  };
+
+  const details = [
+    poll.multipleChoice ? "Multiple choice" : "Single choice",
+    poll.anonymous ? "Anonymous" : null,
+    `${poll.totalVoters} ${poll.totalVoters === 1 ? "voter" : "voters"}`,
+  ].filter(Boolean);
+
+  return (
+    <div className="mt-1 space-y-2 min-w-[240px]">
+      <div className="flex items-start gap-2">
+        <BarChart3 className="h-4 w-4 mt-0.5 shrink-0" />
+        <span className="font-semibold">{poll.question}</span>
+      </div>
+      <TooltipProvider>
+        <div className="space-y-1.5">
+          {poll.options.map((option, index) => {
+            const picked = poll.myVotes.includes(index);
+            const percent = poll.totalVoters > 0
+              ? Math.round((option.votes / poll.totalVoters) * 100)
+              : 0;
+            const row = (
+              <button
+                type="button"
+                onClick={() => handlePick(index)}
+                disabled={isClosed || voteMutation.isPending}
+                className={cn(
+                  "w-full rounded-md border bg-background text-foreground px-2 py-1.5 text-left text-sm space-y-1",
+                  { "border-blue-500": picked, "hover:bg-accent": !isClosed }
+                )}
+              >
+                <div className="flex items-center gap-2">
+                  {picked && <Check className="h-3 w-3 text-blue-600 shrink-0" />}
+                  <span className="flex-1 break-words">{option.text}</span>
+                  <span className="text-xs text-muted-foreground">
+                    {option.votes} · {percent}%
+                  </span>
+                </div>
+                <Progress value={percent} className="h-1.5" />
+              </button>
+            );
+            if (!option.voters?.length) {
+              return <div key={index}>{row}</div>;
+            }
+            return (
+              <Tooltip key={index}>
+                <TooltipTrigger asChild>{row}</TooltipTrigger>
+                <TooltipContent>
+                  {option.voters.map((voter) => voter.username).join(", ")}
+                </TooltipContent>
+              </Tooltip>
+            );
+          })}
+        </div>
+      </TooltipProvider>
+      <div className="text-xs opacity-70">
+        {details.join(" · ")}
+        {poll.closesAt && (
+          <>
+            {" · "}
+            {isClosed
+              ? `Closed ${format(new Date(poll.closesAt), "PP p")}`
+              : `Closes ${format(new Date(poll.closesAt), "PP p")}`}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
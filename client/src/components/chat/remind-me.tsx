@@ -0,0 +1,77 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Reminder } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { addDays, addHours, addMinutes, format, setHours, startOfDay } from "date-fns";
+import { AlarmClock } from "lucide-react";
+
+export const remindersKey = ["/api/reminders"];
+
+const PRESETS: { label: string; at: () => Date }[] = [
+  { label: "In 20 minutes", at: () => addMinutes(new Date(), 20) },
+  { label: "In 1 hour", at: () => addHours(new Date(), 1) },
+  { label: "In 3 hours", at: () => addHours(new Date(), 3) },
+  { label: "Tomorrow at 9:00", at: () => setHours(startOfDay(addDays(new Date(), 1)), 9) },
+];
+
+export function RemindMeButton({ messageId }: { messageId: number }) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+
+  const remindMutation = useMutation({
+    mutationFn: async (remindAt: Date) => {
+      const res = await apiRequest("POST", `/api/messages/${messageId}/reminders`, {
+        remindAt: remindAt.toISOString(),
+      });
+      return (await res.json()) as Reminder;
+    },
+    onSuccess: (reminder) => {
+      queryClient.invalidateQueries({ queryKey: remindersKey });
+      setOpen(false);
+      toast({
+        title: "Reminder set",
+        description: `We'll remind you ${format(new Date(reminder.remindAt), "PPp")}.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to set reminder",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" title="Remind me about this">
+          <AlarmClock className="h-4 w-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-48 p-1" align="start">
+        <div className="px-2 py-1.5 text-xs font-medium text-muted-foreground">Remind me</div>
+        {PRESETS.map((preset) => (
+          <Button
+            key={preset.label}
+            type="button"
+            variant="ghost"
+            size="sm"
+            className="w-full justify-start"
+            onClick={() => remindMutation.mutate(preset.at())}
+            disabled={remindMutation.isPending}
+          >
+            {preset.label}
+          </Button>
+        ))}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,227 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import {
+  OUTGOING_WEBHOOK_EVENTS,
+  OutgoingWebhook,
+  OutgoingWebhookEvent,
+  WebhookDelivery,
+} from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ChevronDown, ChevronRight, Copy, Loader2, Trash2 } from "lucide-react";
+import { format } from "date-fns";
+
+type CreatedWebhook = OutgoingWebhook & { secret: string };
+
+function DeliveryLog({ roomId, webhookId }: { roomId: number; webhookId: number }) {
+  const { data: deliveries, isLoading } = useQuery<WebhookDelivery[]>({
+    queryKey: [`/api/rooms/${roomId}/outgoing-webhooks/${webhookId}/deliveries`],
+    // Retries update the log in the background
+    staleTime: 0,
+    refetchInterval: 15000,
+  });
+
+  if (isLoading) {
+    return <Loader2 className="h-4 w-4 animate-spin mx-auto" />;
+  }
+  if (!deliveries?.length) {
+    return <p className="text-xs text-muted-foreground">No deliveries yet.</p>;
+  }
+  return (
+    <div className="space-y-1">
+      {deliveries.map((delivery) => (
+        <div key={delivery.id} className="flex items-center gap-2 text-xs">
+          <span
+            className={cn("w-16 font-medium", {
+              "text-green-600": delivery.status === "succeeded",
+              "text-amber-600": delivery.status === "pending",
+              "text-destructive": delivery.status === "failed",
+            })}
+          >
+            {delivery.status}
+          </span>
+          <span className="w-28 truncate">{delivery.event}</span>
+          <span className="text-muted-foreground">
+            {delivery.responseStatus ?? "—"} · {delivery.attempts}{" "}
+            {delivery.attempts === 1 ? "attempt" : "attempts"}
+          </span>
+          <span className="ml-auto text-muted-foreground" title={delivery.error ?? undefined}>
+            {format(new Date(delivery.createdAt), "PP p")}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function RoomOutgoingWebhooks({ roomId }: { roomId: number }) {
+  const { toast } = useToast();
+  const [url, setUrl] = useState("");
+  const [events, setEvents] = useState<OutgoingWebhookEvent[]>([...OUTGOING_WEBHOOK_EVENTS]);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  // The signing secret is only returned once, right after creation
+  const [created, setCreated] = useState<CreatedWebhook | null>(null);
+  const webhooksKey = [`/api/rooms/${roomId}/outgoing-webhooks`];
+
+  const { data: webhooks, isLoading } = useQuery<OutgoingWebhook[]>({
+    queryKey: webhooksKey,
+  });
+
+  const createWebhookMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/rooms/${roomId}/outgoing-webhooks`, {
+        url: url.trim(),
+        events,
+      });
+      return (await res.json()) as CreatedWebhook;
+    },
+    onSuccess: (webhook) => {
+      queryClient.invalidateQueries({ queryKey: webhooksKey });
+      setCreated(webhook);
+      setUrl("");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to add webhook",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteWebhookMutation = useMutation({
+    mutationFn: async (webhookId: number) => {
+      await apiRequest("DELETE", `/api/rooms/${roomId}/outgoing-webhooks/${webhookId}`);
+      return webhookId;
+    },
+    onSuccess: (webhookId) => {
+      queryClient.invalidateQueries({ queryKey: webhooksKey });
+      if (created?.id === webhookId) setCreated(null);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to remove webhook",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleEvent = (event: OutgoingWebhookEvent, checked: boolean) => {
+    setEvents((current) =>
+      checked ? [...current, event] : current.filter((e) => e !== event)
+    );
+  };
+
+  const copySecret = async (secret: string) => {
+    await navigator.clipboard.writeText(secret);
+    toast({ title: "Copied", description: "Signing secret copied to clipboard." });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <Label>Outgoing webhooks</Label>
+        <p className="text-sm text-muted-foreground">
+          Room events are POSTed as JSON, signed with an HMAC-SHA256 of the body in the
+          X-Webhook-Signature header.
+        </p>
+      </div>
+
+      {created && (
+        <div className="space-y-1 rounded-md border border-amber-300 bg-amber-50 p-2 text-sm text-amber-900">
+          <p>Copy the signing secret now; it will not be shown again.</p>
+          <div className="flex items-center gap-2">
+            <code className="flex-1 truncate rounded bg-background px-1 py-0.5 text-xs">
+              {created.secret}
+            </code>
+            <Button type="button" size="icon" variant="ghost" onClick={() => copySecret(created.secret)}>
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center">
+          <Loader2 className="h-4 w-4 animate-spin" />
+        </div>
+      ) : (
+        webhooks?.map((webhook) => (
+          <div key={webhook.id} className="rounded-md border p-2 space-y-2">
+            <div className="flex items-center gap-2">
+              <Button
+                type="button"
+                size="icon"
+                variant="ghost"
+                className="h-6 w-6"
+                onClick={() => setExpandedId(expandedId === webhook.id ? null : webhook.id)}
+                title="Delivery log"
+              >
+                {expandedId === webhook.id ? (
+                  <ChevronDown className="h-4 w-4" />
+                ) : (
+                  <ChevronRight className="h-4 w-4" />
+                )}
+              </Button>
+              <div className="flex-1 min-w-0">
+                <div className="text-sm font-medium truncate">{webhook.url}</div>
+                <div className="text-xs text-muted-foreground truncate">
+                  {webhook.events.join(", ")}
+                </div>
+              </div>
+              <Button
+                type="button"
+                size="icon"
+                variant="ghost"
+                className="text-destructive hover:text-destructive"
+                onClick={() => deleteWebhookMutation.mutate(webhook.id)}
+                disabled={deleteWebhookMutation.isPending}
+                title="Remove webhook"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+            {expandedId === webhook.id && <DeliveryLog roomId={roomId} webhookId={webhook.id} />}
+          </div>
+        ))
+      )}
+
+      <div className="space-y-2">
+        <div className="grid grid-cols-2 gap-1">
+          {OUTGOING_WEBHOOK_EVENTS.map((event) => (
+            <div key={event} className="flex items-center gap-2">
+              <Checkbox
+                id={`webhook-event-${event}`}
+                checked={events.includes(event)}
+                onCheckedChange={(checked) => toggleEvent(event, checked === true)}
+              />
+              <Label htmlFor={`webhook-event-${event}`} className="text-sm font-normal">
+                {event}
+              </Label>
+            </div>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          <Input
+            placeholder="https://example.com/hooks/chat"
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+          />
+          <Button
+            type="button"
+            onClick={() => createWebhookMutation.mutate()}
+            disabled={createWebhookMutation.isPending || !url.trim() || events.length === 0}
+          >
+            {createWebhookMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : "Add"}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
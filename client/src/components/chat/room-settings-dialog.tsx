@@ -0,0 +1,192 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import {
+  DEFAULT_FILE_TYPES,
+  DEFAULT_MAX_UPLOAD_MB,
+  MAX_UPLOAD_MB_CEILING,
+  MESSAGE_TTL_OPTIONS,
+  Room,
+  RoomSettings,
+} from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useMessageLimits } from "@/hooks/use-message-limits";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import { RoomWebhooks } from "./room-webhooks";
+import { RoomOutgoingWebhooks } from "./room-outgoing-webhooks";
+
+export function RoomSettingsDialog({
+  room,
+  open,
+  onOpenChange,
+}: {
+  room: Room;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const limits = useMessageLimits();
+  const [maxMessageLength, setMaxMessageLength] = useState("");
+  // "off" stands in for null, which a select item cannot hold
+  const [messageTtl, setMessageTtl] = useState("off");
+  const [allowedFileTypes, setAllowedFileTypes] = useState("");
+  const [maxUploadMb, setMaxUploadMb] = useState("");
+
+  useEffect(() => {
+    if (open) {
+      setMaxMessageLength(room.maxMessageLength?.toString() ?? "");
+      setMessageTtl(room.messageTtlSeconds?.toString() ?? "off");
+      setAllowedFileTypes(room.allowedFileTypes?.join(", ") ?? "");
+      setMaxUploadMb(room.maxUploadMb?.toString() ?? "");
+    }
+  }, [open, room.maxMessageLength, room.messageTtlSeconds, room.allowedFileTypes, room.maxUploadMb]);
+
+  const updateSettingsMutation = useMutation({
+    mutationFn: async (settings: RoomSettings) => {
+      const res = await apiRequest("PATCH", `/api/rooms/${room.id}/settings`, settings);
+      return (await res.json()) as Room;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/rooms"] });
+      onOpenChange(false);
+      toast({
+        title: "Room settings updated",
+        description: "The room settings have been saved.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to update room settings",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    // An empty field goes back to the server default
+    const limit = maxMessageLength.trim() === "" ? null : parseInt(maxMessageLength);
+    // Extensions may be typed with or without the leading dot
+    const fileTypes = allowedFileTypes
+      .split(/[\s,]+/)
+      .map((type) => type.replace(/^\./, ""))
+      .filter(Boolean);
+    updateSettingsMutation.mutate({
+      maxMessageLength: limit,
+      messageTtlSeconds: messageTtl === "off" ? null : parseInt(messageTtl),
+      allowedFileTypes: allowedFileTypes.trim() === "" ? null : fileTypes,
+      maxUploadMb: maxUploadMb.trim() === "" ? null : parseInt(maxUploadMb),
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[520px] max-h-[85vh] overflow-auto">
+        <DialogHeader>
+          <DialogTitle>Room Settings</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="max-message-length">Message length limit</Label>
+            <Input
+              id="max-message-length"
+              type="number"
+              min={1}
+              max={limits.maxLength}
+              placeholder={`Default (${limits.defaultLength})`}
+              value={maxMessageLength}
+              onChange={(e) => setMaxMessageLength(e.target.value)}
+            />
+            <p className="text-sm text-muted-foreground">
+              Up to {limits.maxLength} characters. Leave empty to use the default.
+            </p>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="message-ttl">Disappearing messages</Label>
+            <Select value={messageTtl} onValueChange={setMessageTtl}>
+              <SelectTrigger id="message-ttl">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="off">Off</SelectItem>
+                {MESSAGE_TTL_OPTIONS.map((option) => (
+                  <SelectItem key={option.seconds} value={option.seconds.toString()}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-sm text-muted-foreground">
+              New messages are deleted this long after they are sent, media included.
+              Messages already in the room are not affected.
+            </p>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="allowed-file-types">Allowed file types</Label>
+            <Input
+              id="allowed-file-types"
+              placeholder={DEFAULT_FILE_TYPES.join(", ")}
+              value={allowedFileTypes}
+              onChange={(e) => setAllowedFileTypes(e.target.value)}
+            />
+            <p className="text-sm text-muted-foreground">
+              Extensions members may attach besides images, video and audio. Leave empty to use the default list.
+            </p>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="max-upload-mb">Upload size limit (MB)</Label>
+            <Input
+              id="max-upload-mb"
+              type="number"
+              min={1}
+              max={MAX_UPLOAD_MB_CEILING}
+              placeholder={`Default (${DEFAULT_MAX_UPLOAD_MB})`}
+              value={maxUploadMb}
+              onChange={(e) => setMaxUploadMb(e.target.value)}
+            />
+            <p className="text-sm text-muted-foreground">
+              Up to {MAX_UPLOAD_MB_CEILING} MB. Leave empty to use the default.
+            </p>
+          </div>
+          <DialogFooter>
+            <Button type="submit" disabled={updateSettingsMutation.isPending}>
+              {updateSettingsMutation.isPending ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                "Save"
+              )}
+            </Button>
+          </DialogFooter>
+        </form>
+        {!room.isDirect && (
+          <>
+            <div className="border-t pt-4">
+              <RoomWebhooks roomId={room.id} />
+            </div>
+            <div className="border-t pt-4">
+              <RoomOutgoingWebhooks roomId={room.id} />
+            </div>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
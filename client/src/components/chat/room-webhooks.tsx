@@ -0,0 +1,158 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { IncomingWebhook } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Avatar,
+  AvatarImage,
+  AvatarFallback,
+} from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Copy, Loader2, Trash2 } from "lucide-react";
+import { format } from "date-fns";
+
+type CreatedWebhook = IncomingWebhook & { url: string };
+
+export function RoomWebhooks({ roomId }: { roomId: number }) {
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [avatarUrl, setAvatarUrl] = useState("");
+  // The secret URL is only returned once, right after creation
+  const [created, setCreated] = useState<CreatedWebhook | null>(null);
+  const webhooksKey = [`/api/rooms/${roomId}/webhooks`];
+
+  const { data: webhooks, isLoading } = useQuery<IncomingWebhook[]>({
+    queryKey: webhooksKey,
+  });
+
+  const createWebhookMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/rooms/${roomId}/webhooks`, {
+        name: name.trim(),
+        avatarUrl: avatarUrl.trim() || undefined,
+      });
+      return (await res.json()) as CreatedWebhook;
+    },
+    onSuccess: (webhook) => {
+      queryClient.invalidateQueries({ queryKey: webhooksKey });
+      setCreated(webhook);
+      setName("");
+      setAvatarUrl("");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to create webhook",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeWebhookMutation = useMutation({
+    mutationFn: async (webhookId: number) => {
+      await apiRequest("DELETE", `/api/rooms/${roomId}/webhooks/${webhookId}`);
+      return webhookId;
+    },
+    onSuccess: (webhookId) => {
+      queryClient.invalidateQueries({ queryKey: webhooksKey });
+      if (created?.id === webhookId) setCreated(null);
+      toast({
+        title: "Webhook revoked",
+        description: "Its URL no longer accepts messages.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to revoke webhook",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const copyUrl = async (url: string) => {
+    await navigator.clipboard.writeText(url);
+    toast({ title: "Copied", description: "Webhook URL copied to clipboard." });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <Label>Incoming webhooks</Label>
+        <p className="text-sm text-muted-foreground">
+          Scripts can POST JSON like {'{"content": "Build passed"}'} to a webhook URL.
+        </p>
+      </div>
+
+      {created && (
+        <div className="space-y-1 rounded-md border border-amber-300 bg-amber-50 p-2 text-sm text-amber-900">
+          <p>Copy this URL now; it will not be shown again.</p>
+          <div className="flex items-center gap-2">
+            <code className="flex-1 truncate rounded bg-background px-1 py-0.5 text-xs">
+              {created.url}
+            </code>
+            <Button type="button" size="icon" variant="ghost" onClick={() => copyUrl(created.url)}>
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center">
+          <Loader2 className="h-4 w-4 animate-spin" />
+        </div>
+      ) : (
+        webhooks?.map((webhook) => (
+          <div key={webhook.id} className="flex items-center gap-2">
+            <Avatar className="h-6 w-6">
+              <AvatarImage src={webhook.avatarUrl ?? undefined} />
+              <AvatarFallback>{webhook.name[0].toUpperCase()}</AvatarFallback>
+            </Avatar>
+            <div className="flex-1 min-w-0">
+              <div className="text-sm font-medium truncate">{webhook.name}</div>
+              <div className="text-xs text-muted-foreground">
+                Created {format(new Date(webhook.createdAt), "PP")}
+              </div>
+            </div>
+            <Button
+              type="button"
+              size="icon"
+              variant="ghost"
+              className="text-destructive hover:text-destructive"
+              onClick={() => revokeWebhookMutation.mutate(webhook.id)}
+              disabled={revokeWebhookMutation.isPending}
+              title="Revoke webhook"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))
+      )}
+
+      <div className="flex gap-2">
+        <Input
+          placeholder="Bot name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          maxLength={50}
+        />
+        <Input
+          placeholder="Avatar URL (optional)"
+          value={avatarUrl}
+          onChange={(e) => setAvatarUrl(e.target.value)}
+        />
+        <Button
+          type="button"
+          onClick={() => createWebhookMutation.mutate()}
+          disabled={createWebhookMutation.isPending || !name.trim()}
+        >
+          {createWebhookMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : "Create"}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,284 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { ScheduledMessage } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { format, startOfDay } from "date-fns";
+import { AlertCircle, CalendarClock, Clock, Loader2, Pencil, Trash2 } from "lucide-react";
+
+export function scheduledMessagesKey(roomId: number) {
+  return [`/api/rooms/${roomId}/scheduled-messages`];
+}
+
+// The next full hour, so the picker starts somewhere sensible
+function defaultSendAt(): Date {
+  const date = new Date();
+  date.setHours(date.getHours() + 1, 0, 0, 0);
+  return date;
+}
+
+function withTime(day: Date, time: string): Date {
+  const [hours, minutes] = time.split(":").map(Number);
+  const date = new Date(day);
+  date.setHours(hours || 0, minutes || 0, 0, 0);
+  return date;
+}
+
+// Times are picked in the browser's time zone and sent to the server as UTC
+function DateTimePicker({
+  value,
+  onChange,
+}: {
+  value: Date;
+  onChange: (value: Date) => void;
+}) {
+  return (
+    <div className="space-y-2">
+      <Calendar
+        mode="single"
+        selected={value}
+        onSelect={(day) => day && onChange(withTime(day, format(value, "HH:mm")))}
+        disabled={{ before: startOfDay(new Date()) }}
+        initialFocus
+      />
+      <Input
+        type="time"
+        value={format(value, "HH:mm")}
+        onChange={(e) => e.target.value && onChange(withTime(value, e.target.value))}
+      />
+    </div>
+  );
+}
+
+export function ScheduleSendButton({
+  roomId,
+  content,
+  disabled,
+  onScheduled,
+}: {
+  roomId: number;
+  content: string;
+  disabled?: boolean;
+  onScheduled: () => void;
+}) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [sendAt, setSendAt] = useState(defaultSendAt);
+
+  const scheduleMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/rooms/${roomId}/scheduled-messages`, {
+        content,
+        sendAt: sendAt.toISOString(),
+      });
+      return (await res.json()) as ScheduledMessage;
+    },
+    onSuccess: (scheduled) => {
+      queryClient.invalidateQueries({ queryKey: scheduledMessagesKey(roomId) });
+      setOpen(false);
+      onScheduled();
+      toast({
+        title: "Message scheduled",
+        description: `It will be sent ${format(new Date(scheduled.sendAt), "PPp")}.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to schedule message",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleOpenChange = (next: boolean) => {
+    if (next) setSendAt(defaultSendAt());
+    setOpen(next);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button type="button" variant="ghost" size="icon" disabled={disabled} title="Schedule send">
+          <Clock className="h-5 w-5" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-auto p-3 space-y-2" align="end">
+        <div className="text-sm font-medium">Schedule send</div>
+        <DateTimePicker value={sendAt} onChange={setSendAt} />
+        <Button
+          type="button"
+          className="w-full"
+          onClick={() => scheduleMutation.mutate()}
+          disabled={scheduleMutation.isPending || !content}
+        >
+          {scheduleMutation.isPending ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            `Send ${format(sendAt, "PP p")}`
+          )}
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+function ScheduledMessageItem({
+  roomId,
+  scheduled,
+}: {
+  roomId: number;
+  scheduled: ScheduledMessage;
+}) {
+  const { toast } = useToast();
+  const [isEditing, setIsEditing] = useState(false);
+  const [content, setContent] = useState(scheduled.content);
+  const [sendAt, setSendAt] = useState(() => new Date(scheduled.sendAt));
+
+  const updateMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("PATCH", `/api/scheduled-messages/${scheduled.id}`, {
+        content: content.trim(),
+        sendAt: sendAt.toISOString(),
+      });
+      return (await res.json()) as ScheduledMessage;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: scheduledMessagesKey(roomId) });
+      setIsEditing(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to update scheduled message",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", `/api/scheduled-messages/${scheduled.id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: scheduledMessagesKey(roomId) });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to cancel scheduled message",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const startEditing = () => {
+    setContent(scheduled.content);
+    setSendAt(new Date(scheduled.sendAt));
+    setIsEditing(true);
+  };
+
+  if (isEditing) {
+    return (
+      <div className="rounded-md border p-2 space-y-2">
+        <Textarea
+          value={content}
+          onChange={(e) => setContent(e.target.value)}
+          className="min-h-[72px] resize-none"
+        />
+        <DateTimePicker value={sendAt} onChange={setSendAt} />
+        <div className="flex justify-end gap-2">
+          <Button type="button" variant="ghost" onClick={() => setIsEditing(false)}>
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            onClick={() => updateMutation.mutate()}
+            disabled={updateMutation.isPending || !content.trim()}
+          >
+            {updateMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : "Save"}
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-md border p-2 flex gap-2">
+      <div className="flex-1 min-w-0 space-y-1">
+        <p className="text-sm whitespace-pre-wrap break-words">{scheduled.content}</p>
+        <p className="text-xs text-muted-foreground">
+          Sends {format(new Date(scheduled.sendAt), "PPp")}
+        </p>
+        {scheduled.failureReason && (
+          <p className="flex items-center gap-1 text-xs text-destructive">
+            <AlertCircle className="h-3 w-3" />
+            Not sent: {scheduled.failureReason}
+          </p>
+        )}
+      </div>
+      <Button type="button" variant="ghost" size="icon" onClick={startEditing} title="Edit">
+        <Pencil className="h-4 w-4" />
+      </Button>
+      <Button
+        type="button"
+        variant="ghost"
+        size="icon"
+        className="text-destructive hover:text-destructive"
+        onClick={() => cancelMutation.mutate()}
+        disabled={cancelMutation.isPending}
+        title="Cancel scheduled message"
+      >
+        <Trash2 className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+}
+
+export function ScheduledMessagesDialog({ roomId }: { roomId: number }) {
+  const { data: scheduled } = useQuery<ScheduledMessage[]>({
+    queryKey: scheduledMessagesKey(roomId),
+    // Sent messages drop off the list on their own
+    staleTime: 0,
+    refetchInterval: 60000,
+  });
+
+  if (!scheduled?.length) return null;
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button type="button" variant="ghost" size="sm" title="Scheduled messages">
+          <CalendarClock className="h-4 w-4 mr-1" />
+          {scheduled.length} scheduled
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[480px] max-h-[85vh] overflow-auto">
+        <DialogHeader>
+          <DialogTitle>Scheduled messages</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-2">
+          {scheduled.map((item) => (
+            <ScheduledMessageItem key={item.id} roomId={roomId} scheduled={item} />
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,189 @@
+import { useState } from "react";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { useDebounce } from "use-debounce";
+import {
+  MessageSearchResult,
+  Room,
+  SEARCH_HIGHLIGHT_END,
+  SEARCH_HIGHLIGHT_START,
+} from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import { directRoomName } from "@/hooks/use-direct-messages";
+import { Dialog, DialogContent } from "@/components/ui/dialog";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Avatar,
+  AvatarImage,
+  AvatarFallback,
+} from "@/components/ui/avatar";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Image, Loader2 } from "lucide-react";
+import { format } from "date-fns";
+
+const ALL_ROOMS = "all";
+
+function renderSnippet(snippet: string) {
+  return snippet.split(SEARCH_HIGHLIGHT_START).map((chunk, index) => {
+    if (index === 0) return <span key={index}>{chunk}</span>;
+    const [match, rest] = chunk.split(SEARCH_HIGHLIGHT_END);
+    return (
+      <span key={index}>
+        <mark className="bg-yellow-200 text-foreground rounded-sm px-0.5">{match}</mark>
+        {rest}
+      </span>
+    );
+  });
+}
+
+export function SearchDialog({
+  open,
+  onOpenChange,
+  rooms,
+  onSelectResult,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  rooms: Room[];
+  onSelectResult: (result: MessageSearchResult) => void;
+}) {
+  const { user } = useAuth();
+  const [query, setQuery] = useState("");
+  const [roomId, setRoomId] = useState(ALL_ROOMS);
+  const [author, setAuthor] = useState("");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [hasMedia, setHasMedia] = useState(false);
+  const [debouncedQuery] = useDebounce(query.trim(), 300);
+  const [debouncedAuthor] = useDebounce(author.trim(), 300);
+
+  const params = new URLSearchParams({ q: debouncedQuery });
+  if (roomId !== ALL_ROOMS) params.set("roomId", roomId);
+  if (debouncedAuthor) params.set("author", debouncedAuthor);
+  // Date inputs are local calendar days; cover the whole of each day
+  if (from) params.set("from", new Date(`${from}T00:00:00`).toISOString());
+  if (to) params.set("to", new Date(`${to}T23:59:59.999`).toISOString());
+  if (hasMedia) params.set("hasMedia", "true");
+
+  const { data: results, isFetching } = useQuery<MessageSearchResult[]>({
+    queryKey: [`/api/search?${params}`],
+    enabled: open && debouncedQuery.length > 0,
+    placeholderData: keepPreviousData,
+  });
+
+  const roomLabel = (result: MessageSearchResult) => {
+    const room = rooms.find((r) => r.id === result.roomId);
+    return room?.isDirect ? directRoomName(room, user) : result.roomName;
+  };
+
+  const handleSelect = (result: MessageSearchResult) => {
+    onSelectResult(result);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="overflow-hidden p-0 sm:max-w-2xl">
+        {/* Matching happens on the server, so cmdk's own filtering is off */}
+        <Command shouldFilter={false}>
+          <CommandInput
+            placeholder="Search messages..."
+            value={query}
+            onValueChange={setQuery}
+          />
+          <div className="flex flex-wrap items-center gap-2 border-b p-2">
+            <Select value={roomId} onValueChange={setRoomId}>
+              <SelectTrigger className="h-8 w-40">
+                <SelectValue placeholder="All rooms" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_ROOMS}>All rooms</SelectItem>
+                {rooms.map((room) => (
+                  <SelectItem key={room.id} value={String(room.id)}>
+                    {room.isDirect ? directRoomName(room, user) : room.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              className="h-8 w-32"
+              placeholder="From user"
+              value={author}
+              onChange={(e) => setAuthor(e.target.value)}
+            />
+            <Input
+              type="date"
+              className="h-8 w-36"
+              value={from}
+              onChange={(e) => setFrom(e.target.value)}
+              title="From date"
+            />
+            <Input
+              type="date"
+              className="h-8 w-36"
+              value={to}
+              onChange={(e) => setTo(e.target.value)}
+              title="To date"
+            />
+            <div className="flex items-center gap-1">
+              <Checkbox
+                id="search-has-media"
+                checked={hasMedia}
+                onCheckedChange={(checked) => setHasMedia(checked === true)}
+              />
+              <Label htmlFor="search-has-media" className="text-sm">Has media</Label>
+            </div>
+            {isFetching && <Loader2 className="h-4 w-4 animate-spin ml-auto" />}
+          </div>
+          <CommandList className="max-h-[400px]">
+            {debouncedQuery && !isFetching && (
+              <CommandEmpty>No messages found</CommandEmpty>
+            )}
+            {debouncedQuery && results && results.length > 0 && (
+              <CommandGroup heading="Messages">
+                {results.map((result) => (
+                  <CommandItem
+                    key={result.id}
+                    value={String(result.id)}
+                    onSelect={() => handleSelect(result)}
+                    className="flex items-start gap-2"
+                  >
+                    <Avatar className="h-6 w-6 mt-0.5">
+                      <AvatarImage src={result.user.avatarUrl ?? undefined} />
+                      <AvatarFallback>{result.user.username[0].toUpperCase()}</AvatarFallback>
+                    </Avatar>
+                    <div className="flex flex-col min-w-0">
+                      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                        <span className="font-medium text-foreground">{result.user.username}</span>
+                        <span>in {roomLabel(result)}</span>
+                        {result.parentId && <span>· thread</span>}
+                        {result.mediaType && <Image className="h-3 w-3" />}
+                        <span>{format(new Date(result.createdAt), "PP p")}</span>
+                      </div>
+                      <p className="text-sm break-words">{renderSnippet(result.snippet)}</p>
+                    </div>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+          </CommandList>
+        </Command>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,137 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { MessageWithUser } from "@shared/schema";
+import { MessageBubble } from "./message-bubble";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Sheet,
+  SheetContent,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { Loader2, Send } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { threadKey, upsertThreadReply, type ThreadData } from "@/hooks/use-room-socket";
+import { format } from "date-fns";
+
+export function ThreadPanel({
+  parent,
+  roomId,
+  maxMessageLength,
+  onClose,
+}: {
+  parent: MessageWithUser | null;
+  roomId: number;
+  maxMessageLength: number;
+  onClose: () => void;
+}) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [reply, setReply] = useState("");
+
+  const { data: thread, isLoading } = useQuery<ThreadData>({
+    queryKey: threadKey(parent?.id ?? 0),
+    enabled: !!parent,
+  });
+
+  const sendReplyMutation = useMutation({
+    mutationFn: async (content: string) => {
+      const res = await apiRequest("POST", `/api/messages/${parent!.id}/thread`, { content });
+      return (await res.json()) as MessageWithUser;
+    },
+    onSuccess: (message) => {
+      upsertThreadReply(parent!.id, message);
+      setReply("");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to send reply",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reply.trim()) return;
+
+    if (user?.muted) {
+      const mutedUntil = new Date(user.mutedUntil!);
+      if (mutedUntil > new Date()) {
+        toast({
+          title: "You are muted",
+          description: `You cannot send messages until ${format(mutedUntil, 'PPp')}. Reason: ${user.mutedReason}`,
+          variant: "destructive",
+        });
+        return;
+      }
+    }
+
+    sendReplyMutation.mutate(reply.trim());
+  };
+
+  return (
+    <Sheet open={!!parent} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent side="right" className="flex flex-col w-full sm:max-w-md p-0">
+        <SheetHeader className="p-4 border-b">
+          <SheetTitle>Thread</SheetTitle>
+        </SheetHeader>
+        <div className="flex-1 overflow-auto p-4">
+          {parent && (
+            <div className="border-b pb-2 mb-4">
+              <MessageBubble
+                message={thread?.parent ?? parent}
+                roomId={roomId}
+                maxMessageLength={maxMessageLength}
+              />
+            </div>
+          )}
+          {isLoading ? (
+            <div className="flex justify-center">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : (
+            thread?.replies.map((message) => (
+              <MessageBubble
+                key={message.id}
+                message={message}
+                roomId={roomId}
+                maxMessageLength={maxMessageLength}
+              />
+            ))
+          )}
+        </div>
+        <form onSubmit={handleSubmit} className="border-t p-4 flex gap-2 items-center">
+          <div className="flex-1 relative">
+            <Input
+              placeholder="Reply in thread..."
+              className="pr-12"
+              value={reply}
+              onChange={(e) => setReply(e.target.value)}
+              maxLength={maxMessageLength}
+              disabled={sendReplyMutation.isPending}
+            />
+            <span className="absolute right-2 top-1/2 -translate-y-1/2 text-sm text-muted-foreground">
+              {reply.length}/{maxMessageLength}
+            </span>
+          </div>
+          <Button
+            type="submit"
+            size="icon"
+            disabled={sendReplyMutation.isPending || !reply.trim()}
+          >
+            {sendReplyMutation.isPending ? (
+              <Loader2 className="h-5 w-5 animate-spin" />
+            ) : (
+              <Send className="h-5 w-5" />
+            )}
+          </Button>
+        </form>
+      </SheetContent>
+    </Sheet>
+  );
+}
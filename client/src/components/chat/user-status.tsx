@@ -5,23 +5,39 @@ import {
   TooltipProvider,
   TooltipTrigger,
 } from "@/components/ui/tooltip";
+import { Button } from "@/components/ui/button";
+import { MessageSquare } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
+import { useAuth } from "@/hooks/use-auth";
+import { useDirectMessages } from "@/hooks/use-direct-messages";
 
 export function UserStatus({
+  userId,
   username,
   isOnline,
   lastSeen,
   avatarUrl,
 }: {
+  userId?: number;
   username: string;
   isOnline: boolean;
   lastSeen: Date;
   avatarUrl?: string | null;
 }) {
+  const { user } = useAuth();
+  const directMessages = useDirectMessages();
+  const canMessage = directMessages && userId !== undefined && userId !== user?.id;
+
+  const startDirectMessage = () => {
+    if (canMessage) {
+      directMessages.startDirectMessageMutation.mutate([userId]);
+    }
+  };
+
   return (
     <TooltipProvider>
       <Tooltip>
-        <TooltipTrigger>
+        <TooltipTrigger onClick={startDirectMessage}>
           <Avatar className="h-8 w-8">
             <AvatarImage src={avatarUrl ?? undefined} />
             <AvatarFallback className="relative">
@@ -41,8 +57,20 @@ export function UserStatus({
               ? "Online"
               : `Last seen ${formatDistanceToNow(lastSeen)} ago`}
           </p>
+          {canMessage && (
+            <Button
+              size="sm"
+              variant="ghost"
+              className="mt-1 h-7 px-2"
+              onClick={startDirectMessage}
+              disabled={directMessages.startDirectMessageMutation.isPending}
+            >
+              <MessageSquare className="h-3 w-3 mr-1" />
+              Message
+            </Button>
+          )}
         </TooltipContent>
       </Tooltip>
     </TooltipProvider>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,137 @@
+import { useEffect, useRef, useState } from "react";
+import { MAX_VOICE_NOTE_SECONDS } from "@shared/schema";
+import { cn } from "@/lib/utils";
+import { formatDuration } from "@/lib/audio";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Mic } from "lucide-react";
+
+// Formats are tried in order; Safari only records mp4
+const RECORDING_FORMATS = [
+  { mimeType: "audio/webm;codecs=opus", extension: "webm" },
+  { mimeType: "audio/ogg;codecs=opus", extension: "ogg" },
+  { mimeType: "audio/mp4", extension: "m4a" },
+];
+
+// Taps shorter than this are treated as accidental and discarded
+const MIN_RECORDING_MS = 500;
+
+// Push to record: hold the button to record, release to attach the voice note
+export function VoiceRecordButton({
+  disabled,
+  onRecorded,
+}: {
+  disabled?: boolean;
+  onRecorded: (file: File) => void;
+}) {
+  const { toast } = useToast();
+  const [startedAt, setStartedAt] = useState<number | null>(null);
+  const [elapsedMs, setElapsedMs] = useState(0);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  // Set when the button is released before the microphone is ready
+  const releasedRef = useRef(false);
+
+  useEffect(() => {
+    if (startedAt === null) return;
+    const timer = setInterval(() => {
+      const elapsed = Date.now() - startedAt;
+      setElapsedMs(elapsed);
+      if (elapsed >= MAX_VOICE_NOTE_SECONDS * 1000) stopRecording();
+    }, 200);
+    return () => clearInterval(timer);
+  }, [startedAt]);
+
+  // Releases the microphone if the composer goes away mid-recording
+  useEffect(() => () => {
+    const recorder = recorderRef.current;
+    if (recorder && recorder.state !== "inactive") {
+      recorder.onstop = null;
+      recorder.stop();
+      recorder.stream.getTracks().forEach((track) => track.stop());
+    }
+  }, []);
+
+  const startRecording = async () => {
+    releasedRef.current = false;
+    const format = RECORDING_FORMATS.find((f) => MediaRecorder.isTypeSupported(f.mimeType));
+    if (!format || !navigator.mediaDevices?.getUserMedia) {
+      toast({
+        title: "Recording not supported",
+        description: "This browser cannot record voice messages.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    } catch {
+      toast({
+        title: "Microphone unavailable",
+        description: "Allow microphone access to record voice messages.",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (releasedRef.current) {
+      stream.getTracks().forEach((track) => track.stop());
+      return;
+    }
+
+    const chunks: Blob[] = [];
+    const recorder = new MediaRecorder(stream, { mimeType: format.mimeType });
+    const recordingStartedAt = Date.now();
+    recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) chunks.push(e.data);
+    };
+    recorder.onstop = () => {
+      stream.getTracks().forEach((track) => track.stop());
+      if (Date.now() - recordingStartedAt < MIN_RECORDING_MS) return;
+      // Without the codecs parameter, so it matches the allowed upload types
+      const type = format.mimeType.split(";")[0];
+      onRecorded(new File(chunks, `voice-note.${format.extension}`, { type }));
+    };
+    recorderRef.current = recorder;
+    recorder.start();
+    setElapsedMs(0);
+    setStartedAt(recordingStartedAt);
+  };
+
+  const stopRecording = () => {
+    releasedRef.current = true;
+    const recorder = recorderRef.current;
+    if (recorder && recorder.state !== "inactive") recorder.stop();
+    recorderRef.current = null;
+    setStartedAt(null);
+  };
+
+  const isRecording = startedAt !== null;
+
+  return (
+    <div className="flex items-center gap-1">
+      {isRecording && (
+        <span className="flex items-center gap-1 text-sm tabular-nums text-destructive">
+          <span className="h-2 w-2 rounded-full bg-destructive animate-pulse" />
+          {formatDuration(elapsedMs)}
+        </span>
+      )}
+      <Button
+        type="button"
+        variant="ghost"
+        size="icon"
+        disabled={disabled}
+        className={cn("touch-none", { "text-destructive": isRecording })}
+        title="Hold to record a voice message"
+        onPointerDown={(e) => {
+          e.currentTarget.setPointerCapture(e.pointerId);
+          void startRecording();
+        }}
+        onPointerUp={stopRecording}
+        onPointerCancel={stopRecording}
+      >
+        <Mic className="h-5 w-5" />
+      </Button>
+    </div>
+  );
+}
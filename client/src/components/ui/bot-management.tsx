@@ -0,0 +1,186 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Bot, MAX_BOTS_PER_USER } from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Copy, KeyRound, Loader2, Trash2 } from "lucide-react";
+
+// The token is only returned once, when a bot is created or its token rotated
+type IssuedToken = { botId: number; username: string; token: string };
+
+export function BotManagement() {
+  const { isOwner } = useAuth();
+  const { toast } = useToast();
+  const [username, setUsername] = useState("");
+  const [avatarUrl, setAvatarUrl] = useState("");
+  const [issued, setIssued] = useState<IssuedToken | null>(null);
+
+  const { data: bots, isLoading } = useQuery<Bot[]>({
+    queryKey: ["/api/bots"],
+  });
+  // The owner's list includes everyone's bots, so for them the server decides
+  const atLimit = !isOwner && (bots?.length ?? 0) >= MAX_BOTS_PER_USER;
+
+  const createBotMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/bots", {
+        username: username.trim(),
+        avatarUrl: avatarUrl.trim() || undefined,
+      });
+      return (await res.json()) as Bot & { token: string };
+    },
+    onSuccess: (bot) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/bots"] });
+      setIssued({ botId: bot.id, username: bot.username, token: bot.token });
+      setUsername("");
+      setAvatarUrl("");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to create bot",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const rotateTokenMutation = useMutation({
+    mutationFn: async (bot: Bot) => {
+      const res = await apiRequest("POST", `/api/bots/${bot.id}/token`);
+      const { token } = (await res.json()) as { token: string };
+      return { botId: bot.id, username: bot.username, token };
+    },
+    onSuccess: (token) => {
+      setIssued(token);
+      toast({
+        title: "Token rotated",
+        description: `The previous token for ${token.username} no longer works.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to rotate token",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteBotMutation = useMutation({
+    mutationFn: async (botId: number) => {
+      await apiRequest("DELETE", `/api/bots/${botId}`);
+      return botId;
+    },
+    onSuccess: (botId) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/bots"] });
+      if (issued?.botId === botId) setIssued(null);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to delete bot",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const copyToken = async (token: string) => {
+    await navigator.clipboard.writeText(token);
+    toast({ title: "Copied", description: "Bot token copied to clipboard." });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <Label>Bots</Label>
+        <p className="text-sm text-muted-foreground">
+          Bots call the REST API with an <code>Authorization: Bearer &lt;token&gt;</code> header.
+          They can join rooms, read history and post like any other member.
+          You can have up to {MAX_BOTS_PER_USER} bots.
+        </p>
+      </div>
+
+      {issued && (
+        <div className="space-y-1 rounded-md border border-amber-300 bg-amber-50 p-2 text-sm text-amber-900">
+          <p>Copy the token for {issued.username} now; it will not be shown again.</p>
+          <div className="flex items-center gap-2">
+            <code className="flex-1 truncate rounded bg-background px-1 py-0.5 text-xs">
+              {issued.token}
+            </code>
+            <Button type="button" size="icon" variant="ghost" onClick={() => copyToken(issued.token)}>
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center">
+          <Loader2 className="h-4 w-4 animate-spin" />
+        </div>
+      ) : (
+        bots?.map((bot) => (
+          <div key={bot.id} className="flex items-center gap-2">
+            <Avatar className="h-6 w-6">
+              <AvatarImage src={bot.avatarUrl ?? undefined} />
+              <AvatarFallback>{bot.username[0].toUpperCase()}</AvatarFallback>
+            </Avatar>
+            <div className="flex-1 min-w-0 flex items-baseline gap-2">
+              <span className="text-sm font-medium truncate">{bot.username}</span>
+              {bot.suspended && (
+                <span className="text-xs text-destructive">Suspended</span>
+              )}
+            </div>
+            <Button
+              type="button"
+              size="icon"
+              variant="ghost"
+              onClick={() => rotateTokenMutation.mutate(bot)}
+              disabled={rotateTokenMutation.isPending}
+              title="Rotate token"
+            >
+              <KeyRound className="h-4 w-4" />
+            </Button>
+            <Button
+              type="button"
+              size="icon"
+              variant="ghost"
+              className="text-destructive hover:text-destructive"
+              onClick={() => deleteBotMutation.mutate(bot.id)}
+              disabled={deleteBotMutation.isPending}
+              title="Delete bot"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))
+      )}
+
+      <div className="flex gap-2">
+        <Input
+          placeholder="Bot username"
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+          maxLength={32}
+        />
+        <Input
+          placeholder="Avatar URL (optional)"
+          value={avatarUrl}
+          onChange={(e) => setAvatarUrl(e.target.value)}
+        />
+        <Button
+          type="button"
+          onClick={() => createBotMutation.mutate()}
+          disabled={createBotMutation.isPending || atLimit || username.trim().length < 3}
+        >
+          {createBotMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : "Create"}
+        </Button>
+      </div>
+    </div>
+  );
+}
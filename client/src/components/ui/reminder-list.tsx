@@ -0,0 +1,82 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { ReminderWithContext } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { remindersKey } from "@/components/chat/remind-me";
+import { Button } from "@/components/ui/button";
+import { format } from "date-fns";
+import { AlarmClock, Loader2, Trash2 } from "lucide-react";
+
+export function ReminderList() {
+  const { toast } = useToast();
+
+  const { data: reminders, isLoading } = useQuery<ReminderWithContext[]>({
+    queryKey: remindersKey,
+    // Delivered reminders drop off the list on their own
+    staleTime: 0,
+    refetchInterval: 60000,
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (reminderId: number) => {
+      await apiRequest("DELETE", `/api/reminders/${reminderId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: remindersKey });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to cancel reminder",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <h3 className="font-medium">Reminders</h3>
+        <p className="text-sm text-muted-foreground">
+          Set one with <code>/remind me in 2h …</code> or from a message's menu.
+          It arrives in the room as a message only you can see.
+        </p>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center">
+          <Loader2 className="h-4 w-4 animate-spin" />
+        </div>
+      ) : !reminders?.length ? (
+        <p className="text-sm text-muted-foreground">No upcoming reminders.</p>
+      ) : (
+        reminders.map((reminder) => (
+          <div key={reminder.id} className="rounded-md border p-2 flex gap-2">
+            <AlarmClock className="h-4 w-4 mt-0.5 shrink-0" />
+            <div className="flex-1 min-w-0 space-y-1">
+              <p className="text-sm whitespace-pre-wrap break-words">
+                {reminder.note ?? reminder.messagePreview ?? (
+                  <span className="italic text-muted-foreground">Message no longer available</span>
+                )}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {format(new Date(reminder.remindAt), "PPp")} in #{reminder.roomName}
+              </p>
+            </div>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="text-destructive hover:text-destructive"
+              onClick={() => cancelMutation.mutate(reminder.id)}
+              disabled={cancelMutation.isPending}
+              title="Cancel reminder"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
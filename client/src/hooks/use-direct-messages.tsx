@@ -0,0 +1,56 @@
+import { createContext, ReactNode, useContext } from "react";
+import { useMutation, UseMutationResult } from "@tanstack/react-query";
+import { Room, User } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+type DirectMessageContextType = {
+  startDirectMessageMutation: UseMutationResult<Room, Error, number[]>;
+};
+
+const DirectMessageContext = createContext<DirectMessageContextType | null>(null);
+
+// Shows the other participants' names, since a DM has no name of its own
+export function directRoomName(room: Room, currentUser: User | null) {
+  const others = room.participants?.filter((p) => p.id !== currentUser?.id) ?? [];
+  return others.length > 0 ? others.map((p) => p.username).join(", ") : room.name;
+}
+
+export function DirectMessageProvider({
+  children,
+  onOpen,
+}: {
+  children: ReactNode;
+  onOpen: (room: Room) => void;
+}) {
+  const { toast } = useToast();
+
+  const startDirectMessageMutation = useMutation({
+    mutationFn: async (userIds: number[]) => {
+      const res = await apiRequest("POST", "/api/direct-messages", { userIds });
+      return (await res.json()) as Room;
+    },
+    onSuccess: (room) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/rooms"] });
+      onOpen(room);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to open conversation",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <DirectMessageContext.Provider value={{ startDirectMessageMutation }}>
+      {children}
+    </DirectMessageContext.Provider>
+  );
+}
+
+export function useDirectMessages() {
+  // Components rendered outside the chat page simply get no DM actions
+  return useContext(DirectMessageContext);
+}
@@ -0,0 +1,9 @@
+import { useQuery } from "@tanstack/react-query";
+import { DEFAULT_MESSAGE_LENGTH, MAX_MESSAGE_LENGTH_CEILING, MessageLimits } from "@shared/schema";
+
+// The server's limits can be configured, so the built-in ones only stand in
+// until they have loaded
+export function useMessageLimits(): MessageLimits {
+  const { data } = useQuery<MessageLimits>({ queryKey: ["/api/message-limits"] });
+  return data ?? { defaultLength: DEFAULT_MESSAGE_LENGTH, maxLength: MAX_MESSAGE_LENGTH_CEILING };
+}
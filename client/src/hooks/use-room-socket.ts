@@ -0,0 +1,265 @@
+import { useEffect } from "react";
+import type { InfiniteData } from "@tanstack/react-query";
+import { Message, MessageWithUser, PollSummary, ReactionSummary, ReadReceipt, User } from "@shared/schema";
+import type { RoomEvent } from "@shared/events";
+import { queryClient } from "@/lib/queryClient";
+
+const MAX_RECONNECT_DELAY = 30000;
+
+// Pages are cached newest first; each page is in chronological order
+type MessagePages = InfiniteData<MessageWithUser[], string | null>;
+
+export type ThreadData = { parent: MessageWithUser; replies: MessageWithUser[] };
+
+function messagesKey(roomId: number) {
+  return [`/api/rooms/${roomId}/messages`];
+}
+
+export function threadKey(parentId: number) {
+  return [`/api/messages/${parentId}/thread`];
+}
+
+export function upsertMessage(roomId: number, message: Partial<MessageWithUser> & { id: number }) {
+  queryClient.setQueryData<MessagePages>(messagesKey(roomId), (old) => {
+    if (!old || old.pages.length === 0) return old;
+    const pages = old.pages.map((page) => {
+      const index = page.findIndex((m) => m.id === message.id);
+      if (index === -1) return page;
+      const next = [...page];
+      next[index] = { ...page[index], ...message };
+      return next;
+    });
+    const found = pages.some((page, i) => page !== old.pages[i]);
+    // Partial updates for messages we never loaded are ignored
+    if (!found && message.user) {
+      pages[0] = [...pages[0], message as MessageWithUser];
+    }
+    return { ...old, pages };
+  });
+}
+
+export function upsertThreadReply(parentId: number, reply: Partial<MessageWithUser> & { id: number }) {
+  queryClient.setQueryData<ThreadData>(threadKey(parentId), (old) => {
+    if (!old) return old;
+    const exists = old.replies.some((r) => r.id === reply.id);
+    if (!exists && !reply.user) return old;
+    return {
+      ...old,
+      replies: exists
+        ? old.replies.map((r) => (r.id === reply.id ? { ...r, ...reply } : r))
+        : [...old.replies, reply as MessageWithUser],
+    };
+  });
+}
+
+export type Tombstone = Pick<Message, "deletedAt" | "deletedById" | "deleteReason">;
+
+// Deleted messages stay in place as tombstones so threads remain intact
+export function markDeleted(
+  roomId: number,
+  message: { id: number; parentId?: number | null },
+  tombstone: Tombstone
+) {
+  if (message.parentId) {
+    upsertThreadReply(message.parentId, { id: message.id, ...tombstone });
+    // The parent's reply count and avatars come from the server
+    queryClient.invalidateQueries({ queryKey: messagesKey(roomId) });
+    return;
+  }
+  upsertMessage(roomId, { id: message.id, ...tombstone });
+  queryClient.setQueryData<ThreadData>(threadKey(message.id), (old) =>
+    old && { ...old, parent: { ...old.parent, ...tombstone } }
+  );
+}
+
+// Expired messages are gone for good, unlike deleted ones
+function removeExpiredMessages(roomId: number, messageIds: number[]) {
+  const expired = new Set(messageIds);
+  queryClient.setQueryData<MessagePages>(messagesKey(roomId), (old) =>
+    old && { ...old, pages: old.pages.map((page) => page.filter((m) => !expired.has(m.id))) }
+  );
+  queryClient.setQueriesData<ThreadData>(
+    { predicate: (query) => String(query.queryKey[0]).endsWith("/thread") },
+    (old) => old && { ...old, replies: old.replies.filter((r) => !expired.has(r.id)) }
+  );
+  messageIds.forEach((id) => queryClient.removeQueries({ queryKey: threadKey(id) }));
+}
+
+function findCachedMessage(roomId: number, messageId: number, parentId: number | null) {
+  if (parentId) {
+    return queryClient
+      .getQueryData<ThreadData>(threadKey(parentId))
+      ?.replies.find((r) => r.id === messageId);
+  }
+  const cached = queryClient
+    .getQueryData<MessagePages>(messagesKey(roomId))
+    ?.pages.flat()
+    .find((m) => m.id === messageId);
+  // A thread parent may only be loaded in its open thread panel
+  return cached ?? queryClient.getQueryData<ThreadData>(threadKey(messageId))?.parent;
+}
+
+export function setReactions(
+  roomId: number,
+  message: { id: number; parentId: number | null },
+  reactions: ReactionSummary[]
+) {
+  if (message.parentId) {
+    upsertThreadReply(message.parentId, { id: message.id, reactions });
+    return;
+  }
+  upsertMessage(roomId, { id: message.id, reactions });
+  queryClient.setQueryData<ThreadData>(threadKey(message.id), (old) =>
+    old && { ...old, parent: { ...old.parent, reactions } }
+  );
+}
+
+function applyReactionChange(event: Extract<RoomEvent, { type: "reaction:changed" }>) {
+  const message = findCachedMessage(event.roomId, event.messageId, event.parentId);
+  if (!message) return;
+
+  const isMe = event.userId === queryClient.getQueryData<User>(["/api/user"])?.id;
+  const reactions = message.reactions ?? [];
+  const existing = reactions.find((r) => r.emoji === event.emoji);
+  // Our own changes may already be applied from the request's response
+  if (isMe && (existing?.reactedByMe ?? false) === event.added) return;
+
+  let next: ReactionSummary[];
+  if (event.added) {
+    next = existing
+      ? reactions.map((r) =>
+          r === existing ? { ...r, count: r.count + 1, reactedByMe: r.reactedByMe || isMe } : r
+        )
+      : [...reactions, { emoji: event.emoji, count: 1, reactedByMe: isMe }];
+  } else {
+    if (!existing) return;
+    next = reactions
+      .map((r) =>
+        r === existing ? { ...r, count: r.count - 1, reactedByMe: isMe ? false : r.reactedByMe } : r
+      )
+      .filter((r) => r.count > 0);
+  }
+  setReactions(event.roomId, { id: event.messageId, parentId: event.parentId }, next);
+}
+
+export function setPoll(
+  roomId: number,
+  message: { id: number; parentId: number | null },
+  poll: PollSummary
+) {
+  if (message.parentId) {
+    upsertThreadReply(message.parentId, { id: message.id, poll });
+    return;
+  }
+  upsertMessage(roomId, { id: message.id, poll });
+  queryClient.setQueryData<ThreadData>(threadKey(message.id), (old) =>
+    old && { ...old, parent: { ...old.parent, poll } }
+  );
+}
+
+function applyPollUpdate(event: Extract<RoomEvent, { type: "poll:updated" }>) {
+  const message = findCachedMessage(event.roomId, event.messageId, event.parentId);
+  if (!message) return;
+  // Someone else voted, so our own picks are unchanged
+  setPoll(event.roomId, { id: event.messageId, parentId: event.parentId }, {
+    ...event.poll,
+    myVotes: message.poll?.myVotes ?? [],
+  });
+}
+
+export function readReceiptsKey(roomId: number) {
+  return [`/api/rooms/${roomId}/read-receipts`];
+}
+
+function applyReadReceipt(roomId: number, receipt: ReadReceipt) {
+  // The server never lists our own pointer
+  if (receipt.user.id === queryClient.getQueryData<User>(["/api/user"])?.id) return;
+  queryClient.setQueryData<ReadReceipt[]>(readReceiptsKey(roomId), (old) =>
+    old && [...old.filter((r) => r.user.id !== receipt.user.id), receipt]
+  );
+}
+
+function handleRoomEvent(event: RoomEvent) {
+  switch (event.type) {
+    case "message:created":
+    case "message:updated":
+      if (event.message.parentId) {
+        upsertThreadReply(event.message.parentId, event.message);
+      } else {
+        upsertMessage(event.roomId, event.message);
+      }
+      break;
+    case "message:deleted":
+      markDeleted(event.roomId, { id: event.messageId, parentId: event.parentId }, event.tombstone);
+      break;
+    case "messages:expired":
+      removeExpiredMessages(event.roomId, event.messageIds);
+      break;
+    case "thread:replied":
+      upsertThreadReply(event.parentId, event.message);
+      upsertMessage(event.roomId, { id: event.parentId, thread: event.thread });
+      break;
+    case "members:changed":
+      queryClient.invalidateQueries({ queryKey: [`/api/rooms/${event.roomId}/users`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/rooms"] });
+      break;
+    case "room:updated":
+      queryClient.invalidateQueries({ queryKey: ["/api/rooms"] });
+      break;
+    case "reaction:changed":
+      applyReactionChange(event);
+      break;
+    case "read:updated":
+      applyReadReceipt(event.roomId, event.receipt);
+      break;
+    case "poll:updated":
+      applyPollUpdate(event);
+      break;
+  }
+}
+
+export function useRoomSocket(roomId: number) {
+  useEffect(() => {
+    let socket: WebSocket | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let attempts = 0;
+    let closed = false;
+
+    const connect = () => {
+      const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+      socket = new WebSocket(`${protocol}//${window.location.host}/ws`);
+
+      socket.onopen = () => {
+        socket?.send(JSON.stringify({ type: "subscribe", roomId }));
+        // Catch up on anything that happened while we were disconnected
+        if (attempts > 0) {
+          queryClient.invalidateQueries({ queryKey: messagesKey(roomId) });
+        }
+        attempts = 0;
+      };
+
+      socket.onmessage = (event) => {
+        try {
+          handleRoomEvent(JSON.parse(event.data) as RoomEvent);
+        } catch (error) {
+          console.error("Failed to handle room event:", error);
+        }
+      };
+
+      socket.onclose = () => {
+        if (closed) return;
+        const delay = Math.min(1000 * 2 ** attempts, MAX_RECONNECT_DELAY);
+        attempts += 1;
+        reconnectTimer = setTimeout(connect, delay);
+      };
+    };
+
+    connect();
+
+    return () => {
+      closed = true;
+      clearTimeout(reconnectTimer);
+      socket?.close();
+    };
+  }, [roomId]);
+}
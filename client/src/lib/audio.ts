@@ -0,0 +1,40 @@
+import { MediaMetadata, WAVEFORM_BARS } from "@shared/schema";
+
+// Decodes the clip to measure its length and sample a waveform for the player.
+// Browsers that cannot decode the format still get a playable message, just
+// without the metadata.
+export async function analyzeAudio(file: Blob): Promise<MediaMetadata> {
+  const context = new AudioContext();
+  try {
+    const buffer = await context.decodeAudioData(await file.arrayBuffer());
+    const samples = buffer.getChannelData(0);
+    const samplesPerBar = Math.max(1, Math.floor(samples.length / WAVEFORM_BARS));
+    const peaks: number[] = [];
+    for (let bar = 0; bar < WAVEFORM_BARS; bar++) {
+      let peak = 0;
+      const end = Math.min(samples.length, (bar + 1) * samplesPerBar);
+      for (let i = bar * samplesPerBar; i < end; i++) {
+        peak = Math.max(peak, Math.abs(samples[i]));
+      }
+      peaks.push(peak);
+    }
+    // Scale so quiet recordings still show some shape
+    const loudest = Math.max(...peaks) || 1;
+    return {
+      durationMs: Math.round(buffer.duration * 1000),
+      waveform: peaks.map((peak) => Math.round((peak / loudest) * 100) / 100),
+    };
+  } catch (error) {
+    console.error("Failed to analyze audio:", error);
+    return {};
+  } finally {
+    void context.close();
+  }
+}
+
+export function formatDuration(ms: number) {
+  const totalSeconds = Math.round(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+}
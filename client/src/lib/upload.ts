@@ -0,0 +1,38 @@
+export type UploadedFile = {
+  url: string;
+  fileName: string;
+  fileSize: number;
+  mimeType: string;
+};
+
+// fetch cannot report upload progress, so this goes through XMLHttpRequest.
+// `onProgress` receives a percentage.
+export function uploadFile(
+  roomId: number,
+  file: File,
+  onProgress: (percent: number) => void
+): Promise<UploadedFile> {
+  return new Promise((resolve, reject) => {
+    const formData = new FormData();
+    // Ahead of the file, so the server can apply the room's upload rules
+    formData.append("roomId", roomId.toString());
+    formData.append("file", file);
+
+    const xhr = new XMLHttpRequest();
+    xhr.open("POST", "/api/upload");
+    xhr.withCredentials = true;
+    xhr.responseType = "json";
+    xhr.upload.onprogress = (e) => {
+      if (e.lengthComputable) onProgress(Math.round((e.loaded / e.total) * 100));
+    };
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300 && xhr.response?.url) {
+        resolve(xhr.response as UploadedFile);
+      } else {
+        reject(new Error(xhr.response?.error ?? `Upload of ${file.name} failed`));
+      }
+    };
+    xhr.onerror = () => reject(new Error(`Upload of ${file.name} failed`));
+    xhr.send(formData);
+  });
+}
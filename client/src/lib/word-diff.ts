@@ -0,0 +1,55 @@
+export type DiffPart = {
+  value: string;
+  type: "same" | "added" | "removed";
+};
+
+// Splits on whitespace but keeps it, so the parts join back into the text
+function tokenize(text: string) {
+  return text.split(/(\s+)/).filter((token) => token.length > 0);
+}
+
+// Word-level diff using a longest common subsequence table. Messages are
+// short, so the quadratic table is fine here.
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () =>
+    new Array(b.length + 1).fill(0)
+  );
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j]
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (value: string, type: DiffPart["type"]) => {
+    const last = parts[parts.length - 1];
+    if (last && last.type === type) {
+      last.value += value;
+    } else {
+      parts.push({ value, type });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push(a[i], "same");
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push(a[i++], "removed");
+    } else {
+      push(b[j++], "added");
+    }
+  }
+  while (i < a.length) push(a[i++], "removed");
+  while (j < b.length) push(b[j++], "added");
+
+  return parts;
+}
@@ -5,12 +5,15 @@ import { Input } from "@/components/ui/input";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { insertRoomSchema, type Room } from "@shared/schema";
+import { insertRoomSchema, type Draft, type MessageSearchResult, type Room, type User } from "@shared/schema";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { Label } from "@/components/ui/label";
 import ChatRoom from "@/components/chat/chat-room";
-import { useState, useEffect } from "react";
-import { Plus, Loader2, Settings, LogOut, PanelLeftClose, PanelLeft, Users, Lock } from "lucide-react";
+import { NewDirectMessageDialog } from "@/components/chat/new-direct-message-dialog";
+import { SearchDialog } from "@/components/chat/search-dialog";
+import { DirectMessageProvider, directRoomName } from "@/hooks/use-direct-messages";
+import { useState, useEffect, useMemo } from "react";
+import { Plus, Loader2, Settings, LogOut, PanelLeftClose, PanelLeft, Users, Lock, MessageSquare, Search, Pencil } from "lucide-react";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -30,6 +33,9 @@ export default function ChatPage() {
   const [selectedRoom, setSelectedRoom] = useState<Room | null>(null);
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [isJoinDialogOpen, setIsJoinDialogOpen] = useState(false);
+  const [isDirectDialogOpen, setIsDirectDialogOpen] = useState(false);
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [focusMessage, setFocusMessage] = useState<MessageSearchResult | null>(null);
   const [isSidebarCollapsed, setIsSidebarCollapsed] = useState(false);
   const [roomCode, setRoomCode] = useState("");
   const [clearedMentions, setClearedMentions] = useState<number[]>([]);
@@ -46,6 +52,18 @@ export default function ChatPage() {
     }
   });
 
+  const channelRooms = rooms?.filter(room => !room.isDirect);
+  const directRooms = rooms?.filter(room => room.isDirect);
+
+  // Anyone we share a room with can be messaged directly
+  const knownUsers = useMemo(() => {
+    const byId = new Map<number, User>();
+    rooms?.forEach(room => room.participants?.forEach(p => {
+      if (p.id !== user?.id) byId.set(p.id, p);
+    }));
+    return Array.from(byId.values()).sort((a, b) => a.username.localeCompare(b.username));
+  }, [rooms, user?.id]);
+
   const { data: unreadMentions, refetch: refetchUnreadMentions } = useQuery<{ roomId: number; count: number }[]>({
     queryKey: ["/api/mentions/unread"],
     refetchInterval: 2000,
@@ -54,6 +72,12 @@ export default function ChatPage() {
     gcTime: 0,
   });
 
+  const { data: drafts } = useQuery<Draft[]>({
+    queryKey: ["/api/drafts"],
+    refetchOnWindowFocus: true,
+    staleTime: 0,
+  });
+
   const clearMentionsMutation = useMutation({
     mutationFn: async (roomId: number) => {
       try {
@@ -97,6 +121,15 @@ export default function ChatPage() {
     }
   };
 
+  const handleSearchResult = (result: MessageSearchResult) => {
+    const room = rooms?.find(r => r.id === result.roomId);
+    if (!room) return;
+    if (selectedRoom?.id !== room.id) {
+      handleRoomSelect(room);
+    }
+    setFocusMessage(result);
+  };
+
   const createRoomMutation = useMutation({
     mutationFn: async (data: { name: string; isPublic: boolean }) => {
       const res = await apiRequest("POST", "/api/rooms", data);
@@ -169,6 +202,17 @@ export default function ChatPage() {
     await leaveRoomMutation.mutate(roomId);
   };
 
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "k" && (e.metaKey || e.ctrlKey)) {
+        e.preventDefault();
+        setIsSearchOpen((open) => !open);
+      }
+    };
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
   useEffect(() => {
     if (!user) return;
 
@@ -218,201 +262,293 @@ export default function ChatPage() {
     );
   }
 
-  return (
-    <div className="flex h-screen">
+  const hasUnread = (room: Room) =>
+    selectedRoom?.id !== room.id && (room.unreadCount ?? 0) > 0;
+
+  const renderUnreadCount = (room: Room) => hasUnread(room) && (
+    <span className="ml-auto text-xs font-semibold rounded-full bg-primary text-primary-foreground px-1.5 min-w-[1.25rem] text-center">
+      {room.unreadCount! > 99 ? "99+" : room.unreadCount}
+    </span>
+  );
+
+  // The open room's draft is already in its composer
+  const renderDraftIndicator = (roomId: number) =>
+    selectedRoom?.id !== roomId && drafts?.some(d => d.roomId === roomId) && (
+      <span title="Draft">
+        <Pencil className="h-3 w-3 flex-shrink-0 text-muted-foreground" />
+      </span>
+    );
+
+  const renderUnreadDot = (roomId: number) => {
+    const unreadMention = unreadMentions?.find(m => m.roomId === roomId);
+    const hasUnreadMentions = unreadMention &&
+      unreadMention.count > 0 &&
+      !clearedMentions.includes(roomId);
+    return hasUnreadMentions && (
       <div
-        className={`
-          ${isSidebarCollapsed ? "w-0" : "w-64"} 
-          border-r bg-muted/50 flex flex-col h-full overflow-hidden
-          transition-[width] duration-200 ease-in-out
-        `}
-      >
-        <div className="p-4 flex flex-col flex-grow min-w-[16rem]">
-          <div className="flex items-center justify-between mb-4">
-            <h2 className="font-semibold">Chat Rooms</h2>
-            <div className="flex gap-2">
-              <DropdownMenu>
-                <DropdownMenuTrigger asChild>
-                  <Button size="icon" variant="ghost">
-                    <Plus className="h-4 w-4" />
-                  </Button>
-                </DropdownMenuTrigger>
-                <DropdownMenuContent align="end">
-                  <DropdownMenuItem onSelect={() => setIsCreateDialogOpen(true)}>
-                    <Plus className="mr-2 h-4 w-4" />
-                    Create Room
-                  </DropdownMenuItem>
-                  <DropdownMenuItem onSelect={() => setIsJoinDialogOpen(true)}>
-                    <Users className="mr-2 h-4 w-4" />
-                    Join Room
-                  </DropdownMenuItem>
-                </DropdownMenuContent>
-              </DropdownMenu>
+        className="ml-auto h-2 w-2 rounded-full bg-blue-500 animate-pulse"
+        style={{ boxShadow: '0 0 0 2px var(--background)' }}
+      />
+    );
+  };
+
+  return (
+    <DirectMessageProvider onOpen={handleRoomSelect}>
+      <div className="flex h-screen">
+        <div
+          className={`
+            ${isSidebarCollapsed ? "w-0" : "w-64"} 
+            border-r bg-muted/50 flex flex-col h-full overflow-hidden
+            transition-[width] duration-200 ease-in-out
+          `}
+        >
+          <div className="p-4 flex flex-col flex-grow min-w-[16rem]">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="font-semibold">Chat Rooms</h2>
+              <div className="flex gap-2">
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  onClick={() => setIsSearchOpen(true)}
+                  title="Search messages (Ctrl+K)"
+                >
+                  <Search className="h-4 w-4" />
+                </Button>
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button size="icon" variant="ghost">
+                      <Plus className="h-4 w-4" />
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuItem onSelect={() => setIsCreateDialogOpen(true)}>
+                      <Plus className="mr-2 h-4 w-4" />
+                      Create Room
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onSelect={() => setIsJoinDialogOpen(true)}>
+                      <Users className="mr-2 h-4 w-4" />
+                      Join Room
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              </div>
             </div>
-          </div>
-          <div className="space-y-2 flex-1 overflow-auto">
-            {rooms?.map((room) => {
-              const unreadMention = unreadMentions?.find(m => m.roomId === room.id);
-              const hasUnreadMentions = unreadMention && 
-                unreadMention.count > 0 && 
-                !clearedMentions.includes(room.id);
-              return (
+            <div className="space-y-2 flex-1 overflow-auto">
+              {channelRooms?.map((room) => {
+                return (
+                  <Button
+                    key={room.id}
+                    variant={selectedRoom?.id === room.id ? "secondary" : "ghost"}
+                    className="w-full justify-start relative gap-2 px-3 min-h-[2.5rem]"
+                    onClick={() => handleRoomSelect(room)}
+                  >
+                    <div className="flex items-center gap-2 w-full">
+                      {!room.isPublic && <Lock className="h-4 w-4 flex-shrink-0" />}
+                      <span className={`truncate ${hasUnread(room) ? "font-bold" : ""}`}>
+                        {room.name}
+                        {!room.isPublic && room.inviteCode && (
+                          <span className="ml-2 text-xs text-muted-foreground">
+                            ({room.inviteCode})
+                          </span>
+                        )}
+                      </span>
+                      {renderDraftIndicator(room.id)}
+                      {renderUnreadCount(room)}
+                      {renderUnreadDot(room.id)}
+                    </div>
+                  </Button>
+                );
+              })}
+              <div className="flex items-center justify-between pt-4">
+                <h2 className="font-semibold">Direct Messages</h2>
                 <Button
-                  key={room.id}
-                  variant={selectedRoom?.id === room.id ? "secondary" : "ghost"}
-                  className="w-full justify-start relative gap-2 px-3 min-h-[2.5rem]"
-                  onClick={() => handleRoomSelect(room)}
+                  size="icon"
+                  variant="ghost"
+                  onClick={() => setIsDirectDialogOpen(true)}
+                  title="New message"
                 >
-                  <div className="flex items-center gap-2 w-full">
-                    {!room.isPublic && <Lock className="h-4 w-4 flex-shrink-0" />}
-                    <span className="truncate">
-                      {room.name}
-                      {!room.isPublic && room.inviteCode && (
-                        <span className="ml-2 text-xs text-muted-foreground">
-                          ({room.inviteCode})
-                        </span>
-                      )}
-                    </span>
-                    {hasUnreadMentions && (
-                      <div 
-                        className="ml-auto h-2 w-2 rounded-full bg-blue-500 animate-pulse"
-                        style={{ boxShadow: '0 0 0 2px var(--background)' }}
-                      />
-                    )}
-                  </div>
+                  <Plus className="h-4 w-4" />
                 </Button>
-              );
-            })}
+              </div>
+              {directRooms?.length === 0 && (
+                <div className="text-sm text-muted-foreground px-3">
+                  No conversations yet
+                </div>
+              )}
+              {directRooms?.map((room) => {
+                const others = room.participants?.filter(p => p.id !== user?.id) ?? [];
+                return (
+                  <Button
+                    key={room.id}
+                    variant={selectedRoom?.id === room.id ? "secondary" : "ghost"}
+                    className="w-full justify-start relative gap-2 px-3 min-h-[2.5rem]"
+                    onClick={() => handleRoomSelect(room)}
+                  >
+                    <div className="flex items-center gap-2 w-full">
+                      {others.length === 1 ? (
+                        <Avatar className="h-5 w-5 flex-shrink-0">
+                          <AvatarImage src={others[0].avatarUrl ?? undefined} />
+                          <AvatarFallback className="text-xs">{others[0].username[0].toUpperCase()}</AvatarFallback>
+                        </Avatar>
+                      ) : (
+                        <MessageSquare className="h-4 w-4 flex-shrink-0" />
+                      )}
+                      <span className={`truncate ${hasUnread(room) ? "font-bold" : ""}`}>
+                        {directRoomName(room, user)}
+                      </span>
+                      {renderDraftIndicator(room.id)}
+                      {renderUnreadCount(room)}
+                      {renderUnreadDot(room.id)}
+                    </div>
+                  </Button>
+                );
+              })}
+            </div>
           </div>
-        </div>
 
-        <div className="border-t p-4 mt-auto space-y-4 bg-background/50 min-w-[16rem]">
-          <div className="flex items-center justify-between p-2 bg-secondary/50 rounded-lg">
-            <div className="flex items-center gap-2">
-              <Avatar className="h-8 w-8">
-                <AvatarImage src={user?.avatarUrl ?? undefined} />
-                <AvatarFallback>{user?.username?.[0].toUpperCase()}</AvatarFallback>
-              </Avatar>
-              <span className="font-medium text-sm">{user?.username}</span>
+          <div className="border-t p-4 mt-auto space-y-4 bg-background/50 min-w-[16rem]">
+            <div className="flex items-center justify-between p-2 bg-secondary/50 rounded-lg">
+              <div className="flex items-center gap-2">
+                <Avatar className="h-8 w-8">
+                  <AvatarImage src={user?.avatarUrl ?? undefined} />
+                  <AvatarFallback>{user?.username?.[0].toUpperCase()}</AvatarFallback>
+                </Avatar>
+                <span className="font-medium text-sm">{user?.username}</span>
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                className="flex-1 transition-transform hover:scale-105 hover:text-red-500 hover:border-red-500"
+                onClick={() => logoutMutation.mutate()}
+                disabled={logoutMutation.isPending}
+              >
+                {logoutMutation.isPending ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <LogOut className="mr-2 h-4 w-4" />
+                )}
+                Logout
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => window.location.href = '/settings'}
+                className="flex-1 transition-transform hover:scale-105 hover:text-blue-500 hover:border-blue-500"
+              >
+                <Settings className="mr-2 h-4 w-4" />
+                Settings
+              </Button>
             </div>
-          </div>
-          <div className="flex gap-2">
-            <Button
-              variant="outline"
-              className="flex-1 transition-transform hover:scale-105 hover:text-red-500 hover:border-red-500"
-              onClick={() => logoutMutation.mutate()}
-              disabled={logoutMutation.isPending}
-            >
-              {logoutMutation.isPending ? (
-                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-              ) : (
-                <LogOut className="mr-2 h-4 w-4" />
-              )}
-              Logout
-            </Button>
-            <Button
-              variant="outline"
-              onClick={() => window.location.href = '/settings'}
-              className="flex-1 transition-transform hover:scale-105 hover:text-blue-500 hover:border-blue-500"
-            >
-              <Settings className="mr-2 h-4 w-4" />
-              Settings
-            </Button>
           </div>
         </div>
-      </div>
-      <div className="flex-1">
-        {selectedRoom ? (
-          <ChatRoom
-            room={selectedRoom}
-            onToggleSidebar={() => setIsSidebarCollapsed(!isSidebarCollapsed)}
-            onLeave={handleLeaveRoom}
-          />
-        ) : (
-          <div className="flex items-center justify-center h-full text-muted-foreground">
-            Select a room to start chatting
-          </div>
-        )}
-      </div>
-
-      <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
-        <DialogContent>
-          <DialogHeader>
-            <DialogTitle>Create Room</DialogTitle>
-          </DialogHeader>
-          <form
-            onSubmit={form.handleSubmit((data) =>
-              createRoomMutation.mutate(data)
-            )}
-            className="space-y-4"
-          >
-            <div className="space-y-2">
-              <Label htmlFor="name">Room Name</Label>
-              <Input id="name" {...form.register("name")} />
+        <div className="flex-1">
+          {selectedRoom ? (
+            <ChatRoom
+              room={selectedRoom}
+              onToggleSidebar={() => setIsSidebarCollapsed(!isSidebarCollapsed)}
+              onLeave={handleLeaveRoom}
+              focusMessage={focusMessage?.roomId === selectedRoom.id ? focusMessage : null}
+              onFocusHandled={() => setFocusMessage(null)}
+            />
+          ) : (
+            <div className="flex items-center justify-center h-full text-muted-foreground">
+              Select a room to start chatting
             </div>
-            <div className="flex items-center justify-between">
-              <div className="space-y-0.5">
-                <Label htmlFor="isPublic">Room Visibility</Label>
-                <div className="text-sm text-muted-foreground">
-                  Make this room {form.watch("isPublic") ? "public" : "private"}
+          )}
+        </div>
+
+        <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Create Room</DialogTitle>
+            </DialogHeader>
+            <form
+              onSubmit={form.handleSubmit((data) =>
+                createRoomMutation.mutate(data)
+              )}
+              className="space-y-4"
+            >
+              <div className="space-y-2">
+                <Label htmlFor="name">Room Name</Label>
+                <Input id="name" {...form.register("name")} />
+              </div>
+              <div className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <Label htmlFor="isPublic">Room Visibility</Label>
+                  <div className="text-sm text-muted-foreground">
+                    Make this room {form.watch("isPublic") ? "public" : "private"}
+                  </div>
                 </div>
+                <Switch
+                  id="isPublic"
+                  checked={form.watch("isPublic")}
+                  onCheckedChange={(checked) => form.setValue("isPublic", checked)}
+                />
               </div>
-              <Switch
-                id="isPublic"
-                checked={form.watch("isPublic")}
-                onCheckedChange={(checked) => form.setValue("isPublic", checked)}
-              />
-            </div>
-            <Button
-              type="submit"
-              className="w-full"
-              disabled={createRoomMutation.isPending}
-            >
-              {createRoomMutation.isPending && (
-                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-              )}
-              Create Room
-            </Button>
-          </form>
-        </DialogContent>
-      </Dialog>
-
-      <Dialog open={isJoinDialogOpen} onOpenChange={setIsJoinDialogOpen}>
-        <DialogContent>
-          <DialogHeader>
-            <DialogTitle>Join Room</DialogTitle>
-          </DialogHeader>
-          <form
-            onSubmit={(e) => {
-              e.preventDefault();
-              if (roomCode) {
-                joinRoomMutation.mutate(roomCode);
-              }
-            }}
-            className="space-y-4"
-          >
-            <div className="space-y-2">
-              <Label htmlFor="roomCode">Room Code</Label>
-              <Input
-                id="roomCode"
-                value={roomCode}
-                onChange={(e) => setRoomCode(e.target.value)}
-                placeholder="Enter room code"
-              />
-            </div>
-            <Button
-              type="submit"
-              className="w-full"
-              disabled={joinRoomMutation.isPending || !roomCode}
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={createRoomMutation.isPending}
+              >
+                {createRoomMutation.isPending && (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                )}
+                Create Room
+              </Button>
+            </form>
+          </DialogContent>
+        </Dialog>
+
+        <Dialog open={isJoinDialogOpen} onOpenChange={setIsJoinDialogOpen}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Join Room</DialogTitle>
+            </DialogHeader>
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                if (roomCode) {
+                  joinRoomMutation.mutate(roomCode);
+                }
+              }}
+              className="space-y-4"
             >
-              {joinRoomMutation.isPending && (
-                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-              )}
-              Join Room
-            </Button>
-          </form>
-        </DialogContent>
-      </Dialog>
-    </div>
+              <div className="space-y-2">
+                <Label htmlFor="roomCode">Room Code</Label>
+                <Input
+                  id="roomCode"
+                  value={roomCode}
+                  onChange={(e) => setRoomCode(e.target.value)}
+                  placeholder="Enter room code"
+                />
+              </div>
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={joinRoomMutation.isPending || !roomCode}
+              >
+                {joinRoomMutation.isPending && (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                )}
+                Join Room
+              </Button>
+            </form>
+          </DialogContent>
+        </Dialog>
+
+        <SearchDialog
+          open={isSearchOpen}
+          onOpenChange={setIsSearchOpen}
+          rooms={rooms ?? []}
+          onSelectResult={handleSearchResult}
+        />
+
+        <NewDirectMessageDialog
+          open={isDirectDialogOpen}
+          onOpenChange={setIsDirectDialogOpen}
+          users={knownUsers}
+        />
+      </div>
+    </DirectMessageProvider>
   );
 }
\ No newline at end of file
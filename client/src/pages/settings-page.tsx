@@ -5,6 +5,8 @@ import { Card } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
 import { Form, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { UserManagement } from "@/components/ui/user-management";
+import { BotManagement } from "@/components/ui/bot-management";
+import { ReminderList } from "@/components/ui/reminder-list";
 import { ColorPicker } from "@/components/ui/color-picker";
 import { Switch } from "@/components/ui/switch";
 import {
@@ -52,6 +54,7 @@ export default function SettingsPage() {
       currentPassword: "",
       newPassword: "",
       appearOffline: user?.appearOffline || false,
+      sendReadReceipts: user?.sendReadReceipts ?? true,
     },
   });
 
@@ -64,6 +67,7 @@ export default function SettingsPage() {
         currentPassword: "",
         newPassword: "",
         appearOffline: user.appearOffline,
+        sendReadReceipts: user.sendReadReceipts,
       });
     }
   }, [user, form]);
@@ -127,6 +131,7 @@ export default function SettingsPage() {
           currentPassword: "",
           newPassword: "",
           appearOffline: updatedUser.appearOffline,
+          sendReadReceipts: updatedUser.sendReadReceipts,
         });
       }
     },
@@ -165,6 +170,19 @@ export default function SettingsPage() {
     }
   };
 
+  const handleSendReadReceiptsChange = async (checked: boolean) => {
+    form.setValue("sendReadReceipts", checked);
+
+    try {
+      await updateProfileMutation.mutateAsync({
+        sendReadReceipts: checked
+      });
+    } catch (error) {
+      // The mutation's own error toast covers the failure
+      form.setValue("sendReadReceipts", !checked);
+    }
+  };
+
   const deleteAccountMutation = useMutation({
     mutationFn: async () => {
       await apiRequest("DELETE", "/api/user");
@@ -201,6 +219,8 @@ export default function SettingsPage() {
             <TabsList className="w-full">
               <TabsTrigger value="profile" className="flex-1">Profile</TabsTrigger>
               <TabsTrigger value="appearance" className="flex-1">Appearance</TabsTrigger>
+              <TabsTrigger value="reminders" className="flex-1">Reminders</TabsTrigger>
+              <TabsTrigger value="bots" className="flex-1">Bots</TabsTrigger>
               {isAdmin && <TabsTrigger value="admin" className="flex-1">Admin</TabsTrigger>}
             </TabsList>
 
@@ -223,6 +243,20 @@ export default function SettingsPage() {
                     </div>
                   )}
 
+                  <div className="flex items-center justify-between p-4 bg-secondary/20 rounded-lg">
+                    <div className="space-y-0.5">
+                      <Label htmlFor="sendReadReceipts">Send Read Receipts</Label>
+                      <p className="text-sm text-muted-foreground">
+                        Let others see when you have read their messages
+                      </p>
+                    </div>
+                    <Switch
+                      id="sendReadReceipts"
+                      checked={form.watch("sendReadReceipts")}
+                      onCheckedChange={handleSendReadReceiptsChange}
+                    />
+                  </div>
+
                   <div className="flex flex-col items-center space-y-4">
                     <Avatar className="h-24 w-24">
                       <AvatarImage src={form.watch("avatarUrl")} />
@@ -425,6 +459,14 @@ export default function SettingsPage() {
               </div>
             </TabsContent>
 
+            <TabsContent value="reminders" className="p-6">
+              <ReminderList />
+            </TabsContent>
+
+            <TabsContent value="bots" className="p-6">
+              <BotManagement />
+            </TabsContent>
+
             {isAdmin && (
               <TabsContent value="admin" className="p-6">
                 <UserManagement />
@@ -7,6 +7,7 @@ import session from "express-session";
 import { scrypt, randomBytes, timingSafeEqual } from "crypto";
 import { promisify } from "util";
 import { storage } from "./storage";
+import { hashSecretToken } from "./lib/tokens";
 import { User as SelectUser, UserRole, UserRoleType } from "@shared/schema";
 
 declare global {
@@ -77,6 +78,26 @@ function checkSuspension(req: Request, res: Response, next: NextFunction) {
   next();
 }
 
+// Bots send `Authorization: Bearer <token>` on every request instead of
+// holding a session, so they can use the same REST routes as people
+async function authenticateBot(req: Request, res: Response, next: NextFunction) {
+  const header = req.headers.authorization;
+  if (req.isAuthenticated() || !header?.startsWith("Bearer ")) return next();
+  try {
+    const bot = await storage.getBotByTokenHash(hashSecretToken(header.slice("Bearer ".length).trim()));
+    if (!bot) {
+      return res.status(401).json({ message: "Invalid bot token" });
+    }
+    if (bot.suspended) {
+      return res.status(403).json({ message: "This bot has been suspended" });
+    }
+    req.user = bot;
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
 type OAuthProfile = GitHubProfile | GoogleProfile;
 
 async function findOrCreateUser(profile: OAuthProfile, provider: string) {
@@ -110,9 +131,12 @@ export function setupAuth(app: Express) {
     app.set("trust proxy", 1);
   }
 
-  app.use(session(sessionSettings));
+  const sessionParser = session(sessionSettings);
+
+  app.use(sessionParser);
   app.use(passport.initialize());
   app.use(passport.session());
+  app.use(authenticateBot);
   app.use(checkSuspension);
 
   // Local Strategy
@@ -288,4 +312,7 @@ export function setupAuth(app: Express) {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     res.json(req.user);
   });
+
+  // Returned so the realtime gateway can read the same session cookie
+  return sessionParser;
 }
\ No newline at end of file
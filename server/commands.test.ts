@@ -0,0 +1,131 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { MAX_POLL_OPTIONS, UserRole, type Room, type User } from "@shared/schema";
+import { storage } from "./storage";
+import { executeCommand, isCommand, listCommands, type CommandContext } from "./commands";
+
+vi.mock("./storage", () => ({
+  storage: { createReminder: vi.fn() },
+}));
+
+const user = { id: 1, username: "alice", role: UserRole.USER } as User;
+const room = { id: 2, name: "general" } as Room;
+const context: CommandContext = { user, room };
+
+afterEach(() => {
+  vi.clearAllMocks();
+});
+
+describe("isCommand", () => {
+  it("matches registered commands in any case", () => {
+    expect(isCommand("/shrug")).toBe(true);
+    expect(isCommand("/SHRUG")).toBe(true);
+    expect(isCommand('/whisper "bob" hi')).toBe(true);
+  });
+
+  it("leaves other text starting with a slash alone", () => {
+    expect(isCommand("/usr/local/bin is on my PATH")).toBe(false);
+    expect(isCommand("/notacommand")).toBe(false);
+    expect(isCommand("/")).toBe(false);
+    expect(isCommand("shrug")).toBe(false);
+    expect(isCommand(undefined)).toBe(false);
+  });
+});
+
+describe("listCommands", () => {
+  it("lists what the user may run, with the command's sound", () => {
+    const commands = listCommands(user);
+
+    expect(commands.map((command) => command.name)).toEqual(
+      expect.arrayContaining(["whisper", "shrug", "sus", "remind", "poll"])
+    );
+    expect(commands.find((command) => command.name === "sus")?.sound).toMatch(/^https:/);
+    expect(commands.find((command) => command.name === "shrug")?.sound).toBeNull();
+  });
+});
+
+describe("executeCommand", () => {
+  it("rejects unknown commands", async () => {
+    expect(await executeCommand("/nope", context)).toEqual({ status: 400, error: "Unknown command: /nope" });
+  });
+
+  it("rejects arguments to commands that take none", async () => {
+    expect(await executeCommand("/shrug now", context)).toEqual({
+      status: 400,
+      error: "This command does not take arguments",
+    });
+    expect(await executeCommand("/shrug", context)).toEqual({ result: { content: "¯\\_(ツ)_/¯" } });
+  });
+
+  describe("/whisper", () => {
+    it("takes a quoted username, with or without an @, and the message", async () => {
+      expect(await executeCommand('/whisper "@bob" see you\nat five', context)).toEqual({
+        result: { content: "see you\nat five", whisperTo: "bob" },
+      });
+      expect(await executeCommand("/whisper 'bob' hi", context)).toEqual({
+        result: { content: "hi", whisperTo: "bob" },
+      });
+    });
+
+    it("needs both a username and a message", async () => {
+      for (const input of ["/whisper bob hi", '/whisper "bob"', "/whisper"]) {
+        expect(await executeCommand(input, context)).toMatchObject({ status: 400 });
+      }
+    });
+  });
+
+  describe("/poll", () => {
+    it("parses the question, options and flags", async () => {
+      const before = Date.now();
+      const outcome = await executeCommand(
+        `/poll "Lunch?" 'Pizza' "Tacos and more" --multiple --anonymous --closes=2h`,
+        context
+      );
+
+      expect(outcome).toMatchObject({
+        result: {
+          content: "Lunch?",
+          poll: { question: "Lunch?", options: ["Pizza", "Tacos and more"], multipleChoice: true, anonymous: true },
+        },
+      });
+      const closesAt = "result" in outcome && "poll" in outcome.result ? outcome.result.poll!.closesAt! : null;
+      expect(closesAt!.getTime() - before).toBeGreaterThanOrEqual(2 * 60 * 60 * 1000);
+    });
+
+    it("explains what is wrong with a malformed poll", async () => {
+      const tooMany = Array.from({ length: MAX_POLL_OPTIONS + 1 }, (_, i) => `"Option ${i}"`).join(" ");
+      const cases: [string, string][] = [
+        ['/poll "Lunch?" "Pizza', "Missing closing quote"],
+        ['/poll "Lunch?" "Pizza"', "A poll needs a question and at least two options"],
+        [`/poll "Lunch?" ${tooMany}`, `A poll can have at most ${MAX_POLL_OPTIONS} options`],
+        ['/poll "Lunch?" "Pizza" "pizza"', "Poll options must be different"],
+        ['/poll "Lunch?" "Pizza" "  "', "The question and options cannot be empty"],
+        ['/poll "Lunch?" "Pizza" "Tacos" --closes=0m', "The closing time must be in the future"],
+        ['/poll "Lunch?" "Pizza" "Tacos" --secret', "Unknown option --secret"],
+      ];
+      for (const [input, error] of cases) {
+        const outcome = await executeCommand(input, context);
+        expect(outcome).toMatchObject({ status: 400 });
+        expect("error" in outcome && outcome.error).toContain(error);
+      }
+    });
+  });
+
+  describe("/remind", () => {
+    it("creates a reminder and confirms it privately", async () => {
+      const before = Date.now();
+
+      expect(await executeCommand("/remind me in 2 hours check the deploy", context)).toEqual({
+        result: { notice: "Okay, I'll remind you in 2h." },
+      });
+      const [reminder] = vi.mocked(storage.createReminder).mock.calls[0];
+      expect(reminder).toMatchObject({ userId: user.id, roomId: room.id, note: "check the deploy" });
+      expect(reminder.remindAt.getTime() - before).toBeGreaterThanOrEqual(2 * 60 * 60 * 1000);
+    });
+
+    it("rejects a delay it cannot schedule", async () => {
+      expect(await executeCommand("/remind me in 0m nothing", context)).toMatchObject({ status: 400 });
+      expect(await executeCommand("/remind me in 2 fortnights hi", context)).toMatchObject({ status: 400 });
+      expect(storage.createReminder).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,284 @@
+import { z } from "zod";
+import { storage } from "./storage";
+import {
+  MAX_POLL_OPTIONS,
+  MAX_POLL_OPTION_LENGTH,
+  MAX_SCHEDULE_AHEAD_DAYS,
+  UserRole,
+  type Room,
+  type SlashCommandInfo,
+  type User,
+  type UserRoleType,
+} from "@shared/schema";
+
+const SUS_IMAGE_URL = "https://i.ytimg.com/vi/Mw3jK9YwOxk/maxresdefault.jpg";
+const KRATOS_IMAGE_URL = "https://ew.com/thmb/4lmLC5Ark8X7GwPpaATjk738Xao=/1500x0/filters:no_upscale():max_bytes(150000):strip_icc()/god-of-war-2018-2000-408387a68b78478aaa52d04b8a99c0a0.jpg";
+const VINE_BOOM_URL = "https://www.myinstants.com/media/sounds/vine-boom.mp3";
+
+export type CommandContext = {
+  user: User;
+  room: Room;
+};
+
+export type PollDraft = {
+  question: string;
+  options: string[];
+  multipleChoice: boolean;
+  anonymous: boolean;
+  closesAt: Date | null;
+};
+
+// What a command posts in place of the text that invoked it
+export type CommandPost = {
+  content: string;
+  mediaUrl?: string | null;
+  mediaType?: "image" | "video" | null;
+  whisperTo?: string;
+  // Attached to the posted message
+  poll?: PollDraft;
+};
+
+// Commands that only act for the sender post nothing and confirm with a notice
+export type CommandResult = CommandPost | { notice: string };
+
+type SlashCommand<Args extends z.ZodTypeAny> = {
+  name: string;
+  description: string;
+  usage: string;
+  permission: UserRoleType;
+  // Played for the sender when the command is sent
+  sound?: string;
+  // Parses everything after the command name
+  args: Args;
+  handler: (args: z.output<Args>, context: CommandContext) => CommandResult | Promise<CommandResult>;
+};
+
+const ROLE_RANK: Record<string, number> = {
+  [UserRole.USER]: 0,
+  [UserRole.MODERATOR]: 1,
+  [UserRole.ADMIN]: 2,
+  [UserRole.OWNER]: 3,
+};
+
+function hasPermission(user: User, permission: UserRoleType): boolean {
+  return (ROLE_RANK[user.role] ?? 0) >= ROLE_RANK[permission];
+}
+
+const noArgs = z.string().max(0, "This command does not take arguments");
+
+type QuotedArg = { value: string; quoted: boolean };
+
+// Splits `"some words" bare-word 'more words'` into arguments, keeping quoted
+// text together
+const quotedArgs = z.string().transform((text, ctx): QuotedArg[] => {
+  const args: QuotedArg[] = [];
+  for (const [token, doubleQuoted, singleQuoted] of Array.from(text.matchAll(/"([^"]*)"|'([^']*)'|\S+/g))) {
+    if (doubleQuoted !== undefined || singleQuoted !== undefined) {
+      args.push({ value: doubleQuoted ?? singleQuoted, quoted: true });
+    } else if (/^["']/.test(token)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Missing closing quote" });
+      return z.NEVER;
+    } else {
+      args.push({ value: token, quoted: false });
+    }
+  }
+  return args;
+});
+
+const commands: SlashCommand<z.ZodTypeAny>[] = [];
+
+// Handlers are checked against their own schema here; the registry only
+// ever passes them what that schema parsed
+function defineCommand<Args extends z.ZodType<unknown, z.ZodTypeDef, string>>(command: SlashCommand<Args>) {
+  commands.push(command as unknown as SlashCommand<z.ZodTypeAny>);
+}
+
+defineCommand({
+  name: "whisper",
+  description: "Send a private message to a user",
+  usage: '/whisper "username" your message',
+  permission: UserRole.USER,
+  args: z.string()
+    .regex(/^["']([^"']+)["']\s+\S[\s\S]*$/, 'Use the format: /whisper "username" your message')
+    .transform((text) => {
+      const [, username, message] = text.match(/^["']([^"']+)["']\s+([\s\S]+)$/)!;
+      return { username: username.replace(/^@/, ""), message };
+    }),
+  handler: ({ username, message }) => ({ content: message, whisperTo: username }),
+});
+
+const TEXT_COMMANDS = [
+  { name: "tableflip", description: "Flip a table in anger", text: "(╯°□°)╯︵ ┻━┻" },
+  { name: "unflip", description: "Restore the flipped table", text: "┬─┬ ノ( ゜-゜ノ)" },
+  { name: "shrug", description: "Shrug your shoulders", text: "¯\\_(ツ)_/¯" },
+];
+
+TEXT_COMMANDS.forEach(({ name, description, text }) => {
+  defineCommand({
+    name,
+    description,
+    usage: `/${name}`,
+    permission: UserRole.USER,
+    args: noArgs,
+    handler: () => ({ content: text }),
+  });
+});
+
+defineCommand({
+  name: "sus",
+  description: "Send the Rock eyebrow raise meme",
+  usage: "/sus",
+  permission: UserRole.USER,
+  sound: VINE_BOOM_URL,
+  args: noArgs,
+  handler: () => ({ content: "", mediaUrl: SUS_IMAGE_URL, mediaType: "image" }),
+});
+
+defineCommand({
+  name: "kratos",
+  description: "Send an angry Kratos image",
+  usage: "/kratos",
+  permission: UserRole.USER,
+  args: noArgs,
+  handler: () => ({ content: "", mediaUrl: KRATOS_IMAGE_URL, mediaType: "image" }),
+});
+
+const DURATION_UNITS_MS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+const REMIND_USAGE = "/remind me in 2h check the deploy";
+
+const REMIND_UNITS: Record<string, string> = {
+  m: "m", min: "m", mins: "m", minute: "m", minutes: "m",
+  h: "h", hr: "h", hrs: "h", hour: "h", hours: "h",
+  d: "d", day: "d", days: "d",
+};
+
+defineCommand({
+  name: "remind",
+  description: "Get a private reminder later",
+  usage: REMIND_USAGE,
+  permission: UserRole.USER,
+  args: z.string().transform((text, ctx) => {
+    const match = text.match(/^me\s+in\s+(\d+)\s*([a-z]+)\s+(\S[\s\S]*)$/i);
+    const unit = match && REMIND_UNITS[match[2].toLowerCase()];
+    if (!match || !unit) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Use the format: ${REMIND_USAGE}` });
+      return z.NEVER;
+    }
+    const delay = parseInt(match[1]) * DURATION_UNITS_MS[unit];
+    if (delay === 0 || delay > MAX_SCHEDULE_AHEAD_DAYS * DURATION_UNITS_MS.d) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Reminders can be set from 1 minute to ${MAX_SCHEDULE_AHEAD_DAYS} days ahead`,
+      });
+      return z.NEVER;
+    }
+    return { delay, when: `${match[1]}${unit}`, note: match[3].trim() };
+  }),
+  handler: async ({ delay, when, note }, { user, room }) => {
+    await storage.createReminder({
+      userId: user.id,
+      roomId: room.id,
+      note,
+      remindAt: new Date(Date.now() + delay),
+    });
+    return { notice: `Okay, I'll remind you in ${when}.` };
+  },
+});
+
+const POLL_USAGE = '/poll "Question" "Option A" "Option B" [--multiple] [--anonymous] [--closes=2h]';
+
+defineCommand({
+  name: "poll",
+  description: "Ask the room to vote",
+  usage: POLL_USAGE,
+  permission: UserRole.USER,
+  args: quotedArgs.transform((args, ctx): PollDraft => {
+    const fail = (message: string) => {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message });
+      return z.NEVER;
+    };
+    const draft: PollDraft = { question: "", options: [], multipleChoice: false, anonymous: false, closesAt: null };
+    const texts: string[] = [];
+
+    for (const arg of args) {
+      if (arg.quoted) {
+        texts.push(arg.value.trim());
+        continue;
+      }
+      const closes = arg.value.match(/^--closes=(\d+)([mhd])$/);
+      if (arg.value === "--multiple") {
+        draft.multipleChoice = true;
+      } else if (arg.value === "--anonymous") {
+        draft.anonymous = true;
+      } else if (closes) {
+        const duration = parseInt(closes[1]) * DURATION_UNITS_MS[closes[2]];
+        if (duration === 0) return fail("The closing time must be in the future");
+        draft.closesAt = new Date(Date.now() + duration);
+      } else {
+        return fail(`Unknown option ${arg.value}. Use the format: ${POLL_USAGE}`);
+      }
+    }
+
+    const [question, ...options] = texts;
+    if (!question || options.length < 2) {
+      return fail(`A poll needs a question and at least two options: ${POLL_USAGE}`);
+    }
+    if (options.length > MAX_POLL_OPTIONS) {
+      return fail(`A poll can have at most ${MAX_POLL_OPTIONS} options`);
+    }
+    if (texts.some((text) => text.length === 0)) {
+      return fail("The question and options cannot be empty");
+    }
+    if (options.some((option) => option.length > MAX_POLL_OPTION_LENGTH)) {
+      return fail(`Options cannot exceed ${MAX_POLL_OPTION_LENGTH} characters`);
+    }
+    if (new Set(options.map((option) => option.toLowerCase())).size !== options.length) {
+      return fail("Poll options must be different");
+    }
+    return { ...draft, question, options };
+  }),
+  // The question doubles as the message text, so polls show up in search and logs
+  handler: (poll) => ({ content: poll.question, poll }),
+});
+
+function commandName(content: string): string | null {
+  return content.match(/^\/(\S+)/)?.[1].toLowerCase() ?? null;
+}
+
+// Only registered commands are intercepted; other text starting with "/", like
+// a file path, is posted as it is
+export function isCommand(content: string | undefined): content is string {
+  const name = content ? commandName(content) : null;
+  return !!name && commands.some((command) => command.name === name);
+}
+
+// Commands the user may run, for the client's command picker
+export function listCommands(user: User): SlashCommandInfo[] {
+  return commands
+    .filter((command) => hasPermission(user, command.permission))
+    .map(({ name, description, usage, sound }) => ({ name, description, usage, sound: sound ?? null }));
+}
+
+export async function executeCommand(
+  input: string,
+  context: CommandContext
+): Promise<{ result: CommandResult } | { status: number; error: string }> {
+  const [, name, rest] = input.match(/^\/(\S*)\s*([\s\S]*)$/)!;
+  const command = commands.find((c) => c.name === name.toLowerCase());
+  if (!command) {
+    return { status: 400, error: `Unknown command: /${name}` };
+  }
+  if (!hasPermission(context.user, command.permission)) {
+    return { status: 403, error: `You do not have permission to use /${command.name}` };
+  }
+  const args = command.args.safeParse(rest.trim());
+  if (!args.success) {
+    return { status: 400, error: args.error.errors[0].message };
+  }
+  return { result: await command.handler(args.data, context) };
+}
@@ -0,0 +1,32 @@
+// Each hook may post this many messages per window
+const RATE_LIMIT_MESSAGES = parseInt(process.env.WEBHOOK_RATE_LIMIT ?? "20") || 20;
+const RATE_LIMIT_WINDOW_MS = 60 * 1000;
+
+export function webhookUrl(origin: string, webhookId: number, token: string): string {
+  return `${origin}/api/hooks/${webhookId}/${token}`;
+}
+
+// Timestamps of recent deliveries, keyed by hook id
+const recentDeliveries = new Map<number, number[]>();
+
+// Records the delivery and returns false when the hook is over its limit
+export function takeWebhookSlot(webhookId: number): boolean {
+  const now = Date.now();
+  const recent = (recentDeliveries.get(webhookId) ?? []).filter(
+    (time) => now - time < RATE_LIMIT_WINDOW_MS
+  );
+  if (recent.length >= RATE_LIMIT_MESSAGES) {
+    recentDeliveries.set(webhookId, recent);
+    return false;
+  }
+  recent.push(now);
+  recentDeliveries.set(webhookId, recent);
+  return true;
+}
+
+// Seconds until the oldest delivery in the window expires
+export function webhookRetryAfter(webhookId: number): number {
+  const oldest = recentDeliveries.get(webhookId)?.[0];
+  if (oldest === undefined) return 0;
+  return Math.max(1, Math.ceil((oldest + RATE_LIMIT_WINDOW_MS - Date.now()) / 1000));
+}
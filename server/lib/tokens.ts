@@ -0,0 +1,16 @@
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
+
+// Random bearer secrets; only their SHA-256 hash is ever stored
+export function generateSecretToken(): string {
+  return randomBytes(24).toString("base64url");
+}
+
+export function hashSecretToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export function secretTokenMatches(token: string, tokenHash: string): boolean {
+  const expected = Buffer.from(tokenHash, "hex");
+  const actual = Buffer.from(hashSecretToken(token), "hex");
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
@@ -0,0 +1,80 @@
+import { existsSync, mkdirSync, mkdtempSync, writeFileSync } from "fs";
+import os from "os";
+import path from "path";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { eq } from "drizzle-orm";
+import { messages, type Room, type User } from "@shared/schema";
+import { db } from "./db";
+import { storage } from "./storage";
+import { startMessageExpiryJob } from "./message-expiry";
+import { createTestRoom, createTestUser } from "./test/fixtures";
+
+vi.mock("./db", async () => (await import("./test/db")).createTestDatabase());
+
+let uploadDir: string;
+let alice: User;
+let mallory: User;
+let room: Room;
+
+beforeEach(async () => {
+  const dataDir = mkdtempSync(path.join(os.tmpdir(), "chat-test-"));
+  vi.spyOn(process, "cwd").mockReturnValue(dataDir);
+  uploadDir = path.join(dataDir, "uploads");
+  mkdirSync(uploadDir);
+  alice = await createTestUser("alice");
+  mallory = await createTestUser("mallory");
+  room = await createTestRoom([alice, mallory]);
+});
+
+function storeUpload(owner: User, name: string) {
+  const fileName = `u${owner.id}-${name}`;
+  writeFileSync(path.join(uploadDir, fileName), "data");
+  return { url: `/uploads/${fileName}`, filePath: path.join(uploadDir, fileName) };
+}
+
+async function postExpired(user: User, mediaUrl: string, expiredMsAgo = 2000) {
+  const message = await storage.createMessage({ content: "", mediaUrl, mediaType: "image", roomId: room.id, userId: user.id });
+  await db.update(messages).set({ expiresAt: new Date(Date.now() - expiredMsAgo) }).where(eq(messages.id, message.id));
+  return message;
+}
+
+// The sweeper runs once as soon as it starts, handling messages in the order
+// they expired. A file expiring last is removed once the others are decided.
+// With the whole suite running, that can take longer than waitFor's default second.
+async function sweep() {
+  const control = storeUpload(alice, "control.png");
+  await postExpired(alice, control.url, 1000);
+  startMessageExpiryJob();
+  await vi.waitFor(() => expect(existsSync(control.filePath)).toBe(false), { timeout: 5000 });
+}
+
+describe("message expiry sweeper", () => {
+  it("deletes the files of expired messages", async () => {
+    const upload = storeUpload(alice, "photo.png");
+    const message = await postExpired(alice, upload.url);
+
+    await sweep();
+
+    expect(await storage.getMessageWithUser(message.id)).toBeUndefined();
+    expect(existsSync(upload.filePath)).toBe(false);
+  });
+
+  it("keeps files that belong to someone else", async () => {
+    const upload = storeUpload(alice, "photo.png");
+    await postExpired(mallory, upload.url);
+
+    await sweep();
+
+    expect(existsSync(upload.filePath)).toBe(true);
+  });
+
+  it("keeps files that another message still uses", async () => {
+    const upload = storeUpload(alice, "photo.png");
+    await storage.createMessage({ content: "", mediaUrl: upload.url, mediaType: "image", roomId: room.id, userId: alice.id });
+    await postExpired(alice, upload.url);
+
+    await sweep();
+
+    expect(existsSync(upload.filePath)).toBe(true);
+  });
+});
@@ -0,0 +1,41 @@
+import { storage } from "./storage";
+import { broadcastToRoom } from "./websocket";
+import { removeUnusedUpload } from "./uploads";
+
+const EXPIRY_INTERVAL_MS = 30 * 1000;
+const EXPIRY_BATCH_SIZE = 200;
+
+let sweeping = false;
+
+async function sweepExpiredMessages() {
+  if (sweeping) return;
+  sweeping = true;
+  try {
+    const removed = await storage.deleteExpiredMessages(new Date(), EXPIRY_BATCH_SIZE);
+    if (removed.length === 0) return;
+
+    for (const message of removed) {
+      for (const mediaUrl of message.mediaUrls) await removeUnusedUpload(mediaUrl, message.userId);
+    }
+
+    const byRoom = new Map<number, number[]>();
+    for (const message of removed) {
+      byRoom.set(message.roomId, [...(byRoom.get(message.roomId) ?? []), message.id]);
+    }
+    byRoom.forEach((messageIds, roomId) => {
+      broadcastToRoom({ type: "messages:expired", roomId, messageIds });
+    });
+    console.log(`Removed ${removed.length} expired messages`);
+  } catch (error) {
+    console.error('Error removing expired messages:', error);
+  } finally {
+    sweeping = false;
+  }
+}
+
+export function startMessageExpiryJob() {
+  void sweepExpiredMessages();
+  const timer = setInterval(sweepExpiredMessages, EXPIRY_INTERVAL_MS);
+  // Don't keep the process alive just for the sweeper
+  timer.unref();
+}
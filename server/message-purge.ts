@@ -0,0 +1,29 @@
+import { storage } from "./storage";
+import { removeUnusedUpload } from "./uploads";
+
+// How long moderators can restore a deleted message before it is purged
+const RETENTION_DAYS = parseInt(process.env.DELETED_MESSAGE_RETENTION_DAYS ?? "30") || 30;
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+export function restoreCutoff(): Date {
+  return new Date(Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000);
+}
+
+async function purgeExpiredMessages() {
+  try {
+    const { purged, scrubbed, media } = await storage.purgeDeletedMessages(restoreCutoff());
+    for (const { url, userId } of media) await removeUnusedUpload(url, userId);
+    if (purged > 0 || scrubbed > 0) {
+      console.log(`Purged ${purged} deleted messages, scrubbed ${scrubbed} thread tombstones`);
+    }
+  } catch (error) {
+    console.error('Error purging deleted messages:', error);
+  }
+}
+
+export function startMessagePurgeJob() {
+  void purgeExpiredMessages();
+  const timer = setInterval(purgeExpiredMessages, PURGE_INTERVAL_MS);
+  // Don't keep the process alive just for the purge job
+  timer.unref();
+}
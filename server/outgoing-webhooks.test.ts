@@ -0,0 +1,182 @@
+import { createHmac } from "crypto";
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { eq } from "drizzle-orm";
+import { webhookDeliveries, type OutgoingWebhookEvent, type Room, type User } from "@shared/schema";
+import { db } from "./db";
+import { SIGNATURE_HEADER, signPayload } from "./outgoing-webhooks";
+import { startTestApp, type TestApp } from "./test/app";
+import { createTestRoom, createTestUser } from "./test/fixtures";
+
+vi.mock("./db", async () => (await import("./test/db")).createTestDatabase());
+vi.mock("drizzle-orm/neon-serverless", async () => {
+  const { db } = await import("./db");
+  return { drizzle: () => db };
+});
+vi.mock("passport-github2", () => ({ Strategy: class {} }));
+vi.mock("passport-google-oauth20", () => ({ Strategy: class {} }));
+
+const RETRY_INTERVAL_MS = 15 * 1000;
+
+type ReceivedRequest = { headers: Record<string, string | string[] | undefined>; body: string };
+
+// Stands in for the room's integration: records every delivery and answers
+// with whatever status the test sets
+let receiver: Server;
+let receiverUrl: string;
+let received: ReceivedRequest[] = [];
+let responseStatus = 200;
+
+let app: TestApp;
+let owner: User;
+let room: Room;
+
+beforeAll(async () => {
+  receiver = createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => { body += chunk; });
+    req.on("end", () => {
+      received.push({ headers: req.headers, body });
+      res.statusCode = responseStatus;
+      res.end();
+    });
+  });
+  await new Promise<void>((resolve) => receiver.listen(0, "127.0.0.1", resolve));
+  receiverUrl = `http://127.0.0.1:${(receiver.address() as AddressInfo).port}/hook`;
+
+  // Only the retry job's interval is faked; requests still run in real time
+  vi.useFakeTimers({ toFake: ["setInterval", "clearInterval"] });
+  app = await startTestApp();
+});
+
+afterAll(async () => {
+  vi.useRealTimers();
+  await app.close();
+  await new Promise((resolve) => receiver.close(resolve));
+});
+
+beforeEach(async () => {
+  received = [];
+  responseStatus = 200;
+  owner = await createTestUser("owner");
+  room = await createTestRoom([owner]);
+});
+
+async function subscribe(events: OutgoingWebhookEvent[] = ["message.created"]) {
+  const response = await app.request(owner, "POST", `/api/rooms/${room.id}/outgoing-webhooks`, { url: receiverUrl, events });
+  expect(response.status).toBe(201);
+  return response.body as { id: number; secret: string };
+}
+
+async function deliveries(webhookId: number) {
+  return db.select().from(webhookDeliveries).where(eq(webhookDeliveries.webhookId, webhookId));
+}
+
+// Makes the pending delivery due, optionally after `attempts` earlier tries,
+// and waits for the retry job to record its next attempt
+async function retryNow(webhookId: number, attempts?: number) {
+  const [pending] = await deliveries(webhookId);
+  const nextAttempt = (attempts ?? pending.attempts) + 1;
+  await db
+    .update(webhookDeliveries)
+    .set({ nextAttemptAt: new Date(Date.now() - 1000), attempts: nextAttempt - 1 })
+    .where(eq(webhookDeliveries.webhookId, webhookId));
+  await vi.advanceTimersByTimeAsync(RETRY_INTERVAL_MS);
+  await vi.waitFor(async () => expect((await deliveries(webhookId))[0].attempts).toBe(nextAttempt));
+  const [delivery] = await deliveries(webhookId);
+  return delivery;
+}
+
+describe("signPayload", () => {
+  it("is the hex HMAC-SHA256 of the body, prefixed with the algorithm", () => {
+    const body = '{"event":"message.created"}';
+    const expected = createHmac("sha256", "s3cret").update(body).digest("hex");
+
+    expect(signPayload("s3cret", body)).toBe(`sha256=${expected}`);
+    expect(signPayload("other", body)).not.toBe(signPayload("s3cret", body));
+  });
+});
+
+describe("outgoing webhooks", () => {
+  it("delivers subscribed events signed with the hook's secret", async () => {
+    const webhook = await subscribe();
+
+    await app.request(owner, "POST", `/api/rooms/${room.id}/messages`, { content: "deploy is done", roomId: room.id });
+    await vi.waitFor(() => expect(received).toHaveLength(1));
+
+    const [{ headers, body }] = received;
+    const expected = createHmac("sha256", webhook.secret).update(body).digest("hex");
+    expect(headers[SIGNATURE_HEADER.toLowerCase()]).toBe(`sha256=${expected}`);
+    expect(headers["x-webhook-event"]).toBe("message.created");
+    expect(JSON.parse(body)).toMatchObject({
+      event: "message.created",
+      roomId: room.id,
+      data: { message: { content: "deploy is done", author: { id: owner.id, username: owner.username } } },
+    });
+  });
+
+  it("skips events the hook did not subscribe to", async () => {
+    await subscribe(["room.renamed"]);
+
+    await app.request(owner, "POST", `/api/rooms/${room.id}/messages`, { content: "hello", roomId: room.id });
+    await app.request(owner, "PATCH", `/api/rooms/${room.id}`, { name: "renamed" });
+    await vi.waitFor(() => expect(received).toHaveLength(1));
+
+    expect(JSON.parse(received[0].body).event).toBe("room.renamed");
+  });
+
+  it("never sends disappearing messages, which would outlive their expiry", async () => {
+    room = await createTestRoom([owner], { messageTtlSeconds: 3600 });
+    const webhook = await subscribe(["message.created", "room.renamed"]);
+
+    await app.request(owner, "POST", `/api/rooms/${room.id}/messages`, { content: "gone soon", roomId: room.id });
+    await app.request(owner, "PATCH", `/api/rooms/${room.id}`, { name: "renamed" });
+    await vi.waitFor(() => expect(received).toHaveLength(1));
+
+    expect(JSON.parse(received[0].body).event).toBe("room.renamed");
+    expect(await deliveries(webhook.id)).toHaveLength(1);
+  });
+
+  it("records each attempt in the delivery log the room creator sees", async () => {
+    const webhook = await subscribe();
+
+    await app.request(owner, "POST", `/api/rooms/${room.id}/messages`, { content: "hello", roomId: room.id });
+    await vi.waitFor(async () => expect((await deliveries(webhook.id))[0]?.status).toBe("succeeded"));
+
+    const log = await app.request(owner, "GET", `/api/rooms/${room.id}/outgoing-webhooks/${webhook.id}/deliveries`);
+    expect(log.body).toEqual([expect.objectContaining({ event: "message.created", status: "succeeded", attempts: 1, responseStatus: 200 })]);
+    const stranger = await createTestUser("stranger");
+    expect((await app.request(stranger, "GET", `/api/rooms/${room.id}/outgoing-webhooks/${webhook.id}/deliveries`)).status).toBe(403);
+  });
+
+  it("retries failed deliveries with a doubling delay, then gives up", async () => {
+    responseStatus = 500;
+    const webhook = await subscribe();
+
+    await app.request(owner, "POST", `/api/rooms/${room.id}/messages`, { content: "hello", roomId: room.id });
+    await vi.waitFor(async () => expect((await deliveries(webhook.id))[0]?.responseStatus).toBe(500));
+    const [first] = await deliveries(webhook.id);
+    expect(first).toMatchObject({ status: "pending", attempts: 1, error: "Receiver responded with 500" });
+    expect(first.nextAttemptAt!.getTime() - first.lastAttemptAt!.getTime()).toBeCloseTo(30 * 1000, -3);
+
+    const second = await retryNow(webhook.id);
+    expect(second).toMatchObject({ status: "pending", attempts: 2 });
+    expect(second.nextAttemptAt!.getTime() - second.lastAttemptAt!.getTime()).toBeCloseTo(60 * 1000, -3);
+
+    const last = await retryNow(webhook.id, 5);
+    expect(last).toMatchObject({ status: "failed", attempts: 6, nextAttemptAt: null });
+    expect(received.every((request) => request.body === received[0].body)).toBe(true);
+  });
+
+  it("succeeds on a retry once the receiver recovers", async () => {
+    responseStatus = 503;
+    const webhook = await subscribe();
+
+    await app.request(owner, "POST", `/api/rooms/${room.id}/messages`, { content: "hello", roomId: room.id });
+    await vi.waitFor(async () => expect((await deliveries(webhook.id))[0]?.attempts).toBe(1));
+    responseStatus = 200;
+
+    expect(await retryNow(webhook.id)).toMatchObject({ status: "succeeded", attempts: 2, nextAttemptAt: null });
+  });
+});
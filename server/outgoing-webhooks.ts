@@ -0,0 +1,136 @@
+import { createHmac, randomBytes } from "crypto";
+import { storage } from "./storage";
+import type { Message, OutgoingWebhookEvent, User, WebhookDelivery, outgoingWebhooks } from "@shared/schema";
+
+type OutgoingWebhookRow = typeof outgoingWebhooks.$inferSelect;
+
+// Attempts are spaced 30s, 1m, 2m, 4m and 8m apart before we give up
+const MAX_ATTEMPTS = 6;
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+const RETRY_INTERVAL_MS = 15 * 1000;
+const RETRY_BATCH_SIZE = 50;
+
+export const SIGNATURE_HEADER = "X-Webhook-Signature";
+
+export function generateWebhookSecret(): string {
+  return randomBytes(32).toString("hex");
+}
+
+// Receivers recompute this over the raw request body to check it came from us
+export function signPayload(secret: string, body: string): string {
+  return `sha256=${createHmac("sha256", secret).update(body).digest("hex")}`;
+}
+
+function retryDelay(attempts: number): number {
+  return BASE_RETRY_DELAY_MS * 2 ** (attempts - 1);
+}
+
+async function attemptDelivery(delivery: WebhookDelivery, webhook: OutgoingWebhookRow) {
+  const attempts = delivery.attempts + 1;
+  let responseStatus: number | null = null;
+  let error: string | null = null;
+
+  try {
+    const response = await fetch(webhook.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Webhook-Event": delivery.event,
+        "X-Webhook-Delivery": String(delivery.id),
+        [SIGNATURE_HEADER]: signPayload(webhook.secret, delivery.payload),
+      },
+      body: delivery.payload,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    responseStatus = response.status;
+    if (!response.ok) error = `Receiver responded with ${response.status}`;
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err);
+  }
+
+  const succeeded = error === null;
+  const gaveUp = !succeeded && attempts >= MAX_ATTEMPTS;
+  await storage.updateWebhookDelivery(delivery.id, {
+    status: succeeded ? "succeeded" : gaveUp ? "failed" : "pending",
+    attempts,
+    responseStatus,
+    error,
+    lastAttemptAt: new Date(),
+    nextAttemptAt: succeeded || gaveUp ? null : new Date(Date.now() + retryDelay(attempts)),
+  });
+}
+
+async function dispatch(roomId: number, event: OutgoingWebhookEvent, data: Record<string, unknown>) {
+  const webhooks = await storage.getOutgoingWebhooksForEvent(roomId, event);
+  if (webhooks.length === 0) return;
+
+  const payload = JSON.stringify({ event, roomId, timestamp: new Date().toISOString(), data });
+  // Scheduled as if the first attempt will fail, so a crash mid-send still gets retried
+  const deliveries = await storage.createWebhookDeliveries(webhooks.map((webhook) => ({
+    webhookId: webhook.id,
+    event,
+    payload,
+    nextAttemptAt: new Date(Date.now() + retryDelay(1)),
+  })));
+  await Promise.all(deliveries.map((delivery) =>
+    attemptDelivery(delivery, webhooks.find((webhook) => webhook.id === delivery.webhookId)!)
+  ));
+}
+
+// Fire and forget: a slow or broken receiver never holds up the request
+export function emitRoomEvent(roomId: number, event: OutgoingWebhookEvent, data: Record<string, unknown>) {
+  dispatch(roomId, event, data).catch((error) => {
+    console.error(`Error dispatching ${event} webhooks:`, error);
+  });
+}
+
+// Whispers are private, so they never leave the app. Nor do disappearing
+// messages: the delivery log and the receiver would keep them past their expiry.
+export function emitMessageEvent(
+  event: "message.created" | "message.edited",
+  message: Message,
+  author: Pick<User, "id" | "username">
+) {
+  if (message.whisperToId !== null || message.expiresAt !== null) return;
+  emitRoomEvent(message.roomId, event, {
+    message: {
+      id: message.id,
+      content: message.content,
+      mediaUrl: message.mediaUrl,
+      mediaType: message.mediaType,
+      parentId: message.parentId,
+      webhookId: message.webhookId,
+      createdAt: message.createdAt,
+      editedAt: message.editedAt,
+      author: { id: author.id, username: author.username },
+    },
+  });
+}
+
+export function userSummary(user: Pick<User, "id" | "username">) {
+  return { id: user.id, username: user.username };
+}
+
+let retrying = false;
+
+async function retryDueDeliveries() {
+  if (retrying) return;
+  retrying = true;
+  try {
+    const due = await storage.getDueWebhookDeliveries(new Date(), RETRY_BATCH_SIZE);
+    for (const { delivery, webhook } of due) {
+      await attemptDelivery(delivery, webhook);
+    }
+  } catch (error) {
+    console.error('Error retrying webhook deliveries:', error);
+  } finally {
+    retrying = false;
+  }
+}
+
+export function startWebhookDeliveryJob() {
+  const timer = setInterval(retryDueDeliveries, RETRY_INTERVAL_MS);
+  // Don't keep the process alive just for retries
+  timer.unref();
+}
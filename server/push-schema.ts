@@ -22,6 +22,7 @@ async function main() {
         password TEXT NOT NULL,
         is_online BOOLEAN NOT NULL DEFAULT false,
         appear_offline BOOLEAN NOT NULL DEFAULT false,
+        send_read_receipts BOOLEAN NOT NULL DEFAULT true,
         last_seen TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
         avatar_url TEXT,
         role TEXT NOT NULL DEFAULT 'user',
@@ -31,7 +32,10 @@ async function main() {
         muted BOOLEAN NOT NULL DEFAULT false,
         muted_until TIMESTAMP,
         muted_reason TEXT,
-        last_username_change TIMESTAMP
+        last_username_change TIMESTAMP,
+        is_bot BOOLEAN NOT NULL DEFAULT false,
+        bot_token_hash TEXT UNIQUE,
+        bot_owner_id INTEGER REFERENCES users(id)
       );
 
       CREATE TABLE IF NOT EXISTS rooms (
@@ -40,25 +44,165 @@ async function main() {
         created_by_id INTEGER NOT NULL REFERENCES users(id),
         created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
         is_public BOOLEAN NOT NULL DEFAULT true,
-        invite_code TEXT UNIQUE
+        invite_code TEXT UNIQUE,
+        is_direct BOOLEAN NOT NULL DEFAULT false,
+        direct_key TEXT UNIQUE,
+        max_message_length INTEGER,
+        message_ttl_seconds INTEGER,
+        allowed_file_types TEXT[],
+        max_upload_mb INTEGER
       );
 
+      CREATE TABLE IF NOT EXISTS incoming_webhooks (
+        id SERIAL PRIMARY KEY,
+        room_id INTEGER NOT NULL REFERENCES rooms(id) ON DELETE CASCADE,
+        created_by_id INTEGER NOT NULL REFERENCES users(id),
+        name TEXT NOT NULL,
+        avatar_url TEXT,
+        token_hash TEXT NOT NULL,
+        created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        revoked_at TIMESTAMP
+      );
+
+      CREATE TABLE IF NOT EXISTS outgoing_webhooks (
+        id SERIAL PRIMARY KEY,
+        room_id INTEGER NOT NULL REFERENCES rooms(id) ON DELETE CASCADE,
+        created_by_id INTEGER NOT NULL REFERENCES users(id),
+        url TEXT NOT NULL,
+        secret TEXT NOT NULL,
+        events TEXT[] NOT NULL,
+        created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE TABLE IF NOT EXISTS webhook_deliveries (
+        id SERIAL PRIMARY KEY,
+        webhook_id INTEGER NOT NULL REFERENCES outgoing_webhooks(id) ON DELETE CASCADE,
+        event TEXT NOT NULL,
+        payload TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'pending',
+        attempts INTEGER NOT NULL DEFAULT 0,
+        response_status INTEGER,
+        error TEXT,
+        created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        last_attempt_at TIMESTAMP,
+        next_attempt_at TIMESTAMP
+      );
+
+      CREATE INDEX IF NOT EXISTS webhook_deliveries_webhook_idx ON webhook_deliveries (webhook_id, created_at);
+
       CREATE TABLE IF NOT EXISTS messages (
         id SERIAL PRIMARY KEY,
         content TEXT,
         media_url TEXT,
         media_type TEXT,
+        media_metadata JSONB,
         room_id INTEGER NOT NULL REFERENCES rooms(id),
         user_id INTEGER NOT NULL REFERENCES users(id),
         created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
-        edited_at TIMESTAMP
+        edited_at TIMESTAMP,
+        edited_by_id INTEGER REFERENCES users(id),
+        deleted_at TIMESTAMP,
+        deleted_by_id INTEGER REFERENCES users(id),
+        delete_reason TEXT,
+        whisper_to_id INTEGER REFERENCES users(id),
+        parent_id INTEGER REFERENCES messages(id) ON DELETE CASCADE,
+        webhook_id INTEGER REFERENCES incoming_webhooks(id),
+        is_reminder BOOLEAN NOT NULL DEFAULT false,
+        reminder_of_id INTEGER REFERENCES messages(id) ON DELETE SET NULL,
+        expires_at TIMESTAMP,
+        content_search TSVECTOR GENERATED ALWAYS AS (to_tsvector('english', coalesce(content, ''))) STORED
+      );
+
+      CREATE INDEX IF NOT EXISTS messages_content_search_idx ON messages USING gin (content_search);
+      CREATE INDEX IF NOT EXISTS messages_expires_at_idx ON messages (expires_at);
+
+      CREATE TABLE IF NOT EXISTS message_attachments (
+        id SERIAL PRIMARY KEY,
+        message_id INTEGER NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+        position INTEGER NOT NULL,
+        url TEXT NOT NULL,
+        media_type TEXT NOT NULL,
+        metadata JSONB
+      );
+
+      CREATE INDEX IF NOT EXISTS message_attachments_message_idx ON message_attachments (message_id, position);
+
+      CREATE TABLE IF NOT EXISTS message_revisions (
+        id SERIAL PRIMARY KEY,
+        message_id INTEGER NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+        content TEXT,
+        edited_by_id INTEGER NOT NULL REFERENCES users(id),
+        edited_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE TABLE IF NOT EXISTS message_reactions (
+        id SERIAL PRIMARY KEY,
+        message_id INTEGER NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+        user_id INTEGER NOT NULL REFERENCES users(id),
+        emoji TEXT NOT NULL,
+        created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        CONSTRAINT message_reactions_message_user_emoji UNIQUE (message_id, user_id, emoji)
+      );
+
+      CREATE TABLE IF NOT EXISTS polls (
+        id SERIAL PRIMARY KEY,
+        message_id INTEGER NOT NULL UNIQUE REFERENCES messages(id) ON DELETE CASCADE,
+        question TEXT NOT NULL,
+        options TEXT[] NOT NULL,
+        multiple_choice BOOLEAN NOT NULL DEFAULT false,
+        anonymous BOOLEAN NOT NULL DEFAULT false,
+        closes_at TIMESTAMP
+      );
+
+      CREATE TABLE IF NOT EXISTS poll_votes (
+        id SERIAL PRIMARY KEY,
+        poll_id INTEGER NOT NULL REFERENCES polls(id) ON DELETE CASCADE,
+        user_id INTEGER NOT NULL REFERENCES users(id),
+        option INTEGER NOT NULL,
+        created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        CONSTRAINT poll_votes_poll_user_option UNIQUE (poll_id, user_id, option)
+      );
+
+      CREATE TABLE IF NOT EXISTS scheduled_messages (
+        id SERIAL PRIMARY KEY,
+        room_id INTEGER NOT NULL REFERENCES rooms(id) ON DELETE CASCADE,
+        user_id INTEGER NOT NULL REFERENCES users(id),
+        content TEXT NOT NULL,
+        send_at TIMESTAMP NOT NULL,
+        created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        failed_at TIMESTAMP,
+        failure_reason TEXT
+      );
+
+      CREATE INDEX IF NOT EXISTS scheduled_messages_send_at_idx ON scheduled_messages (send_at);
+
+      CREATE TABLE IF NOT EXISTS reminders (
+        id SERIAL PRIMARY KEY,
+        user_id INTEGER NOT NULL REFERENCES users(id),
+        room_id INTEGER NOT NULL REFERENCES rooms(id) ON DELETE CASCADE,
+        message_id INTEGER REFERENCES messages(id) ON DELETE SET NULL,
+        note TEXT,
+        remind_at TIMESTAMP NOT NULL,
+        created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE INDEX IF NOT EXISTS reminders_remind_at_idx ON reminders (remind_at);
+
+      CREATE TABLE IF NOT EXISTS message_drafts (
+        id SERIAL PRIMARY KEY,
+        user_id INTEGER NOT NULL REFERENCES users(id),
+        room_id INTEGER NOT NULL REFERENCES rooms(id) ON DELETE CASCADE,
+        content TEXT NOT NULL,
+        updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        CONSTRAINT message_drafts_user_room UNIQUE (user_id, room_id)
       );
 
       CREATE TABLE IF NOT EXISTS room_members (
         id SERIAL PRIMARY KEY,
         room_id INTEGER NOT NULL REFERENCES rooms(id),
         user_id INTEGER NOT NULL REFERENCES users(id),
-        joined_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+        joined_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        last_read_message_id INTEGER
       );
 
       CREATE TABLE IF NOT EXISTS unread_mentions (
@@ -0,0 +1,58 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { and, eq } from "drizzle-orm";
+import { messages, reminders, type Room, type User } from "@shared/schema";
+import { db } from "./db";
+import { storage } from "./storage";
+import { startReminderJob } from "./reminders";
+import { createTestRoom, createTestUser } from "./test/fixtures";
+
+vi.mock("./db", async () => (await import("./test/db")).createTestDatabase());
+
+let alice: User;
+let room: Room;
+
+beforeEach(async () => {
+  alice = await createTestUser("alice");
+  room = await createTestRoom([alice], { isPublic: false });
+});
+
+async function remindDue(user: User, note: string, messageId?: number) {
+  return storage.createReminder({ userId: user.id, roomId: room.id, messageId, note, remindAt: new Date(Date.now() - 1000) });
+}
+
+async function deliveredReminders(user: User) {
+  return db.select().from(messages).where(and(eq(messages.userId, user.id), eq(messages.isReminder, true)));
+}
+
+// The job delivers due reminders once as soon as it starts, then removes them
+async function deliver(reminderIds: number[]) {
+  startReminderJob();
+  await vi.waitFor(async () => {
+    const left = await db.select().from(reminders);
+    expect(left.filter(reminder => reminderIds.includes(reminder.id))).toEqual([]);
+  }, { timeout: 5000 });
+}
+
+describe("reminder job", () => {
+  it("delivers due reminders as a whisper to the person who set them", async () => {
+    const message = await storage.createMessage({ content: "renew the certificate", roomId: room.id, userId: alice.id });
+    const reminder = await remindDue(alice, "do it today", message.id);
+
+    await deliver([reminder.id]);
+
+    expect(await deliveredReminders(alice)).toEqual([
+      expect.objectContaining({ content: "do it today", whisperToId: alice.id, reminderOfId: message.id }),
+    ]);
+  });
+
+  it("drops reminders for rooms the person can no longer read", async () => {
+    const bob = await createTestUser("bob");
+    await storage.joinRoom(room.id, bob.id);
+    const reminder = await remindDue(bob, "check the thread");
+    await storage.leaveRoom(room.id, bob.id);
+
+    await deliver([reminder.id]);
+
+    expect(await deliveredReminders(bob)).toEqual([]);
+  });
+});
@@ -0,0 +1,60 @@
+import { storage } from "./storage";
+import { broadcastToRoom } from "./websocket";
+import type { Reminder } from "@shared/schema";
+
+const REMINDER_INTERVAL_MS = 15 * 1000;
+const REMINDER_BATCH_SIZE = 50;
+
+// Delivered as a whisper to yourself, so the usual whisper rules keep it private
+async function deliverReminder(reminder: Reminder) {
+  const room = await storage.getRoom(reminder.roomId);
+  const user = await storage.getUser(reminder.userId);
+  const canStillRead = !!room && !!user && !user.suspended &&
+    (room.isPublic || await storage.isRoomMember(room.id, user.id));
+  if (!canStillRead) return;
+
+  const message = await storage.createMessage({
+    content: reminder.note ?? "",
+    roomId: reminder.roomId,
+    userId: reminder.userId,
+    whisperToId: reminder.userId,
+    isReminder: true,
+    reminderOfId: reminder.messageId,
+  });
+  const messageWithUser = await storage.getMessageWithUser(message.id);
+  if (!messageWithUser) return;
+  broadcastToRoom(
+    { type: "message:created", roomId: message.roomId, message: messageWithUser },
+    (recipient) => recipient.id === reminder.userId
+  );
+}
+
+let delivering = false;
+
+async function deliverDueReminders() {
+  if (delivering) return;
+  delivering = true;
+  try {
+    const due = await storage.getDueReminders(new Date(), REMINDER_BATCH_SIZE);
+    for (const reminder of due) {
+      try {
+        await deliverReminder(reminder);
+        await storage.deleteReminder(reminder.id);
+      } catch (error) {
+        // Left in place, so the next run tries again
+        console.error(`Error delivering reminder ${reminder.id}:`, error);
+      }
+    }
+  } catch (error) {
+    console.error('Error delivering reminders:', error);
+  } finally {
+    delivering = false;
+  }
+}
+
+export function startReminderJob() {
+  void deliverDueReminders();
+  const timer = setInterval(deliverDueReminders, REMINDER_INTERVAL_MS);
+  // Don't keep the process alive just for reminders
+  timer.unref();
+}
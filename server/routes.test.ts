@@ -0,0 +1,746 @@
+import { mkdirSync, writeFileSync } from "fs";
+import path from "path";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { eq } from "drizzle-orm";
+import { UserRole, polls, type MessageWithUser, type Room, type User } from "@shared/schema";
+import { db } from "./db";
+import { storage } from "./storage";
+import { startTestApp, type TestApp } from "./test/app";
+import { createTestRoom, createTestUser } from "./test/fixtures";
+import { broadcastToRoom } from "./websocket";
+
+vi.mock("./db", async () => (await import("./test/db")).createTestDatabase());
+// routes.ts opens its own drizzle client on the pool; point it at the test database
+vi.mock("drizzle-orm/neon-serverless", async () => {
+  const { db } = await import("./db");
+  return { drizzle: () => db };
+});
+// The OAuth strategies are only set up when their credentials are configured
+vi.mock("passport-github2", () => ({ Strategy: class {} }));
+vi.mock("passport-google-oauth20", () => ({ Strategy: class {} }));
+// Records every broadcast, so tests can check who would receive it
+vi.mock("./websocket", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("./websocket")>();
+  return { ...actual, broadcastToRoom: vi.fn(actual.broadcastToRoom) };
+});
+
+let app: TestApp;
+
+beforeAll(async () => {
+  app = await startTestApp();
+});
+
+afterAll(async () => {
+  await app.close();
+});
+
+// Posts through the composer's route and returns the created message
+async function send(user: User, room: Room, body: Record<string, unknown>): Promise<MessageWithUser> {
+  const response = await app.request(user, "POST", `/api/rooms/${room.id}/messages`, { roomId: room.id, ...body });
+  expect(response.status).toBe(201);
+  return response.body;
+}
+
+async function reply(user: User, parentId: number, content: string): Promise<MessageWithUser> {
+  const response = await app.request(user, "POST", `/api/messages/${parentId}/thread`, { content });
+  expect(response.status).toBe(201);
+  return response.body;
+}
+
+// A word no other test uses, so searches only match this test's messages
+let keywords = 0;
+function keyword() {
+  keywords++;
+  return `kumquat${keywords}x`;
+}
+
+// The audience of the last broadcast of `type`; undefined means the whole room
+function lastAudience(type: string) {
+  const call = vi.mocked(broadcastToRoom).mock.calls.findLast(([event]) => event.type === type);
+  expect(call).toBeDefined();
+  const canReceive = call![1];
+  return (user: User) => canReceive?.(user) ?? true;
+}
+
+async function search(user: User, query: Record<string, string>) {
+  const response = await app.request(user, "GET", `/api/search?${new URLSearchParams(query)}`);
+  expect(response.status).toBe(200);
+  return response.body as { id: number; roomId: number; snippet: string }[];
+}
+
+describe("message payloads", () => {
+  it("never include the author's password", async () => {
+    const alice = await createTestUser("alice");
+    const room = await createTestRoom([alice]);
+
+    const posted = await app.request(alice, "POST", `/api/rooms/${room.id}/messages`, { content: "hi", roomId: room.id });
+    const history = await app.request(alice, "GET", `/api/rooms/${room.id}/messages`);
+
+    expect(posted.status).toBe(201);
+    expect(posted.body.user).not.toHaveProperty("password");
+    expect(history.body[0].user.username).toBe(alice.username);
+    expect(history.body[0].user).not.toHaveProperty("password");
+  });
+
+  it("are only served to signed-in users", async () => {
+    const alice = await createTestUser("alice");
+    const room = await createTestRoom([alice]);
+
+    expect((await app.request(null, "GET", `/api/rooms/${room.id}/messages`)).status).toBe(401);
+  });
+});
+
+describe("GET /api/search", () => {
+  it("finds messages in public rooms and rooms the viewer belongs to", async () => {
+    const [alice, bob, carol] = [await createTestUser("alice"), await createTestUser("bob"), await createTestUser("carol")];
+    const word = keyword();
+    const lobby = await createTestRoom([alice]);
+    const hideout = await createTestRoom([alice, bob], { isPublic: false });
+    const inLobby = await send(alice, lobby, { content: `the ${word} is ripe` });
+    const inHideout = await send(alice, hideout, { content: `a secret ${word}` });
+
+    expect((await search(bob, { q: word })).map((result) => result.id).sort()).toEqual([inLobby.id, inHideout.id].sort());
+    expect((await search(carol, { q: word })).map((result) => result.id)).toEqual([inLobby.id]);
+  });
+
+  it("highlights the matched words", async () => {
+    const alice = await createTestUser("alice");
+    const word = keyword();
+    await send(alice, await createTestRoom([alice]), { content: `the ${word} is ripe` });
+
+    const [result] = await search(alice, { q: word });
+
+    expect(result.snippet).toContain(`\u0002${word}\u0003`);
+  });
+
+  it("hides whispers and replies in whisper threads from everyone else", async () => {
+    const [alice, bob, carol] = [await createTestUser("alice"), await createTestUser("bob"), await createTestUser("carol")];
+    const room = await createTestRoom([alice, bob, carol]);
+    const word = keyword();
+    const whisper = await send(alice, room, { content: `psst ${word}`, whisperTo: bob.username });
+    const answer = await reply(bob, whisper.id, `sure, ${word} at noon`);
+
+    expect(await search(carol, { q: word })).toEqual([]);
+    for (const participant of [alice, bob]) {
+      expect((await search(participant, { q: word })).map((result) => result.id).sort()).toEqual([whisper.id, answer.id].sort());
+    }
+  });
+
+  it("leaves out deleted messages", async () => {
+    const alice = await createTestUser("alice");
+    const room = await createTestRoom([alice]);
+    const word = keyword();
+    const message = await send(alice, room, { content: word });
+    await app.request(alice, "DELETE", `/api/messages/${message.id}`, {});
+
+    expect(await search(alice, { q: word })).toEqual([]);
+  });
+
+  it("filters by room and author", async () => {
+    const [alice, bob] = [await createTestUser("alice"), await createTestUser("bob")];
+    const [first, second] = [await createTestRoom([alice, bob]), await createTestRoom([alice, bob])];
+    const word = keyword();
+    const fromAlice = await send(alice, first, { content: word });
+    const fromBob = await send(bob, first, { content: word });
+    await send(alice, second, { content: word });
+
+    expect((await search(alice, { q: word, roomId: String(first.id) })).map((result) => result.id).sort())
+      .toEqual([fromAlice.id, fromBob.id].sort());
+    expect((await search(alice, { q: word, roomId: String(first.id), author: `@${bob.username}` })).map((result) => result.id))
+      .toEqual([fromBob.id]);
+  });
+
+  it("rejects an empty query", async () => {
+    const alice = await createTestUser("alice");
+
+    expect((await app.request(alice, "GET", "/api/search?q=%20")).status).toBe(400);
+  });
+});
+
+describe("replies in whisper threads", () => {
+  async function whisperThread() {
+    const [alice, bob, carol] = [await createTestUser("alice"), await createTestUser("bob"), await createTestUser("carol")];
+    const room = await createTestRoom([alice, bob, carol]);
+    const whisper = await send(alice, room, { content: "psst", whisperTo: bob.username });
+    const answer = await reply(bob, whisper.id, "the password is swordfish");
+    return { alice, bob, carol, answer };
+  }
+
+  it("only broadcasts edits to the whisper's participants", async () => {
+    const { alice, bob, carol, answer } = await whisperThread();
+
+    expect((await app.request(bob, "PATCH", `/api/messages/${answer.id}`, { content: "never mind" })).status).toBe(200);
+
+    const canReceive = lastAudience("message:updated");
+    expect([alice, bob, carol].map(canReceive)).toEqual([true, true, false]);
+  });
+
+  it("only broadcasts restores to the whisper's participants", async () => {
+    const { alice, bob, carol, answer } = await whisperThread();
+    const moderator = await createTestUser("moderator", UserRole.MODERATOR);
+    await app.request(bob, "DELETE", `/api/messages/${answer.id}`, {});
+
+    expect((await app.request(moderator, "POST", `/api/messages/${answer.id}/restore`)).status).toBe(200);
+
+    const canReceive = lastAudience("message:updated");
+    expect([alice, bob, carol].map(canReceive)).toEqual([true, true, false]);
+  });
+
+  it("cannot be read by anyone else through reminders or edit history", async () => {
+    const { alice, carol, answer } = await whisperThread();
+    const remindAt = new Date(Date.now() + 60 * 60 * 1000).toISOString();
+
+    expect((await app.request(carol, "POST", `/api/messages/${answer.id}/reminders`, { remindAt })).status).toBe(404);
+    expect((await app.request(carol, "GET", `/api/messages/${answer.id}/revisions`)).status).toBe(404);
+    expect((await app.request(alice, "POST", `/api/messages/${answer.id}/reminders`, { remindAt })).status).toBe(201);
+  });
+});
+
+describe("message attachments", () => {
+  async function uploadThrough(user: User, name: string) {
+    const form = new FormData();
+    form.append("file", new Blob(["notes"], { type: "text/plain" }), name);
+    const response = await app.request(user, "POST", "/api/upload", form);
+    expect(response.status).toBe(200);
+    return response.body.url as string;
+  }
+
+  // Stands in for a file that never went through the upload route's checks
+  function storeUpload(user: User, name: string, size = 4) {
+    const fileName = `u${user.id}-${name}`;
+    mkdirSync(path.join(app.dataDir, "uploads"), { recursive: true });
+    writeFileSync(path.join(app.dataDir, "uploads", fileName), Buffer.alloc(size));
+    return `/uploads/${fileName}`;
+  }
+
+  async function attach(user: User, room: Room, urls: string[]) {
+    return app.request(user, "POST", `/api/rooms/${room.id}/messages`, {
+      roomId: room.id,
+      attachments: urls.map(url => ({ url, mediaType: "file" })),
+    });
+  }
+
+  it("accepts the sender's own uploads", async () => {
+    const alice = await createTestUser("alice");
+    const room = await createTestRoom([alice]);
+    const url = await uploadThrough(alice, "notes.txt");
+
+    const response = await attach(alice, room, [url]);
+
+    expect(response.status).toBe(201);
+    expect(response.body.attachments).toEqual([expect.objectContaining({ url })]);
+  });
+
+  it("rejects files someone else uploaded and links elsewhere", async () => {
+    const [alice, bob] = [await createTestUser("alice"), await createTestUser("bob")];
+    const room = await createTestRoom([alice, bob]);
+    const url = await uploadThrough(bob, "notes.txt");
+
+    expect((await attach(alice, room, [url])).status).toBe(400);
+    expect((await attach(alice, room, ["https://example.com/notes.txt"])).status).toBe(400);
+    const mediaUrl = await app.request(alice, "POST", `/api/rooms/${room.id}/messages`, { roomId: room.id, mediaUrl: url, mediaType: "file" });
+    expect(mediaUrl.status).toBe(400);
+  });
+
+  it("applies the room's file types to files uploaded without naming it", async () => {
+    const alice = await createTestUser("alice");
+    const room = await createTestRoom([alice], { allowedFileTypes: ["pdf"] });
+    const url = await uploadThrough(alice, "notes.txt");
+
+    const response = await attach(alice, room, [url]);
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toBe(".txt files are not allowed here");
+  });
+
+  it("applies the room's size limit", async () => {
+    const alice = await createTestUser("alice");
+    const room = await createTestRoom([alice], { maxUploadMb: 1 });
+    const url = storeUpload(alice, "big.pdf", 2 * 1024 * 1024);
+
+    expect((await attach(alice, room, [url])).status).toBe(413);
+  });
+});
+
+describe("incoming webhooks", () => {
+  async function createHook(creator: User, room: Room) {
+    const response = await app.request(creator, "POST", `/api/rooms/${room.id}/webhooks`, { name: "CI" });
+    expect(response.status).toBe(201);
+    return new URL(response.body.url).pathname;
+  }
+
+  it("posts in the creator's name", async () => {
+    const alice = await createTestUser("alice");
+    const room = await createTestRoom([alice]);
+    const hook = await createHook(alice, room);
+
+    const response = await app.request(null, "POST", hook, { content: "build passed" });
+
+    expect(response.status).toBe(201);
+    expect(await storage.getMessageWithUser(response.body.id)).toMatchObject({ userId: alice.id, content: "build passed" });
+  });
+
+  it("stops posting once the creator is suspended or has left the room", async () => {
+    const [alice, bob] = [await createTestUser("alice"), await createTestUser("bob")];
+    const lobby = await createTestRoom([alice]);
+    const hideout = await createTestRoom([bob], { isPublic: false });
+    const suspended = await createHook(alice, lobby);
+    const departed = await createHook(bob, hideout);
+    await storage.suspendUser(alice.id, "spam");
+    await storage.leaveRoom(hideout.id, bob.id);
+
+    expect((await app.request(null, "POST", suspended, { content: "build passed" })).status).toBe(403);
+    expect((await app.request(null, "POST", departed, { content: "build passed" })).status).toBe(403);
+  });
+
+  it("is revoked when the creator deletes their account", async () => {
+    const alice = await createTestUser("alice");
+    const room = await createTestRoom([alice]);
+    const hook = await createHook(alice, room);
+
+    await storage.deleteUser(alice.id);
+
+    expect((await app.request(null, "POST", hook, { content: "build passed" })).status).toBe(404);
+    expect(await storage.getIncomingWebhooks(room.id)).toEqual([]);
+  });
+});
+
+describe("GET /api/rooms/:roomId/messages", () => {
+  async function history(user: User, room: Room, query: Record<string, string> = {}) {
+    return app.request(user, "GET", `/api/rooms/${room.id}/messages?${new URLSearchParams(query)}`);
+  }
+
+  async function postMany(user: User, room: Room, count: number) {
+    const posted: MessageWithUser[] = [];
+    for (let i = 1; i <= count; i++) posted.push(await send(user, room, { content: `message ${i}` }));
+    return posted;
+  }
+
+  it("returns the newest page, oldest first, and pages back with a cursor", async () => {
+    const alice = await createTestUser("alice");
+    const room = await createTestRoom([alice]);
+    const posted = await postMany(alice, room, 5);
+
+    const newest = await history(alice, room, { limit: "2" });
+    const older = await history(alice, room, { limit: "2", before: String(newest.body[0].id) });
+    const oldest = await history(alice, room, { limit: "2", before: String(older.body[0].id) });
+
+    expect(newest.body.map((message: MessageWithUser) => message.id)).toEqual([posted[3].id, posted[4].id]);
+    expect(older.body.map((message: MessageWithUser) => message.id)).toEqual([posted[1].id, posted[2].id]);
+    expect(oldest.body.map((message: MessageWithUser) => message.id)).toEqual([posted[0].id]);
+  });
+
+  it("catches up on messages after a cursor", async () => {
+    const alice = await createTestUser("alice");
+    const room = await createTestRoom([alice]);
+    const posted = await postMany(alice, room, 4);
+
+    const response = await history(alice, room, { limit: "2", after: String(posted[0].id) });
+
+    expect(response.body.map((message: MessageWithUser) => message.id)).toEqual([posted[1].id, posted[2].id]);
+  });
+
+  it("accepts a timestamp as the cursor", async () => {
+    const alice = await createTestUser("alice");
+    const room = await createTestRoom([alice]);
+    const [first] = await postMany(alice, room, 1);
+
+    const response = await history(alice, room, { before: new Date(new Date(first.createdAt!).getTime() + 1).toISOString() });
+
+    expect(response.body.map((message: MessageWithUser) => message.id)).toEqual([first.id]);
+  });
+
+  it("leaves thread replies to their thread", async () => {
+    const alice = await createTestUser("alice");
+    const room = await createTestRoom([alice]);
+    const parent = await send(alice, room, { content: "parent" });
+    await reply(alice, parent.id, "in the thread");
+
+    const response = await history(alice, room);
+
+    expect(response.body.map((message: MessageWithUser) => message.id)).toEqual([parent.id]);
+  });
+
+  it("rejects malformed cursors and limits", async () => {
+    const alice = await createTestUser("alice");
+    const room = await createTestRoom([alice]);
+
+    expect((await history(alice, room, { before: "yesterday" })).status).toBe(400);
+    expect((await history(alice, room, { limit: "0" })).status).toBe(400);
+    expect((await history(alice, room, { limit: "101" })).status).toBe(400);
+  });
+});
+
+describe("whispers", () => {
+  async function whisperIn() {
+    const [alice, bob, carol] = [await createTestUser("alice"), await createTestUser("bob"), await createTestUser("carol")];
+    const room = await createTestRoom([alice, bob, carol]);
+    const whisper = await send(alice, room, { content: "psst", whisperTo: bob.username });
+    return { alice, bob, carol, room, whisper };
+  }
+
+  async function visibleIds(user: User, room: Room) {
+    const response = await app.request(user, "GET", `/api/rooms/${room.id}/messages`);
+    return response.body.map((message: MessageWithUser) => message.id);
+  }
+
+  it("are only in the history of the sender and the recipient", async () => {
+    const { alice, bob, carol, room, whisper } = await whisperIn();
+
+    expect(whisper).toMatchObject({ whisperToId: bob.id, whisperTo: bob.username });
+    expect(await visibleIds(alice, room)).toEqual([whisper.id]);
+    expect(await visibleIds(bob, room)).toEqual([whisper.id]);
+    expect(await visibleIds(carol, room)).toEqual([]);
+  });
+
+  it("are only broadcast to the sender and the recipient", async () => {
+    const { alice, bob, carol } = await whisperIn();
+
+    const canReceive = lastAudience("message:created");
+
+    expect([alice, bob, carol].map(canReceive)).toEqual([true, true, false]);
+  });
+
+  it("keep their threads to the sender and the recipient", async () => {
+    const { bob, carol, whisper } = await whisperIn();
+
+    expect((await app.request(carol, "GET", `/api/messages/${whisper.id}/thread`)).status).toBe(404);
+    expect((await app.request(carol, "POST", `/api/messages/${whisper.id}/thread`, { content: "me too" })).status).toBe(404);
+    expect((await app.request(bob, "GET", `/api/messages/${whisper.id}/thread`)).status).toBe(200);
+  });
+
+  it("need a recipient in the room other than the sender", async () => {
+    const [alice, stranger] = [await createTestUser("alice"), await createTestUser("stranger")];
+    const room = await createTestRoom([alice]);
+
+    const toStranger = await app.request(alice, "POST", `/api/rooms/${room.id}/messages`, { roomId: room.id, content: "hi", whisperTo: stranger.username });
+    const toSelf = await app.request(alice, "POST", `/api/rooms/${room.id}/messages`, { roomId: room.id, content: "hi", whisperTo: alice.username });
+
+    expect(toStranger).toMatchObject({ status: 400, body: { error: `${stranger.username} is not a member of this room` } });
+    expect(toSelf).toMatchObject({ status: 400, body: { error: "You cannot whisper to yourself" } });
+  });
+});
+
+describe("direct messages", () => {
+  async function openConversation(user: User, others: User[]) {
+    const response = await app.request(user, "POST", "/api/direct-messages", { userIds: others.map(other => other.id) });
+    expect(response.status).toBe(201);
+    return response.body as Room & { participants: { id: number }[] };
+  }
+
+  it("reopens the same conversation for the same people", async () => {
+    const [alice, bob, carol] = [await createTestUser("alice"), await createTestUser("bob"), await createTestUser("carol")];
+
+    const first = await openConversation(alice, [bob, carol]);
+    const again = await openConversation(carol, [bob, alice]);
+    const pair = await openConversation(alice, [bob]);
+
+    expect(first).toMatchObject({ isDirect: true, isPublic: false });
+    expect(first.participants.map(participant => participant.id).sort()).toEqual([alice.id, bob.id, carol.id].sort());
+    expect(again.id).toBe(first.id);
+    expect(pair.id).not.toBe(first.id);
+  });
+
+  it("are private to their participants", async () => {
+    const [alice, bob, eve] = [await createTestUser("alice"), await createTestUser("bob"), await createTestUser("eve")];
+    const conversation = await openConversation(alice, [bob]);
+    await send(bob, conversation, { content: "just between us" });
+
+    const rooms = await app.request(eve, "GET", "/api/rooms");
+    const history = await app.request(eve, "GET", `/api/rooms/${conversation.id}/messages`);
+    const post = await app.request(eve, "POST", `/api/rooms/${conversation.id}/messages`, { roomId: conversation.id, content: "hi" });
+
+    expect(rooms.body.map((room: Room) => room.id)).not.toContain(conversation.id);
+    expect(history.status).toBe(403);
+    expect(post).toMatchObject({ status: 403, body: { error: "Not a participant in this conversation" } });
+  });
+
+  it("need someone else to talk to", async () => {
+    const alice = await createTestUser("alice");
+    const suspended = await createTestUser("suspended");
+    await storage.suspendUser(suspended.id, "spam");
+
+    expect((await app.request(alice, "POST", "/api/direct-messages", { userIds: [alice.id] })).status).toBe(400);
+    expect((await app.request(alice, "POST", "/api/direct-messages", { userIds: [suspended.id] })).status).toBe(404);
+  });
+});
+
+describe("reactions", () => {
+  async function react(user: User, messageId: number, emoji: string) {
+    return app.request(user, "POST", `/api/messages/${messageId}/reactions`, { emoji });
+  }
+
+  it("counts each person once per emoji and marks the viewer's own", async () => {
+    const [alice, bob] = [await createTestUser("alice"), await createTestUser("bob")];
+    const room = await createTestRoom([alice, bob]);
+    const message = await send(alice, room, { content: "shipped" });
+
+    await react(alice, message.id, "🎉");
+    await react(alice, message.id, "🎉");
+    const response = await react(bob, message.id, "🎉");
+
+    expect(response.body.reactions).toEqual([{ emoji: "🎉", count: 2, reactedByMe: true }]);
+    const history = await app.request(alice, "GET", `/api/rooms/${room.id}/messages`);
+    expect(history.body[0].reactions).toEqual([{ emoji: "🎉", count: 2, reactedByMe: true }]);
+  });
+
+  it("can be taken back", async () => {
+    const alice = await createTestUser("alice");
+    const room = await createTestRoom([alice]);
+    const message = await send(alice, room, { content: "shipped" });
+    await react(alice, message.id, "🎉");
+
+    const response = await app.request(alice, "DELETE", `/api/messages/${message.id}/reactions/${encodeURIComponent("🎉")}`);
+
+    expect(response.body.reactions).toEqual([]);
+  });
+
+  it("only accepts emoji", async () => {
+    const alice = await createTestUser("alice");
+    const message = await send(alice, await createTestRoom([alice]), { content: "shipped" });
+
+    expect((await react(alice, message.id, "lol")).status).toBe(400);
+  });
+
+  it("need read access to the message", async () => {
+    const [alice, bob, carol] = [await createTestUser("alice"), await createTestUser("bob"), await createTestUser("carol")];
+    const room = await createTestRoom([alice, bob, carol]);
+    const whisper = await send(alice, room, { content: "psst", whisperTo: bob.username });
+    const deleted = await send(alice, room, { content: "oops" });
+    await app.request(alice, "DELETE", `/api/messages/${deleted.id}`, {});
+
+    expect((await react(carol, whisper.id, "👀")).status).toBe(404);
+    expect((await react(bob, deleted.id, "👀")).status).toBe(404);
+  });
+});
+
+describe("polls", () => {
+  async function vote(user: User, messageId: number, options: number[]) {
+    return app.request(user, "POST", `/api/messages/${messageId}/poll/votes`, { options });
+  }
+
+  it("are created from the /poll command and tally votes", async () => {
+    const [alice, bob] = [await createTestUser("alice"), await createTestUser("bob")];
+    const room = await createTestRoom([alice, bob]);
+    const message = await send(alice, room, { content: '/poll "Lunch?" "Pizza" "Tacos"' });
+
+    expect(message).toMatchObject({ content: "Lunch?", poll: { question: "Lunch?", totalVoters: 0 } });
+    await vote(alice, message.id, [0]);
+    await vote(bob, message.id, [0]);
+    const response = await vote(bob, message.id, [1]);
+
+    expect(response.body.poll).toMatchObject({
+      totalVoters: 2,
+      myVotes: [1],
+      options: [
+        { text: "Pizza", votes: 1, voters: [expect.objectContaining({ id: alice.id })] },
+        { text: "Tacos", votes: 1, voters: [expect.objectContaining({ id: bob.id })] },
+      ],
+    });
+  });
+
+  it("keep voters anonymous when asked to", async () => {
+    const alice = await createTestUser("alice");
+    const message = await send(alice, await createTestRoom([alice]), { content: '/poll "Lunch?" "Pizza" "Tacos" --anonymous' });
+
+    const response = await vote(alice, message.id, [0]);
+
+    expect(response.body.poll.options[0]).toEqual({ text: "Pizza", votes: 1 });
+  });
+
+  it("reject votes that do not fit the poll", async () => {
+    const alice = await createTestUser("alice");
+    const message = await send(alice, await createTestRoom([alice]), { content: '/poll "Lunch?" "Pizza" "Tacos"' });
+
+    expect((await vote(alice, message.id, [0, 1])).body.error).toBe("This poll only allows one choice");
+    expect((await vote(alice, message.id, [2])).body.error).toBe("Unknown poll option");
+  });
+
+  it("stop taking votes once closed", async () => {
+    const alice = await createTestUser("alice");
+    const message = await send(alice, await createTestRoom([alice]), { content: '/poll "Lunch?" "Pizza" "Tacos" --closes=1h' });
+    await db.update(polls).set({ closesAt: new Date(Date.now() - 1000) }).where(eq(polls.messageId, message.id));
+
+    expect((await vote(alice, message.id, [0])).body.error).toBe("This poll is closed");
+  });
+
+  it("cannot be edited", async () => {
+    const alice = await createTestUser("alice");
+    const message = await send(alice, await createTestRoom([alice]), { content: '/poll "Lunch?" "Pizza" "Tacos"' });
+
+    expect((await app.request(alice, "PATCH", `/api/messages/${message.id}`, { content: "Dinner?" })).status).toBe(400);
+  });
+});
+
+describe("drafts", () => {
+  async function saveDraft(user: User, room: Room, content: string) {
+    return app.request(user, "PUT", `/api/rooms/${room.id}/draft`, { content });
+  }
+
+  async function drafts(user: User) {
+    return (await app.request(user, "GET", "/api/drafts")).body as { roomId: number; content: string }[];
+  }
+
+  it("keep one draft per room for each user", async () => {
+    const [alice, bob] = [await createTestUser("alice"), await createTestUser("bob")];
+    const [first, second] = [await createTestRoom([alice, bob]), await createTestRoom([alice])];
+
+    await saveDraft(alice, first, "half a thought");
+    await saveDraft(alice, first, "a whole thought");
+    await saveDraft(alice, second, "elsewhere");
+
+    expect(await drafts(alice)).toEqual(expect.arrayContaining([
+      expect.objectContaining({ roomId: first.id, content: "a whole thought" }),
+      expect.objectContaining({ roomId: second.id, content: "elsewhere" }),
+    ]));
+    expect(await drafts(alice)).toHaveLength(2);
+    expect(await drafts(bob)).toEqual([]);
+  });
+
+  it("are removed by saving an empty one", async () => {
+    const alice = await createTestUser("alice");
+    const room = await createTestRoom([alice]);
+    await saveDraft(alice, room, "half a thought");
+
+    expect((await saveDraft(alice, room, "  ")).status).toBe(204);
+
+    expect(await drafts(alice)).toEqual([]);
+  });
+
+  it("are only kept for rooms the user can see", async () => {
+    const [alice, eve] = [await createTestUser("alice"), await createTestUser("eve")];
+    const room = await createTestRoom([alice], { isPublic: false });
+
+    expect((await saveDraft(eve, room, "let me in")).status).toBe(403);
+  });
+});
+
+describe("reminders", () => {
+  const inAnHour = () => new Date(Date.now() + 60 * 60 * 1000).toISOString();
+
+  it("are listed with the message they are about, and can be cancelled", async () => {
+    const alice = await createTestUser("alice");
+    const room = await createTestRoom([alice]);
+    const message = await send(alice, room, { content: "renew the certificate" });
+
+    const created = await app.request(alice, "POST", `/api/messages/${message.id}/reminders`, { remindAt: inAnHour() });
+    const listed = await app.request(alice, "GET", "/api/reminders");
+
+    expect(created.status).toBe(201);
+    expect(listed.body).toEqual([
+      expect.objectContaining({ id: created.body.id, roomName: room.name, messagePreview: "renew the certificate" }),
+    ]);
+    expect((await app.request(alice, "DELETE", `/api/reminders/${created.body.id}`)).status).toBe(204);
+    expect((await app.request(alice, "GET", "/api/reminders")).body).toEqual([]);
+  });
+
+  it("belong to the person who set them", async () => {
+    const [alice, bob] = [await createTestUser("alice"), await createTestUser("bob")];
+    const room = await createTestRoom([alice, bob]);
+    const message = await send(alice, room, { content: "renew the certificate" });
+    const created = await app.request(alice, "POST", `/api/messages/${message.id}/reminders`, { remindAt: inAnHour() });
+
+    expect((await app.request(bob, "GET", "/api/reminders")).body).toEqual([]);
+    expect((await app.request(bob, "DELETE", `/api/reminders/${created.body.id}`)).status).toBe(404);
+  });
+
+  it("must be in the future", async () => {
+    const alice = await createTestUser("alice");
+    const message = await send(alice, await createTestRoom([alice]), { content: "renew the certificate" });
+
+    const response = await app.request(alice, "POST", `/api/messages/${message.id}/reminders`, { remindAt: new Date(Date.now() - 1000).toISOString() });
+
+    expect(response).toMatchObject({ status: 400, body: { error: "Pick a time in the future" } });
+  });
+});
+
+describe("scheduled messages", () => {
+  const inAnHour = () => new Date(Date.now() + 60 * 60 * 1000).toISOString();
+
+  async function schedule(user: User, room: Room, content: string) {
+    return app.request(user, "POST", `/api/rooms/${room.id}/scheduled-messages`, { content, sendAt: inAnHour() });
+  }
+
+  it("can be listed, edited and cancelled by their author", async () => {
+    const alice = await createTestUser("alice");
+    const room = await createTestRoom([alice]);
+    const created = await schedule(alice, room, "standup in 5");
+
+    const edited = await app.request(alice, "PATCH", `/api/scheduled-messages/${created.body.id}`, { content: "standup in 10" });
+    const listed = await app.request(alice, "GET", `/api/rooms/${room.id}/scheduled-messages`);
+
+    expect(created.status).toBe(201);
+    expect(edited.body).toMatchObject({ id: created.body.id, content: "standup in 10" });
+    expect(listed.body).toEqual([expect.objectContaining({ id: created.body.id, content: "standup in 10" })]);
+    expect((await app.request(alice, "DELETE", `/api/scheduled-messages/${created.body.id}`)).status).toBe(204);
+    expect((await app.request(alice, "GET", `/api/rooms/${room.id}/scheduled-messages`)).body).toEqual([]);
+  });
+
+  it("are hidden from everyone else", async () => {
+    const [alice, bob] = [await createTestUser("alice"), await createTestUser("bob")];
+    const room = await createTestRoom([alice, bob]);
+    const created = await schedule(alice, room, "standup in 5");
+
+    expect((await app.request(bob, "GET", `/api/rooms/${room.id}/scheduled-messages`)).body).toEqual([]);
+    expect((await app.request(bob, "PATCH", `/api/scheduled-messages/${created.body.id}`, { content: "no standup" })).status).toBe(404);
+    expect((await app.request(bob, "DELETE", `/api/scheduled-messages/${created.body.id}`)).status).toBe(404);
+  });
+
+  it("follow the same rules as posting now", async () => {
+    const [alice, eve] = [await createTestUser("alice"), await createTestUser("eve")];
+    const room = await createTestRoom([alice], { isPublic: false, maxMessageLength: 10 });
+
+    expect((await schedule(eve, room, "let me in")).status).toBe(403);
+    expect((await schedule(alice, room, "far too long for this room")).status).toBe(400);
+    const past = await app.request(alice, "POST", `/api/rooms/${room.id}/scheduled-messages`, { content: "hi", sendAt: new Date(Date.now() - 1000).toISOString() });
+    expect(past.body.error).toBe("Pick a time in the future");
+  });
+});
+
+describe("bots", () => {
+  async function createBot(owner: User, username = `bot-${keyword()}`) {
+    const response = await app.request(owner, "POST", "/api/bots", { username });
+    expect(response.status).toBe(201);
+    return response.body as { id: number; username: string; token: string };
+  }
+
+  it("post with their token under their own name", async () => {
+    const alice = await createTestUser("alice");
+    const room = await createTestRoom([alice]);
+    const bot = await createBot(alice);
+
+    const response = await app.requestWithToken(bot.token, "POST", `/api/rooms/${room.id}/messages`, { roomId: room.id, content: "beep" });
+
+    expect(response.status).toBe(201);
+    expect(response.body.user).toMatchObject({ id: bot.id, username: bot.username, isBot: true });
+  });
+
+  it("are listed for their owner only", async () => {
+    const [alice, bob] = [await createTestUser("alice"), await createTestUser("bob")];
+    const bot = await createBot(alice);
+
+    expect((await app.request(alice, "GET", "/api/bots")).body).toEqual([expect.objectContaining({ id: bot.id })]);
+    expect((await app.request(bob, "GET", "/api/bots")).body).toEqual([]);
+    expect((await app.request(bob, "POST", `/api/bots/${bot.id}/token`)).status).toBe(404);
+    expect((await app.request(bob, "DELETE", `/api/bots/${bot.id}`)).status).toBe(404);
+  });
+
+  it("lose access with the old token once it is rotated or the bot is deleted", async () => {
+    const alice = await createTestUser("alice");
+    const bot = await createBot(alice);
+
+    const rotated = await app.request(alice, "POST", `/api/bots/${bot.id}/token`);
+
+    expect((await app.requestWithToken(bot.token, "GET", "/api/rooms")).status).toBe(401);
+    expect((await app.requestWithToken(rotated.body.token, "GET", "/api/rooms")).status).toBe(200);
+    await app.request(alice, "DELETE", `/api/bots/${bot.id}`);
+    expect((await app.requestWithToken(rotated.body.token, "GET", "/api/rooms")).status).toBe(401);
+  });
+
+  it("cannot create bots of their own", async () => {
+    const alice = await createTestUser("alice");
+    const bot = await createBot(alice);
+
+    expect((await app.requestWithToken(bot.token, "POST", "/api/bots", { username: `bot-${keyword()}` })).status).toBe(403);
+  });
+});
@@ -2,7 +2,7 @@ import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { setupAuth } from "./auth";
 import { storage } from "./storage";
-import { insertRoomSchema, insertMessageSchema, updateUserSchema, UserRole } from "@shared/schema";
+import { insertRoomSchema, roomSettingsSchema, createIncomingWebhookSchema, incomingWebhookMessageSchema, createOutgoingWebhookSchema, createBotSchema, MAX_BOTS_PER_USER, messageLengthLimit, DEFAULT_MESSAGE_LENGTH, MAX_MESSAGE_LENGTH_CEILING, insertMessageSchema, insertThreadReplySchema, reactionSchema, pollVoteSchema, scheduleMessageSchema, updateScheduledMessageSchema, createReminderSchema, saveDraftSchema, deleteMessageSchema, searchQuerySchema, markReadSchema, updateUserSchema, createDirectMessageSchema, fileTypeAllowlist, uploadLimitBytes, fileExtension, MAX_UPLOAD_MB_CEILING, UserRole, type Message, type MessageWithUser, type MessageDraft, type ScheduledMessage, type User, type Room, type Bot, type MessageLimits } from "@shared/schema";
 import { scrypt, timingSafeEqual } from "crypto";
 import { promisify } from "util";
 import multer from "multer";
@@ -17,8 +17,22 @@ import * as schema from "@shared/schema";
 import { pool } from './db';
 import passport from 'passport';
 import { storeRoomCode, validateRoomCode } from './room-codes';
+import { setupWebSocket, broadcastToRoom, revalidateRoomSockets, refreshUserSockets } from './websocket';
+import { MAX_MESSAGE_PAGE_SIZE, type MessageCursor } from './storage';
+import { startMessagePurgeJob, restoreCutoff } from './message-purge';
+import { isCommand, executeCommand, listCommands, type PollDraft } from './commands';
+import { generateWebhookSecret, emitRoomEvent, emitMessageEvent, userSummary, startWebhookDeliveryJob } from './outgoing-webhooks';
+import { webhookUrl, takeWebhookSlot, webhookRetryAfter } from './incoming-webhooks';
+import { generateSecretToken, hashSecretToken, secretTokenMatches } from './lib/tokens';
+import { startScheduledMessageJob } from './scheduled-messages';
+import { startReminderJob } from './reminders';
+import { startMessageExpiryJob } from './message-expiry';
+import { uploaderOf } from './uploads';
 
-async function logMessageToFile(roomName: string, logEntry: string) {
+// Disappearing messages are never written to the logs, so pass the message
+// the entry is about
+async function logMessageToFile(roomName: string, logEntry: string, message?: Pick<Message, "expiresAt">) {
+  if (message?.expiresAt) return;
   try {
     const sanitizedRoomName = roomName.replace(/[^a-zA-Z0-9]/g, '_');
     const logDir = path.join(process.cwd(), 'Chat Logs');
@@ -43,6 +57,22 @@ function canChangeUsername(lastChange: Date | null): boolean {
 
 const scryptAsync = promisify(scrypt);
 
+function isMediaMimeType(mimetype: string) {
+  return mimetype.startsWith('image/') || mimetype.startsWith('video/') || mimetype.startsWith('audio/');
+}
+
+// Uploads the chat shows inline; anything else is only offered as a download
+const INLINE_UPLOAD_EXTENSIONS = /\.(png|jpe?g|gif|mp4|webm|mov|mp3|m4a|aac|ogg|wav)$/i;
+
+// The composer sends the room id ahead of the file, so its rules apply. Only
+// a room the uploader can post in may be named.
+async function uploadRoom(req: express.Request): Promise<{ room?: Room } | { status: number; error: string }> {
+  if (req.body?.roomId === undefined) return {};
+  const room = await storage.getRoom(parseInt(req.body.roomId));
+  if (!room || !req.user) return { status: 404, error: 'Room not found' };
+  return (await checkCanPost(req.user, room)) ?? { room };
+}
+
 const upload = multer({
   storage: multer.diskStorage({
     destination: function (req, file, cb) {
@@ -56,21 +86,30 @@ const upload = multer({
     },
     filename: function (req, file, cb) {
       const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
-      const filename = uniqueSuffix + path.extname(file.originalname);
+      const filename = `u${req.user?.id}-${uniqueSuffix}${path.extname(file.originalname)}`;
       console.log('Generated filename:', filename);
       cb(null, filename);
     }
   }),
   fileFilter: function (req, file, cb) {
     console.log('Received file:', file.originalname, 'Type:', file.mimetype);
-    if (file.mimetype.startsWith('image/') || file.mimetype.startsWith('video/')) {
+    if (isMediaMimeType(file.mimetype)) {
       cb(null, true);
-    } else {
-      cb(new Error('Invalid file type'), false);
+      return;
     }
+    uploadRoom(req).then((target) => {
+      if ("error" in target) return cb(new Error(target.error));
+      const extension = fileExtension(file.originalname);
+      if (extension && fileTypeAllowlist(target.room ?? { allowedFileTypes: null }).includes(extension)) {
+        cb(null, true);
+      } else {
+        cb(new Error(extension ? `.${extension} files are not allowed here` : 'Invalid file type'));
+      }
+    }, (error) => cb(error));
   },
+  // Rooms set their own limit, checked once the file is in
   limits: {
-    fileSize: 5 * 1024 * 1024
+    fileSize: MAX_UPLOAD_MB_CEILING * 1024 * 1024
   }
 });
 
@@ -82,8 +121,301 @@ function generateInviteCode(roomId: number): string {
   return roomId.toString();
 }
 
+// The owner only reads other people's whispers when this is switched on
+const WHISPERS_VISIBLE_TO_OWNER = process.env.WHISPERS_VISIBLE_TO_OWNER === 'true';
+
+function canSeeAllWhispers(user: User): boolean {
+  return WHISPERS_VISIBLE_TO_OWNER && user.role === UserRole.OWNER;
+}
+
+const WEBHOOK_DELIVERY_LOG_SIZE = 50;
+
+// Room creators and the application owner manage a room's settings and integrations
+function canManageRoom(user: User, room: Room): boolean {
+  return user.role === UserRole.OWNER || room.createdById === user.id;
+}
+
+function isModerator(user: User): boolean {
+  return user.role === UserRole.OWNER || user.role === UserRole.ADMIN || user.role === UserRole.MODERATOR;
+}
+
+function presentBot(bot: User): Bot {
+  return { id: bot.id, username: bot.username, avatarUrl: bot.avatarUrl, suspended: bot.suspended };
+}
+
+// A live bot the user created, or any bot for the owner. Other people's bots
+// are reported as missing.
+async function findManagedBot(user: User, botId: number): Promise<User | null> {
+  const bot = await storage.getUser(botId);
+  if (!bot?.isBot || !bot.botTokenHash) return null;
+  return user.role === UserRole.OWNER || bot.botOwnerId === user.id ? bot : null;
+}
+
+type WhisperFields = { userId: number; whisperToId: number | null; parentId: number | null };
+
+// A reply is as private as the message that started its thread, so the
+// parent's author and recipient decide who may read it
+async function visibilityOf(message: WhisperFields): Promise<WhisperFields> {
+  if (message.parentId === null) return message;
+  return (await storage.getMessageWithUser(message.parentId)) ?? message;
+}
+
+function canReadWhisper(user: User, visibility: WhisperFields): boolean {
+  return visibility.whisperToId === null ||
+    user.id === visibility.userId || user.id === visibility.whisperToId || canSeeAllWhispers(user);
+}
+
+async function canReadMessage(user: User, message: WhisperFields): Promise<boolean> {
+  return canReadWhisper(user, await visibilityOf(message));
+}
+
+// Whispers, and replies in a whisper's thread, are never sent to outgoing webhooks
+async function isPrivateMessage(message: WhisperFields): Promise<boolean> {
+  return (await visibilityOf(message)).whisperToId !== null;
+}
+
+// Restricts socket delivery of a whisper, or a reply to one, to the users
+// allowed to read it
+async function whisperAudience(message: WhisperFields) {
+  const visibility = await visibilityOf(message);
+  if (visibility.whisperToId === null) return undefined;
+  return (user: User) => canReadWhisper(user, visibility);
+}
+
+// Rules shared by every route that writes a message into a room
+async function checkCanPost(user: User, room: Room): Promise<{ status: number; error: string } | null> {
+  if (user.muted && (!user.mutedUntil || new Date(user.mutedUntil) > new Date())) {
+    return { status: 403, error: `You are muted. Reason: ${user.mutedReason ?? "No reason provided"}` };
+  }
+  if (!room.isPublic && !(await storage.isRoomMember(room.id, user.id))) {
+    return {
+      status: 403,
+      error: room.isDirect ? 'Not a participant in this conversation' : 'You are not a member of this room',
+    };
+  }
+  return null;
+}
+
+function checkMessageLength(room: Room, content: string | undefined): string | null {
+  const limit = messageLengthLimit(room);
+  return content && content.length > limit ? `Message cannot exceed ${limit} characters` : null;
+}
+
+// Messages name their files by URL, so the room's upload rules are checked
+// again here: only the sender's own uploads, of an allowed type and within the
+// room's size limit, can be attached
+async function checkAttachments(user: User, room: Room, urls: string[]): Promise<{ status: number; error: string } | null> {
+  const limit = uploadLimitBytes(room);
+  for (const url of urls) {
+    const fileName = path.basename(url);
+    const stats = url === `/uploads/${fileName}` && uploaderOf(fileName) === user.id
+      ? await fs.stat(path.join(process.cwd(), 'uploads', fileName)).catch(() => null)
+      : null;
+    if (!stats) {
+      return { status: 400, error: 'Attachments must be files you uploaded' };
+    }
+    const extension = fileExtension(fileName);
+    if (!INLINE_UPLOAD_EXTENSIONS.test(fileName) && !fileTypeAllowlist(room).includes(extension)) {
+      return { status: 400, error: extension ? `.${extension} files are not allowed here` : 'Invalid file type' };
+    }
+    if (stats.size > limit) {
+      return { status: 413, error: `Files in this room cannot exceed ${limit / (1024 * 1024)} MB` };
+    }
+  }
+  return null;
+}
+
+// Deleted messages are tombstones; only moderators still see what they said
+function presentMessage(user: User, message: MessageWithUser): MessageWithUser {
+  if (!message.deletedAt || isModerator(user)) return message;
+  return {
+    ...message,
+    content: null,
+    mediaUrl: null,
+    mediaType: null,
+    mediaMetadata: null,
+    attachments: undefined,
+    poll: undefined,
+    deleteReason: null,
+    reactions: [],
+  };
+}
+
+// Reactions need the same read access as the message itself
+async function findReactableMessage(user: User, messageId: number) {
+  const message = await storage.getMessageWithUser(messageId);
+  const room = message && await storage.getRoom(message.roomId);
+  if (!message || message.deletedAt || !room || !(await canReadMessage(user, message))) return null;
+  if (!room.isPublic && !(await storage.isRoomMember(room.id, user.id))) return null;
+  return message;
+}
+
+async function canReadUpload(user: User, fileName: string): Promise<boolean> {
+  if (uploaderOf(fileName) === user.id) return true;
+  const { isAvatar, messageIds } = await storage.getUploadReferences(`/uploads/${fileName}`);
+  if (isAvatar) return true;
+  for (const messageId of messageIds) {
+    if (await findReactableMessage(user, messageId)) return true;
+  }
+  return false;
+}
+
+// Every new top-level message goes through here, whether it was typed in the
+// composer or sent later by the scheduler
+async function postMessage(
+  user: User,
+  room: Room,
+  input: MessageDraft,
+  // Runs as soon as the message exists, before anything that could still fail
+  onCreated?: (message: Message) => Promise<void>
+): Promise<{ message: MessageWithUser } | { notice: string } | { status: number; error: string }> {
+  const restriction = await checkCanPost(user, room);
+  if (restriction) return restriction;
+  let draft = input;
+  let poll: PollDraft | undefined;
+  if (isCommand(draft.content)) {
+    const outcome = await executeCommand(draft.content, { user, room });
+    if ("error" in outcome) {
+      return { status: outcome.status, error: outcome.error };
+    }
+    if ("notice" in outcome.result) return { notice: outcome.result.notice };
+    draft = { ...draft, ...outcome.result };
+    poll = outcome.result.poll;
+  }
+  const lengthError = checkMessageLength(room, draft.content);
+  if (lengthError) {
+    return { status: 400, error: lengthError };
+  }
+  const attachmentUrls = (draft.attachments ?? []).map(attachment => attachment.url);
+  const attachmentError = await checkAttachments(user, room, draft.mediaUrl ? [draft.mediaUrl, ...attachmentUrls] : attachmentUrls);
+  if (attachmentError) return attachmentError;
+  let whisperRecipient: User | undefined;
+  if (draft.whisperTo) {
+    whisperRecipient = await storage.getUserByUsername(draft.whisperTo);
+    if (!whisperRecipient || !(await storage.isRoomMember(room.id, whisperRecipient.id))) {
+      return { status: 400, error: `${draft.whisperTo} is not a member of this room` };
+    }
+    if (whisperRecipient.id === user.id) {
+      return { status: 400, error: "You cannot whisper to yourself" };
+    }
+  }
+  const message = await storage.createMessage({
+    content: draft.content || "",
+    mediaUrl: draft.mediaUrl || null,
+    mediaType: draft.mediaType || null,
+    mediaMetadata: draft.mediaMetadata || null,
+    roomId: room.id,
+    userId: user.id,
+    whisperToId: whisperRecipient?.id ?? null,
+  });
+  await onCreated?.(message);
+  if (poll) {
+    await storage.createPoll({ messageId: message.id, ...poll });
+  }
+  const attachments = await storage.createAttachments(message.id, draft.attachments ?? []);
+  const [messageWithUser] = await db
+    .select()
+    .from(schema.messages)
+    .innerJoin(schema.users, eq(schema.messages.userId, schema.users.id))
+    .where(eq(schema.messages.id, message.id));
+  if (!messageWithUser) {
+    throw new Error('Message not found after creation');
+  }
+  await logMessageToFile(
+    room.name,
+    `NEW MESSAGE - User: ${messageWithUser.users.username}, Content: ${message.content}${
+      message.mediaUrl ? `, Media: ${message.mediaUrl}` : ''
+    }${
+      attachments.length > 0 ? `, Attachments: ${attachments.map(a => a.url).join(' ')}` : ''
+    }`,
+    message
+  );
+  const pollSummary = poll ? (await storage.getPollSummaries([message.id])).get(message.id) : undefined;
+  const formattedMessage = {
+    id: messageWithUser.messages.id,
+    content: messageWithUser.messages.content,
+    mediaUrl: messageWithUser.messages.mediaUrl,
+    mediaType: messageWithUser.messages.mediaType,
+    mediaMetadata: messageWithUser.messages.mediaMetadata,
+    roomId: messageWithUser.messages.roomId,
+    userId: messageWithUser.messages.userId,
+    createdAt: messageWithUser.messages.createdAt,
+    parentId: messageWithUser.messages.parentId,
+    whisperToId: messageWithUser.messages.whisperToId,
+    whisperTo: whisperRecipient?.username ?? null,
+    expiresAt: messageWithUser.messages.expiresAt,
+    poll: pollSummary,
+    attachments: attachments.length > 0 ? attachments : undefined,
+    user: {
+      id: messageWithUser.users.id,
+      username: messageWithUser.users.username,
+      isOnline: messageWithUser.users.isOnline,
+      lastSeen: messageWithUser.users.lastSeen,
+      avatarUrl: messageWithUser.users.avatarUrl,
+      role: messageWithUser.users.role,
+      suspended: messageWithUser.users.suspended,
+      suspendedAt: messageWithUser.users.suspendedAt,
+      suspendedReason: messageWithUser.users.suspendedReason,
+      isBot: messageWithUser.users.isBot
+    }
+  };
+  broadcastToRoom({
+    type: "message:created",
+    roomId: formattedMessage.roomId,
+    message: formattedMessage as MessageWithUser,
+  }, await whisperAudience(formattedMessage));
+  emitMessageEvent("message.created", message, user);
+  return { message: formattedMessage as MessageWithUser };
+}
+
+const SPECIAL_MENTIONS = ["everyone", "admin", "mod"];
+
+// The composer reports mentions itself after posting; the scheduler has no
+// composer, so it records them here
+async function recordMentions(author: User, room: Room, messageId: number, content: string) {
+  const usernames = new Set(
+    Array.from(content.matchAll(/@([^@\s]+)(?=\s|$)/g), (match) => match[1])
+      .filter((username) => !SPECIAL_MENTIONS.includes(username.toLowerCase()))
+  );
+  for (const username of Array.from(usernames)) {
+    const mentionedUser = await storage.getUserByUsername(username);
+    if (mentionedUser && mentionedUser.id !== author.id && await storage.isRoomMember(room.id, mentionedUser.id)) {
+      await db.insert(schema.unreadMentions).values({
+        userId: mentionedUser.id,
+        messageId,
+        roomId: room.id,
+        createdAt: new Date(),
+      });
+    }
+  }
+}
+
+async function sendScheduledMessage(user: User, room: Room, scheduled: ScheduledMessage) {
+  // Once the message is posted the schedule is done, even if recording its
+  // mentions fails, so it is never posted twice
+  const outcome = await postMessage(
+    user,
+    room,
+    { content: scheduled.content, roomId: room.id },
+    () => storage.deleteScheduledMessage(scheduled.id)
+  );
+  if ("error" in outcome) return { error: outcome.error };
+  if ("notice" in outcome) return null;
+  await recordMentions(user, room, outcome.message.id, scheduled.content);
+  return null;
+}
+
+// Accepts either a message id ("123") or an ISO timestamp
+function parseMessageCursor(value: unknown): MessageCursor | undefined | null {
+  if (value === undefined || value === '') return undefined;
+  if (typeof value !== 'string') return null;
+  if (/^\d+$/.test(value)) return { id: parseInt(value) };
+  const timestamp = new Date(value);
+  return isNaN(timestamp.getTime()) ? null : { timestamp };
+}
+
 export function registerRoutes(app: Express): Server {
-  setupAuth(app);
+  const sessionParser = setupAuth(app);
   const uploadDir = path.join(process.cwd(), 'uploads');
   console.log('Initializing upload directory:', uploadDir);
   if (!fsSync.existsSync(uploadDir)) {
@@ -98,28 +430,34 @@ export function registerRoutes(app: Express): Server {
     console.log(`CORS preflight request handled for ${req.method} ${req.url}`);
     next();
   });
-  app.use('/uploads', (req, res, next) => {
-    console.log('Serving file:', req.url, 'from uploads directory');
-    next();
-  }, express.static(uploadDir, {
-    setHeaders: (res, filePath) => {
-      if (filePath.endsWith('.png')) {
-        res.setHeader('Content-Type', 'image/png');
-      } else if (filePath.endsWith('.jpg') || filePath.endsWith('.jpeg')) {
-        res.setHeader('Content-Type', 'image/jpeg');
-      } else if (filePath.endsWith('.gif')) {
-        res.setHeader('Content-Type', 'image/gif');
-      } else if (filePath.endsWith('.mp4')) {
-        res.setHeader('Content-Type', 'video/mp4');
-      } else if (filePath.endsWith('.mov')) {
-        res.setHeader('Content-Type', 'video/quicktime');
-      }
-      res.setHeader('Cache-Control', 'no-cache, no-store, must-revalidate');
-      res.setHeader('Pragma', 'no-cache');
-      res.setHeader('Expires', '0');
-    }
-  }));
-  app.post("/api/upload", upload.single('file'), (req, res) => {
+  // Uploads are only served to people who can see where they are used
+  app.get("/uploads/:fileName", async (req, res) => {
+    console.log(`GET request received for ${req.url}`);
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      const fileName = path.basename(req.params.fileName);
+      if (!(await canReadUpload(req.user, fileName))) return res.status(404).json({ error: 'File not found' });
+      if (!INLINE_UPLOAD_EXTENSIONS.test(fileName)) {
+        // Other attachments are never rendered by the browser
+        res.setHeader('Content-Disposition', 'attachment');
+      }
+      res.setHeader('Cache-Control', 'private, no-cache');
+      res.sendFile(path.join(uploadDir, fileName), (error) => {
+        if (error && !res.headersSent) res.status(404).json({ error: 'File not found' });
+      });
+    } catch (error) {
+      console.error('Error serving upload:', error);
+      res.status(500).json({ error: 'Failed to load file' });
+    }
+  });
+  app.post("/api/upload", (req, res, next) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    // Rejected types and oversized files are the uploader's problem, not a server error
+    upload.single('file')(req, res, (error: unknown) => {
+      if (error) return res.status(400).json({ error: error instanceof Error ? error.message : 'Upload failed' });
+      next();
+    });
+  }, async (req, res) => {
     console.log('Upload request received');
     console.log("Request body:", req.body);
     console.log("Request file:", req.file);
@@ -128,6 +466,16 @@ export function registerRoutes(app: Express): Server {
       return res.status(400).json({ error: "No file uploaded" });
     }
     try {
+      const target = await uploadRoom(req);
+      if ("error" in target) {
+        await fs.unlink(req.file.path);
+        return res.status(target.status).json({ error: target.error });
+      }
+      const limit = uploadLimitBytes(target.room ?? { maxUploadMb: null });
+      if (req.file.size > limit) {
+        await fs.unlink(req.file.path);
+        return res.status(413).json({ error: `Files in this room cannot exceed ${limit / (1024 * 1024)} MB` });
+      }
       fsSync.chmodSync(req.file.path, 0o644);
       console.log('File uploaded successfully:', {
         filename: req.file.filename,
@@ -138,30 +486,74 @@ export function registerRoutes(app: Express): Server {
       });
       const fileUrl = `/uploads/${req.file.filename}`;
       console.log('Generated file URL:', fileUrl);
-      res.json({ url: fileUrl });
+      res.json({
+        url: fileUrl,
+        fileName: req.file.originalname,
+        fileSize: req.file.size,
+        mimeType: req.file.mimetype,
+      });
     } catch (error) {
       console.error('Error during file upload:', error);
       res.status(500).json({ error: 'Failed to process uploaded file' });
     }
   });
+  // Attachments are always downloaded rather than opened in the browser, under
+  // the name they were uploaded with
+  app.get("/api/messages/:messageId/download", async (req, res) => {
+    console.log(`GET request received for ${req.url}`);
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      const message = await findReactableMessage(req.user, parseInt(req.params.messageId));
+      if (!message?.mediaUrl?.startsWith('/uploads/')) return res.status(404).json({ error: 'File not found' });
+      const filePath = path.join(uploadDir, path.basename(message.mediaUrl));
+      const fileName = message.mediaMetadata?.fileName ?? path.basename(message.mediaUrl);
+      res.download(filePath, fileName, (error) => {
+        if (error && !res.headersSent) res.status(404).json({ error: 'File not found' });
+      });
+    } catch (error) {
+      console.error('Error downloading file:', error);
+      res.status(500).json({ error: 'Failed to download file' });
+    }
+  });
+  app.get("/api/attachments/:attachmentId/download", async (req, res) => {
+    console.log(`GET request received for ${req.url}`);
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      const attachment = await storage.getAttachment(parseInt(req.params.attachmentId));
+      const message = attachment && await findReactableMessage(req.user, attachment.messageId);
+      if (!attachment || !message || !attachment.url.startsWith('/uploads/')) {
+        return res.status(404).json({ error: 'File not found' });
+      }
+      const filePath = path.join(uploadDir, path.basename(attachment.url));
+      const fileName = attachment.metadata?.fileName ?? path.basename(attachment.url);
+      res.download(filePath, fileName, (error) => {
+        if (error && !res.headersSent) res.status(404).json({ error: 'File not found' });
+      });
+    } catch (error) {
+      console.error('Error downloading attachment:', error);
+      res.status(500).json({ error: 'Failed to download file' });
+    }
+  });
   app.get("/api/rooms", async (req, res) => {
     console.log(`GET request received for ${req.url}`);
     if (!req.isAuthenticated()) return res.sendStatus(401);
     try {
       const allRooms = await storage.getRooms();
       console.log('All rooms:', allRooms);
+      const readStates = await storage.getReadStates(req.user.id);
       const roomsWithMembers = await Promise.all(
         allRooms.map(async (room) => {
           const members = await storage.getRoomMembers(room.id);
-          return { ...room, participants: members };
+          return { ...room, participants: members, ...readStates.get(room.id) };
         })
       );
       console.log('Rooms with members:', roomsWithMembers);
-      const accessibleRooms = roomsWithMembers.filter(room =>
-        room.isPublic ||
-        room.participants.some(p => p.id === req.user.id) ||
-        req.user.role === UserRole.OWNER
-      );
+      const accessibleRooms = roomsWithMembers.filter(room => {
+        const isParticipant = room.participants.some(p => p.id === req.user.id);
+        // Direct conversations are only ever listed for their participants
+        if (room.isDirect) return isParticipant;
+        return room.isPublic || isParticipant || req.user.role === UserRole.OWNER;
+      });
       console.log('Accessible rooms:', accessibleRooms);
       res.json(accessibleRooms);
     } catch (error) {
@@ -211,15 +603,46 @@ export function registerRoutes(app: Express): Server {
       const userId = req.user.id;
       const isMember = await storage.isRoomMember(roomId, userId);
       if (!isMember) {
+        const room = await storage.getRoom(roomId);
+        if (room?.isDirect) {
+          return res.status(403).json({ error: 'Not a participant in this conversation' });
+        }
         await storage.joinRoom(roomId, userId);
+        broadcastToRoom({ type: "members:changed", roomId });
+        emitRoomEvent(roomId, "member.joined", { user: userSummary(req.user) });
+      }
+      const before = parseMessageCursor(req.query.before);
+      const after = parseMessageCursor(req.query.after);
+      if (before === null || after === null) {
+        return res.status(400).json({ error: 'Cursors must be a message id or an ISO timestamp' });
       }
-      const messages = await storage.getMessages(parseInt(req.params.roomId));
-      res.json(messages);
+      const limit = req.query.limit !== undefined ? parseInt(req.query.limit as string) : undefined;
+      if (limit !== undefined && (isNaN(limit) || limit < 1 || limit > MAX_MESSAGE_PAGE_SIZE)) {
+        return res.status(400).json({ error: `Limit must be between 1 and ${MAX_MESSAGE_PAGE_SIZE}` });
+      }
+      const messages = await storage.getMessages(roomId, {
+        before,
+        after,
+        limit,
+        viewer: { id: userId, seeAllWhispers: canSeeAllWhispers(req.user) },
+      });
+      res.json(messages.map(message => presentMessage(req.user, message)));
     } catch (error) {
       console.error('Error fetching messages:', error);
       res.status(500).json({ error: 'Failed to fetch messages' });
     }
   });
+  app.get("/api/message-limits", async (req, res) => {
+    console.log(`GET request received for ${req.url}`);
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    const limits: MessageLimits = { defaultLength: DEFAULT_MESSAGE_LENGTH, maxLength: MAX_MESSAGE_LENGTH_CEILING };
+    res.json(limits);
+  });
+  app.get("/api/commands", async (req, res) => {
+    console.log(`GET request received for ${req.url}`);
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    res.json(listCommands(req.user));
+  });
   app.post("/api/rooms/:roomId/messages", async (req, res) => {
     console.log(`POST request received for ${req.url}`);
     if (!req.isAuthenticated()) return res.sendStatus(401);
@@ -229,58 +652,167 @@ export function registerRoutes(app: Express): Server {
       return res.status(400).json(parsed.error);
     }
     try {
-      const message = await storage.createMessage({
-        content: parsed.data.content || "",
-        mediaUrl: parsed.data.mediaUrl || null,
-        mediaType: parsed.data.mediaType || null,
-        roomId: parseInt(req.params.roomId),
-        userId: req.user.id,
-      });
-      const [messageWithUser] = await db
-        .select()
-        .from(schema.messages)
-        .innerJoin(schema.users, eq(schema.messages.userId, schema.users.id))
-        .where(eq(schema.messages.id, message.id));
-      if (!messageWithUser) {
-        throw new Error('Message not found after creation');
+      const roomId = parseInt(req.params.roomId);
+      const room = await storage.getRoom(roomId);
+      if (!room) {
+        return res.status(404).json({ error: 'Room not found' });
       }
-      const [room] = await db
-        .select()
-        .from(schema.rooms)
-        .where(eq(schema.rooms.id, parseInt(req.params.roomId)));
-      await logMessageToFile(
-        room.name,
-        `NEW MESSAGE - User: ${messageWithUser.users.username}, Content: ${message.content}${
-          message.mediaUrl ? `, Media: ${message.mediaUrl}` : ''
-        }`
-      );
-      const formattedMessage = {
-        id: messageWithUser.messages.id,
-        content: messageWithUser.messages.content,
-        mediaUrl: messageWithUser.messages.mediaUrl,
-        mediaType: messageWithUser.messages.mediaType,
-        roomId: messageWithUser.messages.roomId,
-        userId: messageWithUser.messages.userId,
-        createdAt: messageWithUser.messages.createdAt,
-        user: {
-          id: messageWithUser.users.id,
-          username: messageWithUser.users.username,
-          password: messageWithUser.users.password,
-          isOnline: messageWithUser.users.isOnline,
-          lastSeen: messageWithUser.users.lastSeen,
-          avatarUrl: messageWithUser.users.avatarUrl,
-          role: messageWithUser.users.role,
-          suspended: messageWithUser.users.suspended,
-          suspendedAt: messageWithUser.users.suspendedAt,
-          suspendedReason: messageWithUser.users.suspendedReason
-        }
-      };
-      res.status(201).json(formattedMessage);
+      const outcome = await postMessage(req.user, room, parsed.data);
+      if ("error" in outcome) {
+        return res.status(outcome.status).json({ error: outcome.error });
+      }
+      if ("notice" in outcome) return res.json({ notice: outcome.notice });
+      res.status(201).json(outcome.message);
     } catch (error) {
       console.error('Error creating message:', error);
       res.status(500).json({ error: 'Error creating message' });
     }
   });
+  app.get("/api/reminders", async (req, res) => {
+    console.log(`GET request received for ${req.url}`);
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      res.json(await storage.getReminders(req.user.id));
+    } catch (error) {
+      console.error('Error fetching reminders:', error);
+      res.status(500).json({ error: 'Failed to fetch reminders' });
+    }
+  });
+  app.post("/api/messages/:messageId/reminders", async (req, res) => {
+    console.log(`POST request received for ${req.url}`);
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    const parsed = createReminderSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.errors[0].message });
+    try {
+      const message = await findReactableMessage(req.user, parseInt(req.params.messageId));
+      if (!message) return res.status(404).json({ error: 'Message not found' });
+      const reminder = await storage.createReminder({
+        userId: req.user.id,
+        roomId: message.roomId,
+        messageId: message.id,
+        remindAt: parsed.data.remindAt,
+      });
+      res.status(201).json(reminder);
+    } catch (error) {
+      console.error('Error creating reminder:', error);
+      res.status(500).json({ error: 'Failed to create reminder' });
+    }
+  });
+  app.delete("/api/reminders/:reminderId", async (req, res) => {
+    console.log(`DELETE request received for ${req.url}`);
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      const cancelled = await storage.cancelReminder(parseInt(req.params.reminderId), req.user.id);
+      if (!cancelled) return res.status(404).json({ error: 'Reminder not found' });
+      res.sendStatus(204);
+    } catch (error) {
+      console.error('Error cancelling reminder:', error);
+      res.status(500).json({ error: 'Failed to cancel reminder' });
+    }
+  });
+  app.get("/api/drafts", async (req, res) => {
+    console.log(`GET request received for ${req.url}`);
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      res.json(await storage.getDrafts(req.user.id));
+    } catch (error) {
+      console.error('Error fetching drafts:', error);
+      res.status(500).json({ error: 'Failed to fetch drafts' });
+    }
+  });
+  app.put("/api/rooms/:roomId/draft", async (req, res) => {
+    console.log(`PUT request received for ${req.url}`);
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    const parsed = saveDraftSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.errors[0].message });
+    try {
+      const room = await storage.getRoom(parseInt(req.params.roomId));
+      if (!room) return res.status(404).json({ error: 'Room not found' });
+      if (!room.isPublic && !(await storage.isRoomMember(room.id, req.user.id))) {
+        return res.status(403).json({ error: 'You are not a member of this room' });
+      }
+      if (parsed.data.content.trim()) {
+        await storage.saveDraft(req.user.id, room.id, parsed.data.content);
+      } else {
+        await storage.deleteDraft(req.user.id, room.id);
+      }
+      res.sendStatus(204);
+    } catch (error) {
+      console.error('Error saving draft:', error);
+      res.status(500).json({ error: 'Failed to save draft' });
+    }
+  });
+  app.get("/api/rooms/:roomId/scheduled-messages", async (req, res) => {
+    console.log(`GET request received for ${req.url}`);
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      const roomId = parseInt(req.params.roomId);
+      res.json(await storage.getScheduledMessages(req.user.id, roomId));
+    } catch (error) {
+      console.error('Error fetching scheduled messages:', error);
+      res.status(500).json({ error: 'Failed to fetch scheduled messages' });
+    }
+  });
+  app.post("/api/rooms/:roomId/scheduled-messages", async (req, res) => {
+    console.log(`POST request received for ${req.url}`);
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    const parsed = scheduleMessageSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.errors[0].message });
+    try {
+      const room = await storage.getRoom(parseInt(req.params.roomId));
+      if (!room) return res.status(404).json({ error: 'Room not found' });
+      const restriction = await checkCanPost(req.user, room);
+      if (restriction) {
+        return res.status(restriction.status).json({ error: restriction.error });
+      }
+      // Commands are checked when they run, since their output can differ
+      const lengthError = !isCommand(parsed.data.content) && checkMessageLength(room, parsed.data.content);
+      if (lengthError) return res.status(400).json({ error: lengthError });
+      const scheduled = await storage.createScheduledMessage({
+        roomId: room.id,
+        userId: req.user.id,
+        content: parsed.data.content,
+        sendAt: parsed.data.sendAt,
+      });
+      res.status(201).json(scheduled);
+    } catch (error) {
+      console.error('Error scheduling message:', error);
+      res.status(500).json({ error: 'Failed to schedule message' });
+    }
+  });
+  app.patch("/api/scheduled-messages/:scheduledId", async (req, res) => {
+    console.log(`PATCH request received for ${req.url}`);
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    const parsed = updateScheduledMessageSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.errors[0].message });
+    try {
+      const scheduledId = parseInt(req.params.scheduledId);
+      const existing = await storage.getScheduledMessage(scheduledId, req.user.id);
+      if (!existing) return res.status(404).json({ error: 'Scheduled message not found' });
+      const { content } = parsed.data;
+      if (content !== undefined && !isCommand(content)) {
+        const room = await storage.getRoom(existing.roomId);
+        const lengthError = room && checkMessageLength(room, content);
+        if (lengthError) return res.status(400).json({ error: lengthError });
+      }
+      res.json(await storage.updateScheduledMessage(scheduledId, req.user.id, parsed.data));
+    } catch (error) {
+      console.error('Error updating scheduled message:', error);
+      res.status(500).json({ error: 'Failed to update scheduled message' });
+    }
+  });
+  app.delete("/api/scheduled-messages/:scheduledId", async (req, res) => {
+    console.log(`DELETE request received for ${req.url}`);
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      const cancelled = await storage.cancelScheduledMessage(parseInt(req.params.scheduledId), req.user.id);
+      if (!cancelled) return res.status(404).json({ error: 'Scheduled message not found' });
+      res.sendStatus(204);
+    } catch (error) {
+      console.error('Error cancelling scheduled message:', error);
+      res.status(500).json({ error: 'Failed to cancel scheduled message' });
+    }
+  });
   app.patch("/api/messages/:messageId", async (req, res) => {
     console.log(`PATCH request received for ${req.url}`);
     if (!req.isAuthenticated()) return res.sendStatus(401);
@@ -294,6 +826,17 @@ export function registerRoutes(app: Express): Server {
         .select()
         .from(schema.messages)
         .where(eq(schema.messages.id, messageId));
+      if (!originalMessage) {
+        return res.status(404).send("Message not found");
+      }
+      if (await storage.getPoll(messageId)) {
+        return res.status(400).send("Polls cannot be edited");
+      }
+      const messageRoom = await storage.getRoom(originalMessage.roomId);
+      const lengthError = messageRoom && checkMessageLength(messageRoom, content);
+      if (lengthError) {
+        return res.status(400).send(lengthError);
+      }
       const updatedMessage = await storage.updateMessage(messageId, req.user.id, content, req.user.role as UserRoleType);
       const [room] = await db
         .select()
@@ -302,23 +845,227 @@ export function registerRoutes(app: Express): Server {
       await logMessageToFile(
         room.name,
         `EDITED MESSAGE - User: ${req.user.username}, MessageID: ${messageId}, ` +
-          `Original: "${originalMessage.content}", New: "${content}"`
+          `Original: "${originalMessage.content}", New: "${content}"`,
+        updatedMessage
       );
-      res.json(updatedMessage);
+      // Re-read with the editor's name so clients can attribute the edit
+      const messageWithUser = await storage.getMessageWithUser(messageId);
+      const messageWithEditor = messageWithUser ?? updatedMessage;
+      broadcastToRoom(
+        { type: "message:updated", roomId: updatedMessage.roomId, message: messageWithEditor },
+        await whisperAudience(updatedMessage)
+      );
+      if (messageWithUser && !(await isPrivateMessage(updatedMessage))) {
+        emitMessageEvent("message.edited", updatedMessage, messageWithUser.user);
+      }
+      res.json(messageWithEditor);
     } catch (error) {
       if (error instanceof Error && error.message === "Unauthorized") {
         res.status(403).send("Not authorized to edit this message");
+      } else if (error instanceof Error && error.message === "Message not found") {
+        res.status(404).send("Message not found");
       } else {
         console.error("Error updating message:", error);
         res.status(500).send("Internal server error");
       }
     }
   });
+  app.get("/api/messages/:messageId/revisions", async (req, res) => {
+    console.log(`GET request received for ${req.url}`);
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      const message = await storage.getMessageWithUser(parseInt(req.params.messageId));
+      if (!message || !(await canReadMessage(req.user, message)) || (message.deletedAt && !isModerator(req.user))) {
+        return res.status(404).json({ error: 'Message not found' });
+      }
+      if (message.userId !== req.user.id && !isModerator(req.user)) {
+        return res.status(403).json({ error: 'Only the author and moderators can view edit history' });
+      }
+      const revisions = await storage.getMessageRevisions(message.id);
+      res.json({ current: message, revisions });
+    } catch (error) {
+      console.error('Error fetching message revisions:', error);
+      res.status(500).json({ error: 'Failed to fetch edit history' });
+    }
+  });
+  app.post("/api/messages/:messageId/reactions", async (req, res) => {
+    console.log(`POST request received for ${req.url}`);
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    const parsed = reactionSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.errors[0].message });
+    try {
+      const message = await findReactableMessage(req.user, parseInt(req.params.messageId));
+      if (!message) return res.status(404).json({ error: 'Message not found' });
+      const { emoji } = parsed.data;
+      if (await storage.addReaction(message.id, req.user.id, emoji)) {
+        broadcastToRoom(
+          {
+            type: "reaction:changed",
+            roomId: message.roomId,
+            messageId: message.id,
+            parentId: message.parentId,
+            userId: req.user.id,
+            emoji,
+            added: true,
+          },
+          await whisperAudience(message)
+        );
+      }
+      const reactions = await storage.getReactionSummaries([message.id], req.user.id);
+      res.json({ reactions: reactions.get(message.id) ?? [] });
+    } catch (error) {
+      console.error('Error adding reaction:', error);
+      res.status(500).json({ error: 'Error adding reaction' });
+    }
+  });
+  app.delete("/api/messages/:messageId/reactions/:emoji", async (req, res) => {
+    console.log(`DELETE request received for ${req.url}`);
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      const message = await findReactableMessage(req.user, parseInt(req.params.messageId));
+      if (!message) return res.status(404).json({ error: 'Message not found' });
+      const emoji = req.params.emoji;
+      if (await storage.removeReaction(message.id, req.user.id, emoji)) {
+        broadcastToRoom(
+          {
+            type: "reaction:changed",
+            roomId: message.roomId,
+            messageId: message.id,
+            parentId: message.parentId,
+            userId: req.user.id,
+            emoji,
+            added: false,
+          },
+          await whisperAudience(message)
+        );
+      }
+      const reactions = await storage.getReactionSummaries([message.id], req.user.id);
+      res.json({ reactions: reactions.get(message.id) ?? [] });
+    } catch (error) {
+      console.error('Error removing reaction:', error);
+      res.status(500).json({ error: 'Error removing reaction' });
+    }
+  });
+  app.post("/api/messages/:messageId/poll/votes", async (req, res) => {
+    console.log(`POST request received for ${req.url}`);
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    const parsed = pollVoteSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.errors[0].message });
+    try {
+      const message = await findReactableMessage(req.user, parseInt(req.params.messageId));
+      const poll = message && await storage.getPoll(message.id);
+      if (!message || !poll) return res.status(404).json({ error: 'Poll not found' });
+      if (poll.closesAt && poll.closesAt <= new Date()) {
+        return res.status(400).json({ error: 'This poll is closed' });
+      }
+      const options = Array.from(new Set(parsed.data.options));
+      if (options.some(option => option >= poll.options.length)) {
+        return res.status(400).json({ error: 'Unknown poll option' });
+      }
+      if (!poll.multipleChoice && options.length > 1) {
+        return res.status(400).json({ error: 'This poll only allows one choice' });
+      }
+      await storage.setPollVotes(poll.id, req.user.id, options);
+
+      const summary = (await storage.getPollSummaries([message.id], req.user.id)).get(message.id)!;
+      // Everyone else keeps their own picks; only the counts change for them
+      const { myVotes: _myVotes, ...results } = summary;
+      const voterId = req.user.id;
+      const audience = await whisperAudience(message);
+      broadcastToRoom(
+        {
+          type: "poll:updated",
+          roomId: message.roomId,
+          messageId: message.id,
+          parentId: message.parentId,
+          poll: results,
+        },
+        (user) => user.id !== voterId && (audience?.(user) ?? true)
+      );
+      res.json({ poll: summary });
+    } catch (error) {
+      console.error('Error voting in poll:', error);
+      res.status(500).json({ error: 'Error voting in poll' });
+    }
+  });
+  app.get("/api/messages/:messageId/thread", async (req, res) => {
+    console.log(`GET request received for ${req.url}`);
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      const parent = await storage.getMessageWithUser(parseInt(req.params.messageId));
+      const room = parent && await storage.getRoom(parent.roomId);
+      if (!parent || !room || parent.parentId !== null || !(await canReadMessage(req.user, parent))) {
+        return res.status(404).json({ error: 'Thread not found' });
+      }
+      if (!room.isPublic && !(await storage.isRoomMember(room.id, req.user.id))) {
+        return res.status(403).json({ error: 'You are not a member of this room' });
+      }
+      const [parentWithDetails] = await storage.withMessageDetails([parent], req.user.id);
+      const replies = await storage.getThreadReplies(parent.id, req.user.id);
+      res.json({
+        parent: presentMessage(req.user, parentWithDetails),
+        replies: replies.map(reply => presentMessage(req.user, reply)),
+      });
+    } catch (error) {
+      console.error('Error fetching thread:', error);
+      res.status(500).json({ error: 'Failed to fetch thread' });
+    }
+  });
+  app.post("/api/messages/:messageId/thread", async (req, res) => {
+    console.log(`POST request received for ${req.url}`);
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    const parsed = insertThreadReplySchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.errors[0].message });
+    try {
+      const parent = await storage.getMessageWithUser(parseInt(req.params.messageId));
+      const room = parent && await storage.getRoom(parent.roomId);
+      if (!parent || parent.deletedAt || !room || parent.parentId !== null || !(await canReadMessage(req.user, parent))) {
+        return res.status(404).json({ error: 'Thread not found' });
+      }
+      const restriction = await checkCanPost(req.user, room);
+      if (restriction) {
+        return res.status(restriction.status).json({ error: restriction.error });
+      }
+      const lengthError = checkMessageLength(room, parsed.data.content);
+      if (lengthError) {
+        return res.status(400).json({ error: lengthError });
+      }
+      const reply = await storage.createMessage({
+        content: parsed.data.content,
+        roomId: room.id,
+        userId: req.user.id,
+        parentId: parent.id,
+      });
+      const replyWithUser = await storage.getMessageWithUser(reply.id);
+      if (!replyWithUser) {
+        throw new Error('Message not found after creation');
+      }
+      await logMessageToFile(
+        room.name,
+        `NEW THREAD REPLY - User: ${req.user.username}, Parent: ${parent.id}, Content: ${reply.content}`,
+        reply
+      );
+      const thread = (await storage.getThreadSummaries([parent.id])).get(parent.id)!;
+      broadcastToRoom(
+        { type: "thread:replied", roomId: room.id, parentId: parent.id, message: replyWithUser, thread },
+        await whisperAudience(parent)
+      );
+      if (parent.whisperToId === null) {
+        emitMessageEvent("message.created", reply, req.user);
+      }
+      res.status(201).json(replyWithUser);
+    } catch (error) {
+      console.error('Error creating thread reply:', error);
+      res.status(500).json({ error: 'Error creating thread reply' });
+    }
+  });
   app.delete("/api/rooms/:roomId", async (req, res) => {
     console.log(`DELETE request received for ${req.url}`);
     if (!req.isAuthenticated()) return res.sendStatus(401);
     try {
-      await storage.deleteRoom(parseInt(req.params.roomId), req.user.id, req.user.role as UserRoleType);
+      const roomId = parseInt(req.params.roomId);
+      await storage.deleteRoom(roomId, req.user.id, req.user.role as UserRoleType);
+      await revalidateRoomSockets(roomId);
       res.sendStatus(200);
     } catch (error) {
       if (error instanceof Error && error.message === "Unauthorized") {
@@ -363,6 +1110,10 @@ export function registerRoutes(app: Express): Server {
         return res.status(404).json({ error: "Room not found" });
       }
 
+      if (room.isDirect) {
+        return res.status(403).json({ error: "Direct conversations cannot be joined" });
+      }
+
       const storedCode = room.inviteCode?.toString().trim() || '';
       console.log('Room details:', {
         roomId: room.id,
@@ -375,7 +1126,11 @@ export function registerRoutes(app: Express): Server {
       // If the room is public, allow joining without code
       if (room.isPublic) {
         console.log('Public room - allowing join without code');
-        await storage.joinRoom(roomId, userId);
+        const joined = await storage.joinRoom(roomId, userId);
+        broadcastToRoom({ type: "members:changed", roomId });
+        if (joined) {
+          emitRoomEvent(roomId, "member.joined", { user: userSummary(req.user) });
+        }
         const members = await storage.getRoomMembers(roomId);
         return res.json(members.map(member => ({
           id: member.id,
@@ -384,7 +1139,8 @@ export function registerRoutes(app: Express): Server {
           lastSeen: member.lastSeen,
           avatarUrl: member.avatarUrl,
           role: member.role,
-          suspended: member.suspended
+          suspended: member.suspended,
+          isBot: member.isBot
         })));
       }
 
@@ -415,8 +1171,12 @@ export function registerRoutes(app: Express): Server {
       }
 
       // Join the room
-      await storage.joinRoom(roomId, userId);
+      const joined = await storage.joinRoom(roomId, userId);
       console.log(`User ${userId} joined room ${roomId}`);
+      broadcastToRoom({ type: "members:changed", roomId });
+      if (joined) {
+        emitRoomEvent(roomId, "member.joined", { user: userSummary(req.user) });
+      }
 
       // Return updated member list
       const members = await storage.getRoomMembers(roomId);
@@ -427,7 +1187,8 @@ export function registerRoutes(app: Express): Server {
         lastSeen: member.lastSeen,
         avatarUrl: member.avatarUrl,
         role: member.role,
-        suspended: member.suspended
+        suspended: member.suspended,
+        isBot: member.isBot
       }));
 
       console.log('Returning updated member list:', safeMembers);
@@ -437,6 +1198,119 @@ export function registerRoutes(app: Express): Server {
       res.status(500).json({ error: 'Failed to join room' });
     }
   });
+  app.get("/api/search", async (req, res) => {
+    console.log(`GET request received for ${req.url}`);
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    const parsed = searchQuerySchema.safeParse(req.query);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.errors[0].message });
+    try {
+      const { q, roomId, author, from, to, hasMedia, limit } = parsed.data;
+      let authorId: number | undefined;
+      if (author) {
+        const authorUser = await storage.getUserByUsername(author.replace(/^@/, ''));
+        if (!authorUser) return res.json([]);
+        authorId = authorUser.id;
+      }
+      const results = await storage.searchMessages({
+        text: q,
+        roomId,
+        authorId,
+        from,
+        to,
+        hasMedia,
+        limit,
+        viewer: {
+          id: req.user.id,
+          seeAllWhispers: canSeeAllWhispers(req.user),
+          seeAllRooms: req.user.role === UserRole.OWNER,
+        },
+      });
+      res.json(results);
+    } catch (error) {
+      console.error('Error searching messages:', error);
+      res.status(500).json({ error: 'Failed to search messages' });
+    }
+  });
+  app.post("/api/direct-messages", async (req, res) => {
+    console.log(`POST request received for ${req.url}`);
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    const parsed = createDirectMessageSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.errors[0].message });
+    try {
+      const otherIds = Array.from(new Set(parsed.data.userIds)).filter(id => id !== req.user.id);
+      if (otherIds.length === 0) {
+        return res.status(400).json({ error: "Pick at least one other person" });
+      }
+      const participants = [req.user as User];
+      for (const id of otherIds) {
+        const participant = await storage.getUser(id);
+        if (!participant || participant.suspended) {
+          return res.status(404).json({ error: "User not found" });
+        }
+        participants.push(participant);
+      }
+      const room = await storage.findOrCreateDirectRoom(participants, req.user.id);
+      const members = await storage.getRoomMembers(room.id);
+      res.status(201).json({
+        ...room,
+        participants: members.map(member => ({
+          id: member.id,
+          username: member.username,
+          isOnline: member.isOnline,
+          lastSeen: member.lastSeen,
+          avatarUrl: member.avatarUrl,
+          role: member.role,
+          suspended: member.suspended,
+          isBot: member.isBot
+        })),
+      });
+    } catch (error) {
+      console.error('Error opening direct conversation:', error);
+      res.status(500).json({ error: 'Failed to open direct conversation' });
+    }
+  });
+  app.post("/api/rooms/:roomId/read", async (req, res) => {
+    console.log(`POST request received for ${req.url}`);
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    const parsed = markReadSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.errors[0].message });
+    try {
+      const roomId = parseInt(req.params.roomId);
+      if (!(await storage.isRoomMember(roomId, req.user.id))) {
+        return res.status(403).json({ error: 'You are not a member of this room' });
+      }
+      const lastReadMessageId = await storage.markRoomRead(roomId, req.user.id, parsed.data.messageId);
+      if (lastReadMessageId !== null && req.user.sendReadReceipts) {
+        broadcastToRoom({
+          type: "read:updated",
+          roomId,
+          receipt: {
+            user: { id: req.user.id, username: req.user.username, avatarUrl: req.user.avatarUrl },
+            lastReadMessageId,
+          },
+        });
+      }
+      res.sendStatus(204);
+    } catch (error) {
+      console.error('Error updating read position:', error);
+      res.status(500).json({ error: 'Failed to update read position' });
+    }
+  });
+  app.get("/api/rooms/:roomId/read-receipts", async (req, res) => {
+    console.log(`GET request received for ${req.url}`);
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      const roomId = parseInt(req.params.roomId);
+      if (!(await storage.isRoomMember(roomId, req.user.id))) {
+        return res.status(403).json({ error: 'You are not a member of this room' });
+      }
+      const receipts = await storage.getReadReceipts(roomId);
+      res.json(receipts.filter(receipt => receipt.user.id !== req.user.id));
+    } catch (error) {
+      console.error('Error fetching read receipts:', error);
+      res.status(500).json({ error: 'Failed to fetch read receipts' });
+    }
+  });
   app.post("/api/rooms/:roomId/leave", async (req, res) => {
     console.log(`POST request received for ${req.url}`);
     if (!req.isAuthenticated()) return res.sendStatus(401);
@@ -448,6 +1322,11 @@ export function registerRoutes(app: Express): Server {
       if (members.length === 0) {
         await storage.deleteRoom(roomId, userId);
       }
+      await revalidateRoomSockets(roomId);
+      if (members.length > 0) {
+        broadcastToRoom({ type: "members:changed", roomId });
+        emitRoomEvent(roomId, "member.left", { user: userSummary(req.user) });
+      }
       res.sendStatus(200);
     } catch (error) {
       console.error('Error leaving room:', error);
@@ -468,7 +1347,8 @@ export function registerRoutes(app: Express): Server {
         lastSeen: member.lastSeen,
         avatarUrl: member.avatarUrl,
         role: member.role,
-        suspended: member.suspended
+        suspended: member.suspended,
+        isBot: member.isBot
       }));
       res.json(safeMembers);
     } catch (error) {
@@ -489,7 +1369,8 @@ export function registerRoutes(app: Express): Server {
         lastSeen: user.lastSeen,
         avatarUrl: user.avatarUrl,
         role: user.role,
-        suspended: user.suspended
+        suspended: user.suspended,
+        isBot: user.isBot
       }));
       res.json(safeUsers);
     } catch (error) {
@@ -508,7 +1389,7 @@ export function registerRoutes(app: Express): Server {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     const parsed = updateUserSchema.safeParse(req.body);
     if (!parsed.success) return res.status(400).send(parsed.error.message);
-    const { currentPassword, newPassword, username, avatarUrl } = parsed.data;
+    const { currentPassword, newPassword, username, avatarUrl, sendReadReceipts } = parsed.data;
     if (currentPassword) {
       const user = await storage.getUser(req.user.id);
       if (!user || !(await comparePasswords(currentPassword, user.password))) {
@@ -533,6 +1414,7 @@ export function registerRoutes(app: Express): Server {
         username,
         password: newPassword,
         avatarUrl,
+        sendReadReceipts,
         lastUsernameChange: username !== req.user.username ? new Date() : null,
       });
       res.json(updatedUser);
@@ -545,6 +1427,7 @@ export function registerRoutes(app: Express): Server {
     console.log(`DELETE request received for ${req.url}`);
     if (!req.isAuthenticated()) return res.sendStatus(401);
     await storage.deleteUser(req.user.id);
+    await refreshUserSockets(req.user.id);
     req.logout((err) => {
       if (err) return res.status(500).send("Error during logout");
       res.sendStatus(200);
@@ -566,7 +1449,8 @@ export function registerRoutes(app: Express): Server {
         lastSeen: user.lastSeen,
         avatarUrl: user.avatarUrl,
         role: user.role,
-        suspended: user.suspended
+        suspended: user.suspended,
+        isBot: user.isBot
       }));
       res.json(safeUsers);
     } catch (error) {
@@ -582,6 +1466,7 @@ export function registerRoutes(app: Express): Server {
         return res.status(400).json({ message: "Duration and reason are required" });
       }
       const user = await storage.muteUser(userId, duration, reason);
+      await refreshUserSockets(userId);
       res.json(user);
     } catch (error) {
       res.status(500).json({ message: "Failed to mute user" });
@@ -591,6 +1476,7 @@ export function registerRoutes(app: Express): Server {
     try {
       const userId = parseInt(req.params.userId);
       const user = await storage.unmuteUser(userId);
+      await refreshUserSockets(userId);
       res.json(user);
     } catch (error) {
       res.status(500).json({ message: "Failed to unmute user" });
@@ -604,6 +1490,7 @@ export function registerRoutes(app: Express): Server {
         return res.status(400).json({ message: "Invalid role" });
       }
       const updatedUser = await storage.updateUserRole(userId, newRole);
+      await refreshUserSockets(userId);
       res.json(updatedUser);
     } catch (error) {
       res.status(500).json({ message: "Failed to update user role" });
@@ -614,6 +1501,7 @@ export function registerRoutes(app: Express): Server {
       const userId = parseInt(req.params.userId);
       const reason = req.body.reason || "No reason provided";
       const user = await storage.suspendUser(userId, reason);
+      await refreshUserSockets(userId);
       res.json(user);
     } catch (error) {
       res.status(500).json({ message: "Failed to suspend user" });
@@ -623,40 +1511,176 @@ export function registerRoutes(app: Express): Server {
     try {
       const userId = parseInt(req.params.userId);
       const user = await storage.unsuspendUser(userId);
+      await refreshUserSockets(userId);
       res.json(user);
     } catch (error) {
       res.status(500).json({ message: "Failed to unsuspend user" });
     }
   });
+  app.get("/api/bots", async (req, res) => {
+    console.log(`GET request received for ${req.url}`);
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      // The owner oversees every bot; everyone else sees their own
+      const bots = await storage.getBots(req.user.role === UserRole.OWNER ? undefined : req.user.id);
+      res.json(bots.map(presentBot));
+    } catch (error) {
+      console.error('Error fetching bots:', error);
+      res.status(500).json({ error: 'Failed to fetch bots' });
+    }
+  });
+  app.post("/api/bots", async (req, res) => {
+    console.log(`POST request received for ${req.url}`);
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    if (req.user.isBot) {
+      return res.status(403).json({ error: 'Bots cannot create bots' });
+    }
+    const parsed = createBotSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.errors[0].message });
+    try {
+      if ((await storage.getBots(req.user.id)).length >= MAX_BOTS_PER_USER) {
+        return res.status(400).json({ error: `You can have at most ${MAX_BOTS_PER_USER} bots` });
+      }
+      if (await storage.getUserByUsername(parsed.data.username)) {
+        return res.status(400).json({ error: 'Username already exists' });
+      }
+      const token = generateSecretToken();
+      const bot = await storage.createBot({
+        username: parsed.data.username,
+        avatarUrl: parsed.data.avatarUrl ?? null,
+        botTokenHash: hashSecretToken(token),
+        botOwnerId: req.user.id,
+      });
+      // The token is only ever shown here; we keep nothing but its hash
+      res.status(201).json({ ...presentBot(bot), token });
+    } catch (error) {
+      console.error('Error creating bot:', error);
+      res.status(500).json({ error: 'Failed to create bot' });
+    }
+  });
+  app.post("/api/bots/:botId/token", async (req, res) => {
+    console.log(`POST request received for ${req.url}`);
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      const bot = await findManagedBot(req.user, parseInt(req.params.botId));
+      if (!bot) return res.status(404).json({ error: 'Bot not found' });
+      const token = generateSecretToken();
+      // Replacing the hash invalidates the old token immediately
+      if (!(await storage.setBotTokenHash(bot.id, hashSecretToken(token)))) {
+        return res.status(404).json({ error: 'Bot not found' });
+      }
+      res.json({ token });
+    } catch (error) {
+      console.error('Error rotating bot token:', error);
+      res.status(500).json({ error: 'Failed to rotate bot token' });
+    }
+  });
+  app.delete("/api/bots/:botId", async (req, res) => {
+    console.log(`DELETE request received for ${req.url}`);
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      const bot = await findManagedBot(req.user, parseInt(req.params.botId));
+      if (!bot) return res.status(404).json({ error: 'Bot not found' });
+      // Rooms the bot created stay, along with everyone's messages in them
+      await storage.deleteUser(bot.id);
+      await refreshUserSockets(bot.id);
+      res.sendStatus(204);
+    } catch (error) {
+      console.error('Error deleting bot:', error);
+      res.status(500).json({ error: 'Failed to delete bot' });
+    }
+  });
   app.delete("/api/messages/:messageId", async (req, res) => {
     console.log(`DELETE request received for ${req.url}`);
     if (!req.isAuthenticated()) return res.sendStatus(401);
+    const parsed = deleteMessageSchema.safeParse(req.body ?? {});
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.errors[0].message });
     try {
       const messageId = parseInt(req.params.messageId);
-      const [message] = await db
-        .select()
-        .from(schema.messages)
-        .where(eq(schema.messages.id, messageId));
+      const message = await storage.deleteMessage(
+        messageId,
+        req.user.id,
+        req.user.role as UserRoleType,
+        parsed.data.reason || undefined
+      );
       const [room] = await db
         .select()
         .from(schema.rooms)
         .where(eq(schema.rooms.id, message.roomId));
-      await storage.deleteMessage(messageId, req.user.id, req.user.role as UserRoleType);
       await logMessageToFile(
         room.name,
         `DELETED MESSAGE - User: ${req.user.username}, MessageID: ${messageId}, ` +
-          `Content: "${message.content}"`
+          `Content: "${message.content}", Reason: ${message.deleteReason ?? "none"}`,
+        message
       );
-      res.sendStatus(200);
+      const tombstone = {
+        deletedAt: message.deletedAt,
+        deletedById: message.deletedById,
+        deleteReason: message.deleteReason,
+      };
+      const audience = await whisperAudience(message);
+      const canRead = (user: User) => audience?.(user) ?? true;
+      broadcastToRoom(
+        { type: "message:deleted", roomId: message.roomId, messageId, parentId: message.parentId, tombstone },
+        (user) => canRead(user) && isModerator(user)
+      );
+      broadcastToRoom(
+        {
+          type: "message:deleted",
+          roomId: message.roomId,
+          messageId,
+          parentId: message.parentId,
+          tombstone: { ...tombstone, deleteReason: null },
+        },
+        (user) => canRead(user) && !isModerator(user)
+      );
+      if (!(await isPrivateMessage(message))) {
+        emitRoomEvent(message.roomId, "message.deleted", {
+          messageId,
+          parentId: message.parentId,
+          deletedBy: userSummary(req.user),
+        });
+      }
+      res.json(tombstone);
     } catch (error) {
       if (error instanceof Error && error.message === "Unauthorized") {
         res.status(403).send("Not authorized to delete this message");
+      } else if (error instanceof Error && error.message === "Message not found") {
+        res.status(404).send("Message not found");
       } else {
         console.error("Error deleting message:", error);
         res.status(500).send("Internal server error");
       }
     }
   });
+  app.post("/api/messages/:messageId/restore", requireRole(UserRole.MODERATOR), async (req, res) => {
+    console.log(`POST request received for ${req.url}`);
+    try {
+      const messageId = parseInt(req.params.messageId);
+      const restored = await storage.restoreMessage(messageId, restoreCutoff());
+      const room = await storage.getRoom(restored.roomId);
+      if (room) {
+        await logMessageToFile(
+          room.name,
+          `RESTORED MESSAGE - User: ${req.user!.username}, MessageID: ${messageId}`,
+          restored
+        );
+      }
+      const message = (await storage.getMessageWithUser(messageId)) ?? restored;
+      broadcastToRoom(
+        { type: "message:updated", roomId: restored.roomId, message },
+        await whisperAudience(restored)
+      );
+      res.json(message);
+    } catch (error) {
+      if (error instanceof Error && error.message === "Message not found") {
+        res.status(404).json({ error: 'Message not found or past the restore window' });
+      } else {
+        console.error('Error restoring message:', error);
+        res.status(500).json({ error: 'Error restoring message' });
+      }
+    }
+  });
   app.patch("/api/rooms/:roomId", async (req, res) => {
     console.log(`PATCH request received for ${req.url}`);
     if (!req.isAuthenticated()) return res.sendStatus(401);
@@ -666,7 +1690,15 @@ export function registerRoutes(app: Express): Server {
       if (!name || typeof name !== "string") {
         return res.status(400).send("Room name is required");
       }
+      const previous = await storage.getRoom(roomId);
       const updatedRoom = await storage.updateRoomName(roomId, req.user.id, req.user.role as UserRoleType, name);
+      if (previous && previous.name !== updatedRoom.name) {
+        emitRoomEvent(roomId, "room.renamed", {
+          previousName: previous.name,
+          name: updatedRoom.name,
+          renamedBy: userSummary(req.user),
+        });
+      }
       res.json(updatedRoom);
     } catch (error) {
       if (error instanceof Error && error.message === "Unauthorized") {
@@ -677,6 +1709,220 @@ export function registerRoutes(app: Express): Server {
       }
     }
   });
+  app.patch("/api/rooms/:roomId/settings", async (req, res) => {
+    console.log(`PATCH request received for ${req.url}`);
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    const parsed = roomSettingsSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.errors[0].message });
+    try {
+      const roomId = parseInt(req.params.roomId);
+      const updatedRoom = await storage.updateRoomSettings(roomId, req.user.id, req.user.role as UserRoleType, parsed.data);
+      broadcastToRoom({ type: "room:updated", roomId });
+      await revalidateRoomSockets(roomId);
+      res.json(updatedRoom);
+    } catch (error) {
+      if (error instanceof Error && error.message === "Unauthorized") {
+        res.status(403).json({ error: "Only room creator or owner can change room settings" });
+      } else if (error instanceof Error && error.message === "Room not found") {
+        res.status(404).json({ error: "Room not found" });
+      } else {
+        console.error("Error updating room settings:", error);
+        res.status(500).json({ error: "Failed to update room settings" });
+      }
+    }
+  });
+  app.get("/api/rooms/:roomId/webhooks", async (req, res) => {
+    console.log(`GET request received for ${req.url}`);
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      const room = await storage.getRoom(parseInt(req.params.roomId));
+      if (!room) return res.status(404).json({ error: 'Room not found' });
+      if (!canManageRoom(req.user, room)) {
+        return res.status(403).json({ error: 'Only room creator or owner can manage webhooks' });
+      }
+      res.json(await storage.getIncomingWebhooks(room.id));
+    } catch (error) {
+      console.error('Error fetching webhooks:', error);
+      res.status(500).json({ error: 'Failed to fetch webhooks' });
+    }
+  });
+  app.post("/api/rooms/:roomId/webhooks", async (req, res) => {
+    console.log(`POST request received for ${req.url}`);
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    const parsed = createIncomingWebhookSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.errors[0].message });
+    try {
+      const room = await storage.getRoom(parseInt(req.params.roomId));
+      if (!room) return res.status(404).json({ error: 'Room not found' });
+      if (!canManageRoom(req.user, room)) {
+        return res.status(403).json({ error: 'Only room creator or owner can manage webhooks' });
+      }
+      const token = generateSecretToken();
+      const webhook = await storage.createIncomingWebhook({
+        roomId: room.id,
+        createdById: req.user.id,
+        name: parsed.data.name,
+        avatarUrl: parsed.data.avatarUrl ?? null,
+        tokenHash: hashSecretToken(token),
+      });
+      // The token is only ever shown here; we keep nothing but its hash
+      res.status(201).json({
+        ...webhook,
+        url: webhookUrl(`${req.protocol}://${req.get('host')}`, webhook.id, token),
+      });
+    } catch (error) {
+      console.error('Error creating webhook:', error);
+      res.status(500).json({ error: 'Failed to create webhook' });
+    }
+  });
+  app.delete("/api/rooms/:roomId/webhooks/:webhookId", async (req, res) => {
+    console.log(`DELETE request received for ${req.url}`);
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      const room = await storage.getRoom(parseInt(req.params.roomId));
+      if (!room) return res.status(404).json({ error: 'Room not found' });
+      if (!canManageRoom(req.user, room)) {
+        return res.status(403).json({ error: 'Only room creator or owner can manage webhooks' });
+      }
+      const revoked = await storage.revokeIncomingWebhook(room.id, parseInt(req.params.webhookId));
+      if (!revoked) return res.status(404).json({ error: 'Webhook not found' });
+      res.sendStatus(204);
+    } catch (error) {
+      console.error('Error revoking webhook:', error);
+      res.status(500).json({ error: 'Failed to revoke webhook' });
+    }
+  });
+  app.get("/api/rooms/:roomId/outgoing-webhooks", async (req, res) => {
+    console.log(`GET request received for ${req.url}`);
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      const room = await storage.getRoom(parseInt(req.params.roomId));
+      if (!room) return res.status(404).json({ error: 'Room not found' });
+      if (!canManageRoom(req.user, room)) {
+        return res.status(403).json({ error: 'Only room creator or owner can manage webhooks' });
+      }
+      res.json(await storage.getOutgoingWebhooks(room.id));
+    } catch (error) {
+      console.error('Error fetching outgoing webhooks:', error);
+      res.status(500).json({ error: 'Failed to fetch outgoing webhooks' });
+    }
+  });
+  app.post("/api/rooms/:roomId/outgoing-webhooks", async (req, res) => {
+    console.log(`POST request received for ${req.url}`);
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    const parsed = createOutgoingWebhookSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.errors[0].message });
+    try {
+      const room = await storage.getRoom(parseInt(req.params.roomId));
+      if (!room) return res.status(404).json({ error: 'Room not found' });
+      if (!canManageRoom(req.user, room)) {
+        return res.status(403).json({ error: 'Only room creator or owner can manage webhooks' });
+      }
+      const webhook = await storage.createOutgoingWebhook({
+        roomId: room.id,
+        createdById: req.user.id,
+        url: parsed.data.url,
+        secret: generateWebhookSecret(),
+        events: Array.from(new Set(parsed.data.events)),
+      });
+      // The signing secret is only returned on creation
+      res.status(201).json(webhook);
+    } catch (error) {
+      console.error('Error creating outgoing webhook:', error);
+      res.status(500).json({ error: 'Failed to create outgoing webhook' });
+    }
+  });
+  app.delete("/api/rooms/:roomId/outgoing-webhooks/:webhookId", async (req, res) => {
+    console.log(`DELETE request received for ${req.url}`);
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      const room = await storage.getRoom(parseInt(req.params.roomId));
+      if (!room) return res.status(404).json({ error: 'Room not found' });
+      if (!canManageRoom(req.user, room)) {
+        return res.status(403).json({ error: 'Only room creator or owner can manage webhooks' });
+      }
+      const deleted = await storage.deleteOutgoingWebhook(room.id, parseInt(req.params.webhookId));
+      if (!deleted) return res.status(404).json({ error: 'Webhook not found' });
+      res.sendStatus(204);
+    } catch (error) {
+      console.error('Error deleting outgoing webhook:', error);
+      res.status(500).json({ error: 'Failed to delete outgoing webhook' });
+    }
+  });
+  app.get("/api/rooms/:roomId/outgoing-webhooks/:webhookId/deliveries", async (req, res) => {
+    console.log(`GET request received for ${req.url}`);
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      const room = await storage.getRoom(parseInt(req.params.roomId));
+      if (!room) return res.status(404).json({ error: 'Room not found' });
+      if (!canManageRoom(req.user, room)) {
+        return res.status(403).json({ error: 'Only room creator or owner can view deliveries' });
+      }
+      const webhookId = parseInt(req.params.webhookId);
+      const webhooks = await storage.getOutgoingWebhooks(room.id);
+      if (!webhooks.some(webhook => webhook.id === webhookId)) {
+        return res.status(404).json({ error: 'Webhook not found' });
+      }
+      res.json(await storage.getWebhookDeliveries(webhookId, WEBHOOK_DELIVERY_LOG_SIZE));
+    } catch (error) {
+      console.error('Error fetching webhook deliveries:', error);
+      res.status(500).json({ error: 'Failed to fetch webhook deliveries' });
+    }
+  });
+  // Called by scripts rather than the browser: the token in the URL is the credential
+  app.post("/api/hooks/:webhookId/:token", async (req, res) => {
+    console.log(`POST request received for incoming webhook ${req.params.webhookId}`);
+    const parsed = incomingWebhookMessageSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.errors[0].message });
+    try {
+      const webhookId = parseInt(req.params.webhookId);
+      const webhook = await storage.getActiveIncomingWebhook(webhookId);
+      if (!webhook || !secretTokenMatches(req.params.token, webhook.tokenHash)) {
+        return res.status(404).json({ error: 'Webhook not found' });
+      }
+      if (!takeWebhookSlot(webhook.id)) {
+        res.setHeader('Retry-After', String(webhookRetryAfter(webhook.id)));
+        return res.status(429).json({ error: 'Too many messages, slow down' });
+      }
+      const room = await storage.getRoom(webhook.roomId);
+      if (!room) return res.status(404).json({ error: 'Webhook not found' });
+      // Messages go out in the creator's name, so the hook can only post
+      // while they still could themselves
+      const creator = await storage.getUser(webhook.createdById);
+      if (!creator || creator.suspended) {
+        return res.status(403).json({ error: 'This webhook can no longer post' });
+      }
+      const restriction = await checkCanPost(creator, room);
+      if (restriction) {
+        return res.status(restriction.status).json({ error: restriction.error });
+      }
+      const lengthError = checkMessageLength(room, parsed.data.content);
+      if (lengthError) {
+        return res.status(400).json({ error: lengthError });
+      }
+      const message = await storage.createMessage({
+        content: parsed.data.content,
+        roomId: room.id,
+        userId: webhook.createdById,
+        webhookId: webhook.id,
+      });
+      const messageWithUser = await storage.getMessageWithUser(message.id);
+      if (!messageWithUser) {
+        throw new Error('Message not found after creation');
+      }
+      await logMessageToFile(
+        room.name,
+        `NEW WEBHOOK MESSAGE - Webhook: ${webhook.name}, Content: ${message.content}`,
+        message
+      );
+      broadcastToRoom({ type: "message:created", roomId: room.id, message: messageWithUser });
+      emitMessageEvent("message.created", message, messageWithUser.user);
+      res.status(201).json({ id: message.id });
+    } catch (error) {
+      console.error('Error posting webhook message:', error);
+      res.status(500).json({ error: 'Failed to post message' });
+    }
+  });
   app.post("/api/login", (req, res, next) => {
     console.log('Login attempt for username:', req.body.username);
     passport.authenticate("local", (err, user, info) => {
@@ -789,6 +2035,12 @@ export function registerRoutes(app: Express): Server {
     }
   });
   const httpServer = createServer(app);
+  setupWebSocket(httpServer, sessionParser);
+  startMessagePurgeJob();
+  startWebhookDeliveryJob();
+  startScheduledMessageJob(sendScheduledMessage);
+  startReminderJob();
+  startMessageExpiryJob();
   return httpServer;
 }
 
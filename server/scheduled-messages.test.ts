@@ -0,0 +1,68 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { eq } from "drizzle-orm";
+import { scheduledMessages, type Room, type User } from "@shared/schema";
+import { db } from "./db";
+import { storage } from "./storage";
+import { startScheduledMessageJob, type ScheduledSender } from "./scheduled-messages";
+import { createTestRoom, createTestUser } from "./test/fixtures";
+
+vi.mock("./db", async () => (await import("./test/db")).createTestDatabase());
+
+let alice: User;
+let room: Room;
+
+beforeEach(async () => {
+  alice = await createTestUser("alice");
+  room = await createTestRoom([alice]);
+});
+
+async function schedule(content: string, sendAt = new Date(Date.now() - 1000)) {
+  return storage.createScheduledMessage({ roomId: room.id, userId: alice.id, content, sendAt });
+}
+
+async function findScheduled(id: number) {
+  const [scheduled] = await db.select().from(scheduledMessages).where(eq(scheduledMessages.id, id));
+  return scheduled;
+}
+
+// The job sends whatever is due once as soon as it starts
+async function runJob(send: ScheduledSender, settled: () => Promise<void>) {
+  startScheduledMessageJob(send);
+  await vi.waitFor(settled, { timeout: 5000 });
+}
+
+describe("scheduled message job", () => {
+  it("sends due messages and forgets them, leaving later ones for later", async () => {
+    const due = await schedule("standup in 5");
+    const later = await schedule("standup tomorrow", new Date(Date.now() + 60 * 60 * 1000));
+    const send = vi.fn<ScheduledSender>(async () => null);
+
+    await runJob(send, async () => expect(await findScheduled(due.id)).toBeUndefined());
+
+    expect(send).toHaveBeenCalledWith(expect.objectContaining({ id: alice.id }), expect.objectContaining({ id: room.id }), due);
+    expect(send).not.toHaveBeenCalledWith(expect.anything(), expect.anything(), later);
+    expect(await findScheduled(later.id)).toBeDefined();
+  });
+
+  it("keeps messages that could not be posted, with the reason", async () => {
+    const scheduled = await schedule("standup in 5");
+
+    await runJob(
+      async () => ({ error: "You are muted. Reason: spam" }),
+      async () => expect((await findScheduled(scheduled.id)).failedAt).not.toBeNull()
+    );
+
+    expect((await findScheduled(scheduled.id)).failureReason).toBe("You are muted. Reason: spam");
+  });
+
+  it("does not post for suspended accounts", async () => {
+    const scheduled = await schedule("standup in 5");
+    await storage.suspendUser(alice.id, "spam");
+    const send = vi.fn<ScheduledSender>(async () => null);
+
+    await runJob(send, async () => expect((await findScheduled(scheduled.id)).failedAt).not.toBeNull());
+
+    expect(send).not.toHaveBeenCalled();
+    expect((await findScheduled(scheduled.id)).failureReason).toBe("The room or account is no longer available");
+  });
+});
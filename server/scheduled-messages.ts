@@ -0,0 +1,54 @@
+import { storage } from "./storage";
+import type { Room, ScheduledMessage, User } from "@shared/schema";
+
+const SCHEDULER_INTERVAL_MS = 15 * 1000;
+const SCHEDULER_BATCH_SIZE = 50;
+
+// Posts through the same path as the composer; returns an error to record
+// when the message can no longer be posted (e.g. the author was muted)
+export type ScheduledSender = (
+  user: User,
+  room: Room,
+  scheduled: ScheduledMessage
+) => Promise<{ error: string } | null>;
+
+let sending = false;
+
+async function sendDueMessages(send: ScheduledSender) {
+  if (sending) return;
+  sending = true;
+  try {
+    const due = await storage.getDueScheduledMessages(new Date(), SCHEDULER_BATCH_SIZE);
+    for (const scheduled of due) {
+      try {
+        const user = await storage.getUser(scheduled.userId);
+        const room = await storage.getRoom(scheduled.roomId);
+        if (!user || user.suspended || !room) {
+          await storage.markScheduledMessageFailed(scheduled.id, "The room or account is no longer available");
+          continue;
+        }
+        const failure = await send(user, room, scheduled);
+        if (failure) {
+          await storage.markScheduledMessageFailed(scheduled.id, failure.error);
+        } else {
+          await storage.deleteScheduledMessage(scheduled.id);
+        }
+      } catch (error) {
+        // Left pending unless the message was already posted, so the next
+        // run tries again
+        console.error(`Error sending scheduled message ${scheduled.id}:`, error);
+      }
+    }
+  } catch (error) {
+    console.error('Error sending scheduled messages:', error);
+  } finally {
+    sending = false;
+  }
+}
+
+export function startScheduledMessageJob(send: ScheduledSender) {
+  void sendDueMessages(send);
+  const timer = setInterval(() => sendDueMessages(send), SCHEDULER_INTERVAL_MS);
+  // Don't keep the process alive just for the scheduler
+  timer.unref();
+}
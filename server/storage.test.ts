@@ -0,0 +1,173 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { eq, inArray } from "drizzle-orm";
+import {
+  UserRole,
+  messageAttachments,
+  messageReactions,
+  messages,
+  polls,
+  rooms,
+  unreadMentions,
+  type Room,
+  type User,
+} from "@shared/schema";
+import { db } from "./db";
+import { storage } from "./storage";
+import { createTestRoom, createTestUser } from "./test/fixtures";
+
+vi.mock("./db", async () => (await import("./test/db")).createTestDatabase());
+
+const LONG_AGO = new Date("2020-01-01T00:00:00Z");
+
+let alice: User;
+let bob: User;
+let room: Room;
+
+beforeEach(async () => {
+  alice = await createTestUser("alice");
+  bob = await createTestUser("bob");
+  room = await createTestRoom([alice, bob]);
+});
+
+async function post(content: string, userId = alice.id, parentId?: number) {
+  return storage.createMessage({ content, roomId: room.id, userId, parentId });
+}
+
+async function mention(userId: number, messageId: number) {
+  await db.insert(unreadMentions).values({ userId, messageId, roomId: room.id });
+}
+
+async function findMessages(ids: number[]) {
+  return db.select().from(messages).where(inArray(messages.id, ids));
+}
+
+async function findMentions(messageIds: number[]) {
+  return db.select().from(unreadMentions).where(inArray(unreadMentions.messageId, messageIds));
+}
+
+async function deleteLongAgo(messageId: number) {
+  await db.update(messages).set({ deletedAt: LONG_AGO }).where(eq(messages.id, messageId));
+}
+
+describe("purgeDeletedMessages", () => {
+  it("removes mentions of a purged message before the message itself", async () => {
+    const message = await post(`hey @${bob.username}`);
+    await mention(bob.id, message.id);
+    await deleteLongAgo(message.id);
+
+    const result = await storage.purgeDeletedMessages(new Date());
+
+    expect(result.purged).toBeGreaterThanOrEqual(1);
+    expect(await findMessages([message.id])).toHaveLength(0);
+    expect(await findMentions([message.id])).toHaveLength(0);
+  });
+
+  it("keeps a tombstone that anchors a thread but scrubs everything it said", async () => {
+    const parent = await storage.createMessage({
+      content: "Lunch?",
+      mediaUrl: `/uploads/u${alice.id}-menu.pdf`,
+      mediaType: "file",
+      mediaMetadata: { fileName: "secret-menu.pdf", fileSize: 1234 },
+      roomId: room.id,
+      userId: alice.id,
+    });
+    await storage.createAttachments(parent.id, [{ url: `/uploads/u${alice.id}-photo.png`, mediaType: "image" }]);
+    await storage.createPoll({
+      messageId: parent.id,
+      question: "Lunch?",
+      options: ["Pizza", "Tacos"],
+      multipleChoice: false,
+      anonymous: false,
+      closesAt: null,
+    });
+    await storage.addReaction(parent.id, bob.id, "👍");
+    const reply = await post("reply", bob.id, parent.id);
+    await deleteLongAgo(parent.id);
+
+    await storage.purgeDeletedMessages(new Date());
+
+    const [tombstone] = await findMessages([parent.id]);
+    expect(tombstone).toMatchObject({ content: null, mediaUrl: null, mediaType: null, mediaMetadata: null });
+    expect(await db.select().from(messageAttachments).where(eq(messageAttachments.messageId, parent.id))).toHaveLength(0);
+    expect(await db.select().from(polls).where(eq(polls.messageId, parent.id))).toHaveLength(0);
+    expect(await db.select().from(messageReactions).where(eq(messageReactions.messageId, parent.id))).toHaveLength(0);
+    expect(await findMessages([reply.id])).toHaveLength(1);
+  });
+
+  it("reports the uploads of purged and scrubbed messages with their authors", async () => {
+    const purged = await storage.createMessage({
+      content: "",
+      mediaUrl: `/uploads/u${bob.id}-clip.mp4`,
+      mediaType: "video",
+      roomId: room.id,
+      userId: bob.id,
+    });
+    const parent = await post("parent");
+    await storage.createAttachments(parent.id, [{ url: `/uploads/u${alice.id}-photo.png`, mediaType: "image" }]);
+    await post("reply", bob.id, parent.id);
+    await deleteLongAgo(purged.id);
+    await deleteLongAgo(parent.id);
+
+    const { media } = await storage.purgeDeletedMessages(new Date());
+
+    expect(media).toEqual(expect.arrayContaining([
+      { url: `/uploads/u${bob.id}-clip.mp4`, userId: bob.id },
+      { url: `/uploads/u${alice.id}-photo.png`, userId: alice.id },
+    ]));
+  });
+
+  it("leaves recently deleted messages alone", async () => {
+    const message = await post("just deleted");
+    await storage.deleteMessage(message.id, alice.id, UserRole.USER);
+
+    await storage.purgeDeletedMessages(LONG_AGO);
+
+    const [tombstone] = await findMessages([message.id]);
+    expect(tombstone.content).toBe("just deleted");
+  });
+});
+
+describe("deleteExpiredMessages", () => {
+  it("removes expired messages with their replies and mentions, and reports their files", async () => {
+    const parent = await post("disappearing");
+    await storage.createAttachments(parent.id, [{ url: `/uploads/u${alice.id}-clip.mp4`, mediaType: "video" }]);
+    const reply = await post(`@${alice.username} reply`, bob.id, parent.id);
+    await mention(alice.id, reply.id);
+    await mention(bob.id, parent.id);
+    const kept = await post("still here");
+    await db.update(messages).set({ expiresAt: LONG_AGO }).where(eq(messages.id, parent.id));
+
+    const removed = await storage.deleteExpiredMessages(new Date(), 100);
+
+    expect(removed).toEqual(expect.arrayContaining([
+      { id: parent.id, roomId: room.id, parentId: null, userId: alice.id, mediaUrls: [`/uploads/u${alice.id}-clip.mp4`] },
+      { id: reply.id, roomId: room.id, parentId: parent.id, userId: bob.id, mediaUrls: [] },
+    ]));
+    expect(await findMessages([parent.id, reply.id])).toHaveLength(0);
+    expect(await findMentions([parent.id, reply.id])).toHaveLength(0);
+    expect(await findMessages([kept.id])).toHaveLength(1);
+  });
+});
+
+describe("deleteRoom", () => {
+  it("deletes a room whose messages have unread mentions", async () => {
+    const message = await post(`hey @${bob.username}`);
+    await mention(bob.id, message.id);
+
+    await storage.deleteRoom(room.id, alice.id, UserRole.USER);
+
+    expect(await db.select().from(rooms).where(eq(rooms.id, room.id))).toHaveLength(0);
+    expect(await findMentions([message.id])).toHaveLength(0);
+  });
+});
+
+describe("deleteUser", () => {
+  it("keeps the rooms the user created along with other members' messages", async () => {
+    const theirs = await post("from bob", bob.id);
+
+    await storage.deleteUser(alice.id);
+
+    expect(await storage.getRoom(room.id)).toBeDefined();
+    expect(await findMessages([theirs.id])).toHaveLength(1);
+  });
+});
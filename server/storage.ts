@@ -1,16 +1,116 @@
 import { IStorage } from "./types";
-import { users, type User, type InsertUser, rooms, type Room, messages, type Message, roomMembers, type RoomMember, UserRole, UserRoleType } from "@shared/schema";
+import { users, type User, type InsertUser, rooms, type Room, type InsertRoom, messages, type Message, type InsertMessage, roomMembers, type RoomMember, UserRole, UserRoleType } from "@shared/schema";
 import { db } from "./db";
-import { eq, and } from "drizzle-orm";
+import { eq, ne, and, or, lt, gt, gte, lte, asc, desc, isNull, isNotNull, inArray, count, max, min, sql, exists, not, getTableColumns, arrayContains, type SQL, type AnyColumn } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
 import session from "express-session";
 import connectPg from "connect-pg-simple";
 import { pool } from "./db";
-import { MessageWithUser } from "@shared/schema";
+import { MessageWithUser, unreadMentions, messageAttachments, type Attachment, type AttachmentInput, messageReactions, messageRevisions, polls, pollVotes, type PollSummary, scheduledMessages, type ScheduledMessage, reminders, type Reminder, type ReminderWithContext, messageDrafts, type Draft, incomingWebhooks, type IncomingWebhook, outgoingWebhooks, webhookDeliveries, type OutgoingWebhook, type WebhookDelivery, MAX_SEARCH_RESULTS, SEARCH_HIGHLIGHT_START, SEARCH_HIGHLIGHT_END, type ThreadSummary, type ReactionSummary, type MessageRevisionWithEditor, type MessageSearchResult, type ReadReceipt, type RoomSettings } from "@shared/schema";
 import { randomBytes } from "crypto";
 import { scryptAsync } from "./lib/scrypt";
 
 const PostgresSessionStore = connectPg(session);
 
+export const DEFAULT_MESSAGE_PAGE_SIZE = 50;
+export const MAX_MESSAGE_PAGE_SIZE = 100;
+
+// An upload that some content pointed at, and who posted that content
+export type MediaReference = { url: string; userId: number };
+
+// A position in a room's history, either a message id or a point in time
+export type MessageCursor = { id: number } | { timestamp: Date };
+
+export interface MessageHistoryOptions {
+  before?: MessageCursor;
+  after?: MessageCursor;
+  limit?: number;
+  // Whispers are only returned to their sender and recipient, or to everyone
+  // when `seeAllWhispers` is set. Without a viewer no whispers are returned.
+  viewer?: { id: number; seeAllWhispers?: boolean };
+}
+
+export interface MessageSearchOptions {
+  text: string;
+  roomId?: number;
+  authorId?: number;
+  from?: Date;
+  to?: Date;
+  hasMedia?: boolean;
+  limit?: number;
+  // Owners can search every room that isn't a direct conversation
+  viewer: { id: number; seeAllWhispers?: boolean; seeAllRooms?: boolean };
+}
+
+const SEARCH_HEADLINE_OPTIONS =
+  `StartSel=${SEARCH_HIGHLIGHT_START}, StopSel=${SEARCH_HIGHLIGHT_END}, MaxWords=25, MinWords=10`;
+
+// Every message column except the search vector, which clients never need
+const { contentSearch: _contentSearch, ...messageColumns } = getTableColumns(messages);
+
+const whisperRecipients = alias(users, "whisper_recipients");
+const messageEditors = alias(users, "message_editors");
+const parentMessages = alias(messages, "parent_messages");
+
+function whisperVisibility(
+  viewer: MessageHistoryOptions["viewer"],
+  message: { userId: AnyColumn; whisperToId: AnyColumn } = messages
+): SQL | undefined {
+  if (viewer?.seeAllWhispers) return undefined;
+  if (!viewer) return isNull(message.whisperToId);
+  return or(
+    isNull(message.whisperToId),
+    eq(message.userId, viewer.id),
+    eq(message.whisperToId, viewer.id)
+  );
+}
+
+// Expired messages stay hidden until the sweeper gets round to deleting them
+function notExpired(): SQL | undefined {
+  return or(isNull(messages.expiresAt), gt(messages.expiresAt, new Date()));
+}
+
+const LAST_REPLIERS_SHOWN = 3;
+
+type MessageRow = {
+  messages: typeof messages.$inferSelect;
+  users: User;
+  whisper_recipients: User | null;
+  message_editors: User | null;
+  incoming_webhooks: typeof incomingWebhooks.$inferSelect | null;
+};
+
+function toMessageWithUser(row: MessageRow): MessageWithUser {
+  const { contentSearch: _search, ...message } = row.messages;
+  return {
+    ...message,
+    whisperTo: row.whisper_recipients?.username ?? null,
+    editedBy: row.message_editors?.username ?? null,
+    webhook: row.incoming_webhooks
+      ? { id: row.incoming_webhooks.id, name: row.incoming_webhooks.name, avatarUrl: row.incoming_webhooks.avatarUrl }
+      : null,
+    user: {
+      id: row.users.id,
+      username: row.users.username,
+      isOnline: row.users.isOnline,
+      lastSeen: row.users.lastSeen,
+      avatarUrl: row.users.avatarUrl,
+      role: row.users.role,
+      suspended: row.users.suspended,
+      suspendedAt: row.users.suspendedAt,
+      suspendedReason: row.users.suspendedReason,
+      isBot: row.users.isBot
+    } as MessageWithUser["user"]
+  };
+}
+
+function cursorCondition(cursor: MessageCursor, direction: "before" | "after"): SQL {
+  const compare = direction === "before" ? lt : gt;
+  return "id" in cursor
+    ? compare(messages.id, cursor.id)
+    : compare(messages.createdAt, cursor.timestamp);
+}
+
 export class DatabaseStorage implements IStorage {
   sessionStore: session.Store;
 
@@ -93,48 +193,434 @@ export class DatabaseStorage implements IStorage {
     return db.select().from(rooms);
   }
 
-  async createRoom(room: Omit<Room, "id" | "createdAt">): Promise<Room> {
+  async getRoom(roomId: number): Promise<Room | undefined> {
+    const [room] = await db.select().from(rooms).where(eq(rooms.id, roomId));
+    return room;
+  }
+
+  async createRoom(room: Omit<InsertRoom, "id" | "createdAt">): Promise<Room> {
     const [newRoom] = await db.insert(rooms).values(room).returning();
     return newRoom;
   }
 
-  async getMessages(roomId: number): Promise<MessageWithUser[]> {
-    const messagesWithUsers = await db
+  // Returns the single direct conversation shared by exactly these users,
+  // creating it (and its memberships) the first time it is needed.
+  async findOrCreateDirectRoom(participants: User[], createdById: number): Promise<Room> {
+    const sorted = [...participants].sort((a, b) => a.id - b.id);
+    const directKey = sorted.map(p => p.id).join(":");
+
+    const [created] = await db
+      .insert(rooms)
+      .values({
+        name: sorted.map(p => p.username).join(", "),
+        createdById,
+        isPublic: false,
+        isDirect: true,
+        directKey,
+      })
+      .onConflictDoNothing({ target: rooms.directKey })
+      .returning();
+
+    let room = created;
+    if (!room) {
+      [room] = await db.select().from(rooms).where(eq(rooms.directKey, directKey));
+      if (!room) throw new Error("Direct conversation not found");
+    }
+
+    // Re-adds anyone who left, so reopening the conversation brings them back
+    for (const participant of sorted) {
+      await this.joinRoom(room.id, participant.id);
+    }
+    return room;
+  }
+
+  // Returns one page of history in chronological order. Without an `after`
+  // cursor the page is the newest `limit` messages before `before` (or now).
+  async getMessages(roomId: number, options: MessageHistoryOptions = {}): Promise<MessageWithUser[]> {
+    const limit = Math.min(options.limit ?? DEFAULT_MESSAGE_PAGE_SIZE, MAX_MESSAGE_PAGE_SIZE);
+    const conditions = [eq(messages.roomId, roomId), isNull(messages.parentId), notExpired()];
+    if (options.before) conditions.push(cursorCondition(options.before, "before"));
+    if (options.after) conditions.push(cursorCondition(options.after, "after"));
+    const visibility = whisperVisibility(options.viewer);
+    if (visibility) conditions.push(visibility);
+
+    const ascending = !!options.after && !options.before;
+    const order = ascending ? asc : desc;
+
+    const rows = await db
+      .select()
+      .from(messages)
+      .innerJoin(users, eq(messages.userId, users.id))
+      .leftJoin(whisperRecipients, eq(messages.whisperToId, whisperRecipients.id))
+      .leftJoin(messageEditors, eq(messages.editedById, messageEditors.id))
+      .leftJoin(incomingWebhooks, eq(messages.webhookId, incomingWebhooks.id))
+      .where(and(...conditions))
+      .orderBy(order(messages.createdAt), order(messages.id))
+      .limit(limit);
+
+    const messagesWithUsers = (ascending ? rows : rows.reverse()).map(toMessageWithUser);
+    return this.withMessageDetails(messagesWithUsers, options.viewer?.id);
+  }
+
+  // Attaches thread summaries, poll results, attachments and, when there is a
+  // viewer, reaction counts
+  async withMessageDetails(list: MessageWithUser[], viewerId?: number): Promise<MessageWithUser[]> {
+    const ids = list.map(m => m.id);
+    const summaries = await this.getThreadSummaries(ids);
+    const pollSummaries = await this.getPollSummaries(ids, viewerId);
+    const attachments = await this.getAttachments(ids);
+    const reactions = viewerId !== undefined
+      ? await this.getReactionSummaries(ids, viewerId)
+      : new Map<number, ReactionSummary[]>();
+
+    return list.map(message => {
+      const thread = summaries.get(message.id);
+      const poll = pollSummaries.get(message.id);
+      const files = attachments.get(message.id);
+      return {
+        ...message,
+        ...(thread ? { thread } : {}),
+        ...(poll ? { poll } : {}),
+        ...(files ? { attachments: files } : {}),
+        reactions: reactions.get(message.id) ?? [],
+      };
+    });
+  }
+
+  async searchMessages(options: MessageSearchOptions): Promise<MessageSearchResult[]> {
+    const query = sql`websearch_to_tsquery('english', ${options.text})`;
+    const memberRooms = db
+      .select({ roomId: roomMembers.roomId })
+      .from(roomMembers)
+      .where(eq(roomMembers.userId, options.viewer.id));
+
+    const conditions: (SQL | undefined)[] = [
+      sql`${messages.contentSearch} @@ ${query}`,
+      isNull(messages.deletedAt),
+      notExpired(),
+      or(
+        and(eq(rooms.isDirect, false), options.viewer.seeAllRooms ? undefined : eq(rooms.isPublic, true)),
+        inArray(messages.roomId, memberRooms)
+      ),
+      whisperVisibility(options.viewer),
+      // Replies in a whisper's thread are as private as the whisper
+      whisperVisibility(options.viewer, parentMessages),
+    ];
+    if (options.roomId !== undefined) conditions.push(eq(messages.roomId, options.roomId));
+    if (options.authorId !== undefined) conditions.push(eq(messages.userId, options.authorId));
+    if (options.from) conditions.push(gte(messages.createdAt, options.from));
+    if (options.to) conditions.push(lte(messages.createdAt, options.to));
+    if (options.hasMedia !== undefined) {
+      const hasAttachments = exists(
+        db.select({ id: messageAttachments.id }).from(messageAttachments).where(eq(messageAttachments.messageId, messages.id))
+      );
+      conditions.push(options.hasMedia
+        ? or(isNotNull(messages.mediaUrl), hasAttachments)
+        : and(isNull(messages.mediaUrl), not(hasAttachments)));
+    }
+
+    const rows = await db
+      .select({
+        id: messages.id,
+        roomId: messages.roomId,
+        roomName: rooms.name,
+        parentId: messages.parentId,
+        createdAt: messages.createdAt,
+        mediaType: messages.mediaType,
+        snippet: sql<string>`ts_headline('english', coalesce(${messages.content}, ''), ${query}, ${SEARCH_HEADLINE_OPTIONS})`,
+        user: { id: users.id, username: users.username, avatarUrl: users.avatarUrl },
+      })
+      .from(messages)
+      .innerJoin(rooms, eq(messages.roomId, rooms.id))
+      .innerJoin(users, eq(messages.userId, users.id))
+      .leftJoin(parentMessages, eq(messages.parentId, parentMessages.id))
+      .where(and(...conditions))
+      .orderBy(desc(sql`ts_rank(${messages.contentSearch}, ${query})`), desc(messages.createdAt))
+      .limit(Math.min(options.limit ?? MAX_SEARCH_RESULTS, MAX_SEARCH_RESULTS));
+
+    return rows;
+  }
+
+  async getMessageWithUser(messageId: number): Promise<MessageWithUser | undefined> {
+    const [row] = await db
+      .select()
+      .from(messages)
+      .innerJoin(users, eq(messages.userId, users.id))
+      .leftJoin(whisperRecipients, eq(messages.whisperToId, whisperRecipients.id))
+      .leftJoin(messageEditors, eq(messages.editedById, messageEditors.id))
+      .leftJoin(incomingWebhooks, eq(messages.webhookId, incomingWebhooks.id))
+      .where(and(eq(messages.id, messageId), notExpired()));
+    return row ? toMessageWithUser(row) : undefined;
+  }
+
+  async getThreadReplies(parentId: number, viewerId?: number): Promise<MessageWithUser[]> {
+    const rows = await db
+      .select()
+      .from(messages)
+      .innerJoin(users, eq(messages.userId, users.id))
+      .leftJoin(whisperRecipients, eq(messages.whisperToId, whisperRecipients.id))
+      .leftJoin(messageEditors, eq(messages.editedById, messageEditors.id))
+      .leftJoin(incomingWebhooks, eq(messages.webhookId, incomingWebhooks.id))
+      .where(and(eq(messages.parentId, parentId), notExpired()))
+      .orderBy(asc(messages.createdAt), asc(messages.id));
+    return this.withMessageDetails(rows.map(toMessageWithUser), viewerId);
+  }
+
+  // Oldest first; each revision is the text that the edit at `editedAt` replaced
+  async getMessageRevisions(messageId: number): Promise<MessageRevisionWithEditor[]> {
+    const rows = await db
+      .select({
+        revision: messageRevisions,
+        editor: { id: users.id, username: users.username, avatarUrl: users.avatarUrl },
+      })
+      .from(messageRevisions)
+      .innerJoin(users, eq(messageRevisions.editedById, users.id))
+      .where(eq(messageRevisions.messageId, messageId))
+      .orderBy(asc(messageRevisions.editedAt), asc(messageRevisions.id));
+    return rows.map(row => ({ ...row.revision, editedBy: row.editor }));
+  }
+
+  async getReactionSummaries(messageIds: number[], viewerId: number): Promise<Map<number, ReactionSummary[]>> {
+    const summaries = new Map<number, ReactionSummary[]>();
+    if (messageIds.length === 0) return summaries;
+
+    const rows = await db
+      .select({
+        messageId: messageReactions.messageId,
+        emoji: messageReactions.emoji,
+        count: count(),
+        reactedByMe: sql<boolean>`bool_or(${messageReactions.userId} = ${viewerId})`,
+      })
+      .from(messageReactions)
+      .where(inArray(messageReactions.messageId, messageIds))
+      .groupBy(messageReactions.messageId, messageReactions.emoji)
+      .orderBy(min(messageReactions.createdAt));
+
+    for (const row of rows) {
+      const list = summaries.get(row.messageId) ?? [];
+      list.push({ emoji: row.emoji, count: row.count, reactedByMe: row.reactedByMe });
+      summaries.set(row.messageId, list);
+    }
+    return summaries;
+  }
+
+  // Both return false when there was nothing to change
+  async addReaction(messageId: number, userId: number, emoji: string): Promise<boolean> {
+    const added = await db
+      .insert(messageReactions)
+      .values({ messageId, userId, emoji })
+      .onConflictDoNothing()
+      .returning();
+    return added.length > 0;
+  }
+
+  async removeReaction(messageId: number, userId: number, emoji: string): Promise<boolean> {
+    const removed = await db
+      .delete(messageReactions)
+      .where(and(
+        eq(messageReactions.messageId, messageId),
+        eq(messageReactions.userId, userId),
+        eq(messageReactions.emoji, emoji)
+      ))
+      .returning();
+    return removed.length > 0;
+  }
+
+  async createPoll(poll: typeof polls.$inferInsert): Promise<typeof polls.$inferSelect> {
+    const [created] = await db.insert(polls).values(poll).returning();
+    return created;
+  }
+
+  async getPoll(messageId: number): Promise<typeof polls.$inferSelect | undefined> {
+    const [poll] = await db.select().from(polls).where(eq(polls.messageId, messageId));
+    return poll;
+  }
+
+  async createAttachments(messageId: number, attachments: AttachmentInput[]): Promise<Attachment[]> {
+    if (attachments.length === 0) return [];
+    return db
+      .insert(messageAttachments)
+      .values(attachments.map((attachment, position) => ({
+        messageId,
+        position,
+        url: attachment.url,
+        mediaType: attachment.mediaType,
+        metadata: attachment.metadata ?? null,
+      })))
+      .returning({
+        id: messageAttachments.id,
+        url: messageAttachments.url,
+        mediaType: messageAttachments.mediaType,
+        metadata: messageAttachments.metadata,
+      });
+  }
+
+  // Keyed by message id, each list in the order the files were attached
+  async getAttachments(messageIds: number[]): Promise<Map<number, Attachment[]>> {
+    const byMessage = new Map<number, Attachment[]>();
+    if (messageIds.length === 0) return byMessage;
+    const rows = await db
       .select()
+      .from(messageAttachments)
+      .where(inArray(messageAttachments.messageId, messageIds))
+      .orderBy(asc(messageAttachments.messageId), asc(messageAttachments.position));
+    for (const { messageId, position: _position, ...attachment } of rows) {
+      byMessage.set(messageId, [...(byMessage.get(messageId) ?? []), attachment]);
+    }
+    return byMessage;
+  }
+
+  async getAttachment(id: number): Promise<(Attachment & { messageId: number }) | undefined> {
+    const [row] = await db.select().from(messageAttachments).where(eq(messageAttachments.id, id));
+    if (!row) return undefined;
+    const { position: _position, ...attachment } = row;
+    return attachment;
+  }
+
+  // Where an uploaded file is in use: as someone's avatar, or on messages
+  async getUploadReferences(url: string): Promise<{ isAvatar: boolean; messageIds: number[] }> {
+    const [avatar] = await db.select({ id: users.id }).from(users).where(eq(users.avatarUrl, url)).limit(1);
+    const withMedia = await db.select({ id: messages.id }).from(messages).where(eq(messages.mediaUrl, url));
+    const withAttachment = await db
+      .select({ id: messageAttachments.messageId })
+      .from(messageAttachments)
+      .where(eq(messageAttachments.url, url));
+    return {
+      isAvatar: !!avatar,
+      messageIds: [...withMedia, ...withAttachment].map(m => m.id),
+    };
+  }
+
+  // Keyed by message id; voter names are only filled in for polls that show them
+  async getPollSummaries(messageIds: number[], viewerId?: number): Promise<Map<number, PollSummary>> {
+    const summaries = new Map<number, PollSummary>();
+    if (messageIds.length === 0) return summaries;
+
+    const pollRows = await db.select().from(polls).where(inArray(polls.messageId, messageIds));
+    if (pollRows.length === 0) return summaries;
+
+    const votes = await db
+      .select({
+        pollId: pollVotes.pollId,
+        option: pollVotes.option,
+        user: { id: users.id, username: users.username, avatarUrl: users.avatarUrl },
+      })
+      .from(pollVotes)
+      .innerJoin(users, eq(pollVotes.userId, users.id))
+      .where(inArray(pollVotes.pollId, pollRows.map(poll => poll.id)))
+      .orderBy(asc(pollVotes.createdAt), asc(pollVotes.id));
+
+    for (const { messageId, options, ...poll } of pollRows) {
+      const pollVotesList = votes.filter(vote => vote.pollId === poll.id);
+      summaries.set(messageId, {
+        ...poll,
+        options: options.map((text, index) => {
+          const optionVotes = pollVotesList.filter(vote => vote.option === index);
+          return {
+            text,
+            votes: optionVotes.length,
+            ...(poll.anonymous ? {} : { voters: optionVotes.map(vote => vote.user) }),
+          };
+        }),
+        totalVoters: new Set(pollVotesList.map(vote => vote.user.id)).size,
+        myVotes: pollVotesList.filter(vote => vote.user.id === viewerId).map(vote => vote.option),
+      });
+    }
+    return summaries;
+  }
+
+  // Replaces the user's picks with `options`
+  async setPollVotes(pollId: number, userId: number, options: number[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx
+        .delete(pollVotes)
+        .where(and(eq(pollVotes.pollId, pollId), eq(pollVotes.userId, userId)));
+      if (options.length > 0) {
+        await tx.insert(pollVotes).values(options.map(option => ({ pollId, userId, option })));
+      }
+    });
+  }
+
+  // Reply counts and the most recent distinct repliers for each parent message
+  async getThreadSummaries(parentIds: number[]): Promise<Map<number, ThreadSummary>> {
+    const summaries = new Map<number, ThreadSummary>();
+    if (parentIds.length === 0) return summaries;
+
+    const rows = await db
+      .select({
+        parentId: messages.parentId,
+        replies: count(),
+        lastReplyAt: max(messages.createdAt),
+        id: users.id,
+        username: users.username,
+        avatarUrl: users.avatarUrl,
+      })
       .from(messages)
       .innerJoin(users, eq(messages.userId, users.id))
-      .where(eq(messages.roomId, roomId))
-      .orderBy(messages.createdAt);
-
-    return messagesWithUsers.map(row => ({
-      id: row.messages.id,
-      content: row.messages.content,
-      mediaUrl: row.messages.mediaUrl,
-      mediaType: row.messages.mediaType,
-      roomId: row.messages.roomId,
-      userId: row.messages.userId,
-      createdAt: row.messages.createdAt,
-      editedAt: row.messages.editedAt,
-      user: {
-        id: row.users.id,
-        username: row.users.username,
-        password: row.users.password,
-        isOnline: row.users.isOnline,
-        lastSeen: row.users.lastSeen,
-        avatarUrl: row.users.avatarUrl,
-        role: row.users.role,
-        suspended: row.users.suspended,
-        suspendedAt: row.users.suspendedAt,
-        suspendedReason: row.users.suspendedReason
+      .where(and(inArray(messages.parentId, parentIds), isNull(messages.deletedAt), notExpired()))
+      .groupBy(messages.parentId, users.id, users.username, users.avatarUrl)
+      .orderBy(desc(max(messages.createdAt)));
+
+    for (const row of rows) {
+      const parentId = row.parentId!;
+      const summary = summaries.get(parentId) ?? { replyCount: 0, lastReplyAt: null, lastRepliers: [] };
+      summary.replyCount += row.replies;
+      if (!summary.lastReplyAt || (row.lastReplyAt && row.lastReplyAt > summary.lastReplyAt)) {
+        summary.lastReplyAt = row.lastReplyAt;
       }
-    }));
+      if (summary.lastRepliers.length < LAST_REPLIERS_SHOWN) {
+        summary.lastRepliers.push({ id: row.id, username: row.username, avatarUrl: row.avatarUrl });
+      }
+      summaries.set(parentId, summary);
+    }
+    return summaries;
   }
 
-  async createMessage(message: Omit<Message, "id" | "createdAt">): Promise<Message> {
-    const [newMessage] = await db.insert(messages).values(message).returning();
+  // Messages in rooms with disappearing messages switched on get their expiry here
+  async createMessage(message: Omit<InsertMessage, "id" | "createdAt" | "expiresAt">): Promise<Message> {
+    const [room] = await db
+      .select({ messageTtlSeconds: rooms.messageTtlSeconds })
+      .from(rooms)
+      .where(eq(rooms.id, message.roomId));
+    const expiresAt = room?.messageTtlSeconds
+      ? new Date(Date.now() + room.messageTtlSeconds * 1000)
+      : null;
+    const [newMessage] = await db.insert(messages).values({ ...message, expiresAt }).returning(messageColumns);
     return newMessage;
   }
 
+  // Deletes up to `limit` expired messages along with the thread replies that
+  // go with them, and returns what was removed so their media can be cleaned up
+  async deleteExpiredMessages(now: Date, limit: number): Promise<(Pick<Message, "id" | "roomId" | "parentId" | "userId"> & { mediaUrls: string[] })[]> {
+    const expired = await db
+      .select({ id: messages.id, roomId: messages.roomId, parentId: messages.parentId, userId: messages.userId, mediaUrl: messages.mediaUrl })
+      .from(messages)
+      .where(and(isNotNull(messages.expiresAt), lte(messages.expiresAt, now)))
+      .orderBy(asc(messages.expiresAt))
+      .limit(limit);
+    if (expired.length === 0) return [];
+
+    const replies = await db
+      .select({ id: messages.id, roomId: messages.roomId, parentId: messages.parentId, userId: messages.userId, mediaUrl: messages.mediaUrl })
+      .from(messages)
+      .where(inArray(messages.parentId, expired.map(m => m.id)));
+    const removed = [...expired, ...replies.filter(reply => !expired.some(m => m.id === reply.id))];
+    const ids = removed.map(m => m.id);
+    const attachments = await this.getAttachments(ids);
+
+    await db.transaction(async (tx) => {
+      await tx.delete(unreadMentions).where(inArray(unreadMentions.messageId, ids));
+      await tx.delete(messages).where(inArray(messages.id, ids));
+    });
+    return removed.map(({ mediaUrl, ...message }) => ({
+      ...message,
+      mediaUrls: [
+        ...(mediaUrl ? [mediaUrl] : []),
+        ...(attachments.get(message.id) ?? []).map(attachment => attachment.url),
+      ],
+    }));
+  }
+
   async deleteRoom(roomId: number, userId: number, userRole: UserRoleType): Promise<void> {
     const [room] = await db.select().from(rooms).where(eq(rooms.id, roomId));
     if (!room) {
@@ -146,12 +632,17 @@ export class DatabaseStorage implements IStorage {
       throw new Error("Unauthorized");
     }
 
-    await db.delete(messages).where(eq(messages.roomId, roomId));
-    await db.delete(roomMembers).where(eq(roomMembers.roomId, roomId));
-    await db.delete(rooms).where(eq(rooms.id, roomId));
+    // The room itself is going away, so there is nowhere to keep tombstones
+    await db.transaction(async (tx) => {
+      await tx.delete(unreadMentions).where(eq(unreadMentions.roomId, roomId));
+      await tx.delete(messages).where(eq(messages.roomId, roomId));
+      await tx.delete(roomMembers).where(eq(roomMembers.roomId, roomId));
+      await tx.delete(rooms).where(eq(rooms.id, roomId));
+    });
   }
 
-  async joinRoom(roomId: number, userId: number): Promise<void> {
+  // Returns whether the user was newly added
+  async joinRoom(roomId: number, userId: number): Promise<boolean> {
     // Check if user is already a member to avoid duplicate entries
     const [existingMember] = await db
       .select()
@@ -162,13 +653,321 @@ export class DatabaseStorage implements IStorage {
       ));
 
     if (!existingMember) {
+      // New members start with the existing history already read
+      const [latest] = await db
+        .select({ id: max(messages.id) })
+        .from(messages)
+        .where(eq(messages.roomId, roomId));
       await db.insert(roomMembers)
         .values({
           roomId,
           userId,
-          joinedAt: new Date()
+          joinedAt: new Date(),
+          lastReadMessageId: latest?.id ?? null
         });
     }
+    return !existingMember;
+  }
+
+  // Read pointers only ever move forward
+  // Returns the pointer after the update
+  async markRoomRead(roomId: number, userId: number, messageId: number): Promise<number | null> {
+    const [member] = await db
+      .update(roomMembers)
+      .set({ lastReadMessageId: sql`greatest(coalesce(${roomMembers.lastReadMessageId}, 0), ${messageId})` })
+      .where(and(eq(roomMembers.roomId, roomId), eq(roomMembers.userId, userId)))
+      .returning({ lastReadMessageId: roomMembers.lastReadMessageId });
+    return member?.lastReadMessageId ?? null;
+  }
+
+  // Keyed by room id, for every room the user is a member of
+  async getReadStates(userId: number): Promise<Map<number, { lastReadMessageId: number | null; unreadCount: number }>> {
+    const memberships = await db
+      .select({ roomId: roomMembers.roomId, lastReadMessageId: roomMembers.lastReadMessageId })
+      .from(roomMembers)
+      .where(eq(roomMembers.userId, userId));
+
+    const unread = await db
+      .select({ roomId: messages.roomId, count: count() })
+      .from(messages)
+      .innerJoin(roomMembers, and(
+        eq(roomMembers.roomId, messages.roomId),
+        eq(roomMembers.userId, userId)
+      ))
+      .where(and(
+        isNull(messages.parentId),
+        isNull(messages.deletedAt),
+        notExpired(),
+        ne(messages.userId, userId),
+        // Members from before read tracking have no pointer; nothing counts as unread for them
+        gt(messages.id, sql`coalesce(${roomMembers.lastReadMessageId}, 2147483647)`),
+        whisperVisibility({ id: userId })
+      ))
+      .groupBy(messages.roomId);
+
+    const unreadByRoom = new Map(unread.map(row => [row.roomId, row.count]));
+    return new Map(memberships.map(member => [member.roomId, {
+      lastReadMessageId: member.lastReadMessageId,
+      unreadCount: unreadByRoom.get(member.roomId) ?? 0,
+    }]));
+  }
+
+  async getReadReceipts(roomId: number): Promise<ReadReceipt[]> {
+    const rows = await db
+      .select({
+        id: users.id,
+        username: users.username,
+        avatarUrl: users.avatarUrl,
+        lastReadMessageId: roomMembers.lastReadMessageId,
+      })
+      .from(roomMembers)
+      .innerJoin(users, eq(users.id, roomMembers.userId))
+      .where(and(
+        eq(roomMembers.roomId, roomId),
+        eq(users.sendReadReceipts, true),
+        isNotNull(roomMembers.lastReadMessageId)
+      ));
+
+    return rows.map(({ lastReadMessageId, ...user }) => ({
+      user,
+      lastReadMessageId: lastReadMessageId!,
+    }));
+  }
+
+  async createIncomingWebhook(webhook: typeof incomingWebhooks.$inferInsert): Promise<IncomingWebhook> {
+    const { tokenHash: _tokenHash, ...columns } = getTableColumns(incomingWebhooks);
+    const [created] = await db.insert(incomingWebhooks).values(webhook).returning(columns);
+    return created;
+  }
+
+  // Active hooks only, newest first
+  async getIncomingWebhooks(roomId: number): Promise<IncomingWebhook[]> {
+    const { tokenHash: _tokenHash, ...columns } = getTableColumns(incomingWebhooks);
+    return db
+      .select(columns)
+      .from(incomingWebhooks)
+      .where(and(eq(incomingWebhooks.roomId, roomId), isNull(incomingWebhooks.revokedAt)))
+      .orderBy(desc(incomingWebhooks.createdAt));
+  }
+
+  // Includes the token hash, for checking a delivery
+  async getActiveIncomingWebhook(webhookId: number): Promise<typeof incomingWebhooks.$inferSelect | undefined> {
+    const [webhook] = await db
+      .select()
+      .from(incomingWebhooks)
+      .where(and(eq(incomingWebhooks.id, webhookId), isNull(incomingWebhooks.revokedAt)));
+    return webhook;
+  }
+
+  async revokeIncomingWebhook(roomId: number, webhookId: number): Promise<boolean> {
+    const revoked = await db
+      .update(incomingWebhooks)
+      .set({ revokedAt: new Date() })
+      .where(and(
+        eq(incomingWebhooks.id, webhookId),
+        eq(incomingWebhooks.roomId, roomId),
+        isNull(incomingWebhooks.revokedAt)
+      ))
+      .returning({ id: incomingWebhooks.id });
+    return revoked.length > 0;
+  }
+
+  async createOutgoingWebhook(webhook: typeof outgoingWebhooks.$inferInsert): Promise<typeof outgoingWebhooks.$inferSelect> {
+    const [created] = await db.insert(outgoingWebhooks).values(webhook).returning();
+    return created;
+  }
+
+  async getOutgoingWebhooks(roomId: number): Promise<OutgoingWebhook[]> {
+    const { secret: _secret, ...columns } = getTableColumns(outgoingWebhooks);
+    return db
+      .select(columns)
+      .from(outgoingWebhooks)
+      .where(eq(outgoingWebhooks.roomId, roomId))
+      .orderBy(desc(outgoingWebhooks.createdAt));
+  }
+
+  // Includes the secrets, for signing deliveries
+  async getOutgoingWebhooksForEvent(roomId: number, event: string): Promise<(typeof outgoingWebhooks.$inferSelect)[]> {
+    return db
+      .select()
+      .from(outgoingWebhooks)
+      .where(and(eq(outgoingWebhooks.roomId, roomId), arrayContains(outgoingWebhooks.events, [event])));
+  }
+
+  async deleteOutgoingWebhook(roomId: number, webhookId: number): Promise<boolean> {
+    const deleted = await db
+      .delete(outgoingWebhooks)
+      .where(and(eq(outgoingWebhooks.id, webhookId), eq(outgoingWebhooks.roomId, roomId)))
+      .returning({ id: outgoingWebhooks.id });
+    return deleted.length > 0;
+  }
+
+  async createWebhookDeliveries(deliveries: (typeof webhookDeliveries.$inferInsert)[]): Promise<WebhookDelivery[]> {
+    if (deliveries.length === 0) return [];
+    return db.insert(webhookDeliveries).values(deliveries).returning();
+  }
+
+  async updateWebhookDelivery(
+    deliveryId: number,
+    update: Partial<Omit<WebhookDelivery, "id" | "webhookId" | "event" | "payload" | "createdAt">>
+  ): Promise<void> {
+    await db.update(webhookDeliveries).set(update).where(eq(webhookDeliveries.id, deliveryId));
+  }
+
+  // Pending deliveries whose retry is due, with the hook they go to
+  async getDueWebhookDeliveries(now: Date, limit: number) {
+    return db
+      .select({ delivery: webhookDeliveries, webhook: outgoingWebhooks })
+      .from(webhookDeliveries)
+      .innerJoin(outgoingWebhooks, eq(webhookDeliveries.webhookId, outgoingWebhooks.id))
+      .where(and(eq(webhookDeliveries.status, "pending"), lte(webhookDeliveries.nextAttemptAt, now)))
+      .orderBy(asc(webhookDeliveries.nextAttemptAt))
+      .limit(limit);
+  }
+
+  // Newest first
+  async getWebhookDeliveries(webhookId: number, limit: number): Promise<WebhookDelivery[]> {
+    return db
+      .select()
+      .from(webhookDeliveries)
+      .where(eq(webhookDeliveries.webhookId, webhookId))
+      .orderBy(desc(webhookDeliveries.createdAt), desc(webhookDeliveries.id))
+      .limit(limit);
+  }
+
+  async createScheduledMessage(message: typeof scheduledMessages.$inferInsert): Promise<ScheduledMessage> {
+    const [created] = await db.insert(scheduledMessages).values(message).returning();
+    return created;
+  }
+
+  // The user's own pending messages for a room, soonest first
+  async getScheduledMessages(userId: number, roomId: number): Promise<ScheduledMessage[]> {
+    return db
+      .select()
+      .from(scheduledMessages)
+      .where(and(eq(scheduledMessages.userId, userId), eq(scheduledMessages.roomId, roomId)))
+      .orderBy(asc(scheduledMessages.sendAt), asc(scheduledMessages.id));
+  }
+
+  async getScheduledMessage(id: number, userId: number): Promise<ScheduledMessage | undefined> {
+    const [scheduled] = await db
+      .select()
+      .from(scheduledMessages)
+      .where(and(eq(scheduledMessages.id, id), eq(scheduledMessages.userId, userId)));
+    return scheduled;
+  }
+
+  // Editing a failed message queues it again
+  async updateScheduledMessage(
+    id: number,
+    userId: number,
+    updates: { content?: string; sendAt?: Date }
+  ): Promise<ScheduledMessage | undefined> {
+    const [updated] = await db
+      .update(scheduledMessages)
+      .set({ ...updates, failedAt: null, failureReason: null })
+      .where(and(eq(scheduledMessages.id, id), eq(scheduledMessages.userId, userId)))
+      .returning();
+    return updated;
+  }
+
+  async cancelScheduledMessage(id: number, userId: number): Promise<boolean> {
+    const cancelled = await db
+      .delete(scheduledMessages)
+      .where(and(eq(scheduledMessages.id, id), eq(scheduledMessages.userId, userId)))
+      .returning({ id: scheduledMessages.id });
+    return cancelled.length > 0;
+  }
+
+  async getDueScheduledMessages(now: Date, limit: number): Promise<ScheduledMessage[]> {
+    return db
+      .select()
+      .from(scheduledMessages)
+      .where(and(isNull(scheduledMessages.failedAt), lte(scheduledMessages.sendAt, now)))
+      .orderBy(asc(scheduledMessages.sendAt), asc(scheduledMessages.id))
+      .limit(limit);
+  }
+
+  async deleteScheduledMessage(id: number): Promise<void> {
+    await db.delete(scheduledMessages).where(eq(scheduledMessages.id, id));
+  }
+
+  async markScheduledMessageFailed(id: number, reason: string): Promise<void> {
+    await db
+      .update(scheduledMessages)
+      .set({ failedAt: new Date(), failureReason: reason })
+      .where(eq(scheduledMessages.id, id));
+  }
+
+  async createReminder(reminder: typeof reminders.$inferInsert): Promise<Reminder> {
+    const [created] = await db.insert(reminders).values(reminder).returning();
+    return created;
+  }
+
+  // Soonest first; deleted messages give no preview
+  async getReminders(userId: number): Promise<ReminderWithContext[]> {
+    const rows = await db
+      .select({
+        reminder: reminders,
+        roomName: rooms.name,
+        messageContent: messages.content,
+        messageDeletedAt: messages.deletedAt,
+      })
+      .from(reminders)
+      .innerJoin(rooms, eq(reminders.roomId, rooms.id))
+      .leftJoin(messages, eq(reminders.messageId, messages.id))
+      .where(eq(reminders.userId, userId))
+      .orderBy(asc(reminders.remindAt), asc(reminders.id));
+    return rows.map(row => ({
+      ...row.reminder,
+      roomName: row.roomName,
+      messagePreview: row.messageDeletedAt ? null : row.messageContent,
+    }));
+  }
+
+  async cancelReminder(id: number, userId: number): Promise<boolean> {
+    const cancelled = await db
+      .delete(reminders)
+      .where(and(eq(reminders.id, id), eq(reminders.userId, userId)))
+      .returning({ id: reminders.id });
+    return cancelled.length > 0;
+  }
+
+  async getDueReminders(now: Date, limit: number): Promise<Reminder[]> {
+    return db
+      .select()
+      .from(reminders)
+      .where(lte(reminders.remindAt, now))
+      .orderBy(asc(reminders.remindAt), asc(reminders.id))
+      .limit(limit);
+  }
+
+  async deleteReminder(id: number): Promise<void> {
+    await db.delete(reminders).where(eq(reminders.id, id));
+  }
+
+  async getDrafts(userId: number): Promise<Draft[]> {
+    return db
+      .select({ roomId: messageDrafts.roomId, content: messageDrafts.content, updatedAt: messageDrafts.updatedAt })
+      .from(messageDrafts)
+      .where(eq(messageDrafts.userId, userId));
+  }
+
+  async saveDraft(userId: number, roomId: number, content: string): Promise<void> {
+    const updatedAt = new Date();
+    await db
+      .insert(messageDrafts)
+      .values({ userId, roomId, content, updatedAt })
+      .onConflictDoUpdate({
+        target: [messageDrafts.userId, messageDrafts.roomId],
+        set: { content, updatedAt },
+      });
+  }
+
+  async deleteDraft(userId: number, roomId: number): Promise<void> {
+    await db
+      .delete(messageDrafts)
+      .where(and(eq(messageDrafts.userId, userId), eq(messageDrafts.roomId, roomId)));
   }
 
   async leaveRoom(roomId: number, userId: number): Promise<void> {
@@ -193,6 +992,7 @@ export class DatabaseStorage implements IStorage {
       password: member.users.password,
       isOnline: member.users.appearOffline ? false : member.users.isOnline,
       appearOffline: member.users.appearOffline,
+      sendReadReceipts: member.users.sendReadReceipts,
       lastSeen: member.users.lastSeen,
       avatarUrl: member.users.avatarUrl,
       role: member.users.role,
@@ -202,7 +1002,11 @@ export class DatabaseStorage implements IStorage {
       muted: member.users.muted,
       mutedUntil: member.users.mutedUntil,
       mutedReason: member.users.mutedReason,
-      lastUsernameChange: member.users.lastUsernameChange
+      lastUsernameChange: member.users.lastUsernameChange,
+      isBot: member.users.isBot,
+      // Never hand a bot's credential hash to other members
+      botTokenHash: null,
+      botOwnerId: member.users.botOwnerId
     }));
   }
 
@@ -225,6 +1029,7 @@ export class DatabaseStorage implements IStorage {
     avatarUrl?: string;
     updateUsernameTimestamp?: boolean;
     appearOffline?: boolean;
+    sendReadReceipts?: boolean;
   }): Promise<User> {
     const updateData: Partial<User> = {};
 
@@ -242,6 +1047,9 @@ export class DatabaseStorage implements IStorage {
       updateData.isOnline = !updates.appearOffline;
       updateData.lastSeen = new Date();
     }
+    if (updates.sendReadReceipts !== undefined) {
+      updateData.sendReadReceipts = updates.sendReadReceipts;
+    }
     if (updates.password) {
       const salt = randomBytes(16).toString("hex");
       const buf = (await scryptAsync(updates.password, salt, 64)) as Buffer;
@@ -259,20 +1067,90 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteUser(userId: number): Promise<void> {
-    // Delete all messages by this user
-    await db.delete(messages).where(eq(messages.userId, userId));
+    // Tombstone all messages by this user; the purge job removes them later
+    await db
+      .update(messages)
+      .set({ deletedAt: new Date(), deletedById: userId, deleteReason: "Account deleted" })
+      .where(and(eq(messages.userId, userId), isNull(messages.deletedAt)));
+    await db.delete(messageReactions).where(eq(messageReactions.userId, userId));
+    await db.delete(scheduledMessages).where(eq(scheduledMessages.userId, userId));
+    await db.delete(reminders).where(eq(reminders.userId, userId));
+    await db.delete(messageDrafts).where(eq(messageDrafts.userId, userId));
 
-    // Leave all rooms
+    // Their bots stop working along with them
+    await db
+      .update(users)
+      .set({ botTokenHash: null })
+      .where(and(eq(users.isBot, true), eq(users.botOwnerId, userId)));
+    // So do the webhooks they created, which post in their name
+    await db
+      .update(incomingWebhooks)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(incomingWebhooks.createdById, userId), isNull(incomingWebhooks.revokedAt)));
+
+    // Leave all rooms. Rooms the user created stay, since other members'
+    // messages live in them.
     await db.delete(roomMembers).where(eq(roomMembers.userId, userId));
 
-    // Delete rooms created by this user
-    const userRooms = await db.select().from(rooms).where(eq(rooms.createdById, userId));
-    for (const room of userRooms) {
-      await this.deleteRoom(room.id, userId, UserRole.OWNER); // Assuming owner for deletion in this context.
-    }
+    // The row stays so tombstones and thread replies keep their author, but
+    // it is anonymised and can no longer sign in
+    await db
+      .update(users)
+      .set({
+        username: `deleted-user-${userId}`,
+        password: randomBytes(32).toString("hex"),
+        avatarUrl: null,
+        isOnline: false,
+        suspended: true,
+        suspendedAt: new Date(),
+        suspendedReason: "Account deleted",
+        botTokenHash: null,
+      })
+      .where(eq(users.id, userId));
+  }
+
+  // Bots get an unusable password; they only ever sign in with their token
+  async createBot(bot: { username: string; avatarUrl: string | null; botTokenHash: string; botOwnerId: number }): Promise<User> {
+    const [created] = await db
+      .insert(users)
+      .values({
+        ...bot,
+        password: randomBytes(32).toString("hex"),
+        isBot: true,
+      })
+      .returning();
+    return created;
+  }
+
+  // Deleted bots lose their token, so they drop out of this list. Without an
+  // owner, every bot is listed.
+  async getBots(ownerId?: number): Promise<User[]> {
+    return db
+      .select()
+      .from(users)
+      .where(and(
+        eq(users.isBot, true),
+        isNotNull(users.botTokenHash),
+        ownerId === undefined ? undefined : eq(users.botOwnerId, ownerId)
+      ))
+      .orderBy(asc(users.username));
+  }
 
-    // Finally delete the user
-    await db.delete(users).where(eq(users.id, userId));
+  async getBotByTokenHash(tokenHash: string): Promise<User | undefined> {
+    const [bot] = await db
+      .select()
+      .from(users)
+      .where(and(eq(users.isBot, true), eq(users.botTokenHash, tokenHash)));
+    return bot;
+  }
+
+  async setBotTokenHash(botId: number, tokenHash: string): Promise<boolean> {
+    const updated = await db
+      .update(users)
+      .set({ botTokenHash: tokenHash })
+      .where(and(eq(users.id, botId), eq(users.isBot, true), isNotNull(users.botTokenHash)))
+      .returning({ id: users.id });
+    return updated.length > 0;
   }
 
   async suspendUser(userId: number, reason: string): Promise<User> {
@@ -314,46 +1192,137 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
-  async deleteMessage(messageId: number, userId: number, userRole: UserRoleType): Promise<void> {
+  async deleteMessage(messageId: number, userId: number, userRole: UserRoleType, reason?: string): Promise<Message> {
     const [message] = await db
       .select()
       .from(messages)
       .where(eq(messages.id, messageId));
 
-    if (!message) {
+    if (!message || message.deletedAt) {
       throw new Error("Message not found");
     }
 
     // Allow message deletion if user is owner, admin/moderator or if it's their own message
     if (userRole === UserRole.OWNER || userRole === UserRole.ADMIN || userRole === UserRole.MODERATOR || message.userId === userId) {
-      await db.delete(messages).where(eq(messages.id, messageId));
+      const [deletedMessage] = await db
+        .update(messages)
+        .set({ deletedAt: new Date(), deletedById: userId, deleteReason: reason ?? null })
+        .where(eq(messages.id, messageId))
+        .returning(messageColumns);
+      return deletedMessage;
     } else {
       throw new Error("Unauthorized");
     }
   }
 
+  // Only messages deleted after `deletedSince` can still be restored
+  async restoreMessage(messageId: number, deletedSince: Date): Promise<Message> {
+    const [message] = await db
+      .select()
+      .from(messages)
+      .where(eq(messages.id, messageId));
+
+    if (!message || !message.deletedAt || message.deletedAt < deletedSince) {
+      throw new Error("Message not found");
+    }
+
+    const [restoredMessage] = await db
+      .update(messages)
+      .set({ deletedAt: null, deletedById: null, deleteReason: null })
+      .where(eq(messages.id, messageId))
+      .returning(messageColumns);
+    return restoredMessage;
+  }
+
+  // Physically removes messages deleted before `deletedBefore`. Tombstones
+  // that still anchor a thread are kept, but everything they said is
+  // scrubbed. Returns the uploads the removed content pointed at, with their
+  // authors, so the files can be cleaned up.
+  async purgeDeletedMessages(deletedBefore: Date): Promise<{ purged: number; scrubbed: number; media: MediaReference[] }> {
+    const replies = alias(messages, "replies");
+    const hasReplies = exists(
+      db.select({ id: replies.id }).from(replies).where(eq(replies.parentId, messages.id))
+    );
+    const expired = and(isNotNull(messages.deletedAt), lt(messages.deletedAt, deletedBefore));
+    const expiredIds = db.select({ id: messages.id }).from(messages).where(expired);
+
+    // Collected first, since purging and scrubbing both drop these references
+    const withMedia = await db
+      .select({ url: messages.mediaUrl, userId: messages.userId })
+      .from(messages)
+      .where(and(expired, isNotNull(messages.mediaUrl)));
+    const withAttachments = await db
+      .select({ url: messageAttachments.url, userId: messages.userId })
+      .from(messageAttachments)
+      .innerJoin(messages, eq(messageAttachments.messageId, messages.id))
+      .where(expired);
+
+    // Mentions of a deleted message are never shown, and they would block the delete
+    const purged = await db.transaction(async (tx) => {
+      await tx.delete(unreadMentions).where(inArray(unreadMentions.messageId, expiredIds));
+      return tx
+        .delete(messages)
+        .where(and(expired, not(hasReplies)))
+        .returning({ id: messages.id });
+    });
+
+    const scrubbed = await db.transaction(async (tx) => {
+      const rows = await tx
+        .update(messages)
+        .set({ content: null, mediaUrl: null, mediaType: null, mediaMetadata: null })
+        .where(and(expired, or(
+          isNotNull(messages.content),
+          isNotNull(messages.mediaUrl),
+          isNotNull(messages.mediaMetadata)
+        )))
+        .returning({ id: messages.id });
+      await tx.delete(messageRevisions).where(inArray(messageRevisions.messageId, expiredIds));
+      await tx.delete(messageAttachments).where(inArray(messageAttachments.messageId, expiredIds));
+      // Poll votes go with their poll
+      await tx.delete(polls).where(inArray(polls.messageId, expiredIds));
+      await tx.delete(messageReactions).where(inArray(messageReactions.messageId, expiredIds));
+      return rows;
+    });
+
+    return {
+      purged: purged.length,
+      scrubbed: scrubbed.length,
+      media: [...withMedia, ...withAttachments].map(({ url, userId }) => ({ url: url!, userId })),
+    };
+  }
+
   async updateMessage(messageId: number, userId: number, content: string, userRole: UserRoleType): Promise<Message> {
     const [message] = await db
       .select()
       .from(messages)
       .where(eq(messages.id, messageId));
 
-    if (!message) {
+    if (!message || message.deletedAt) {
       throw new Error("Message not found");
     }
 
     // Allow message editing if user is owner or if it's their own message
     if (userRole === UserRole.OWNER || message.userId === userId) {
-      const [updatedMessage] = await db
-        .update(messages)
-        .set({
-          content,
-          editedAt: new Date()
-        })
-        .where(eq(messages.id, messageId))
-        .returning();
+      return db.transaction(async (tx) => {
+        const editedAt = new Date();
+        await tx.insert(messageRevisions).values({
+          messageId,
+          content: message.content,
+          editedById: userId,
+          editedAt,
+        });
+        const [updatedMessage] = await tx
+          .update(messages)
+          .set({
+            content,
+            editedAt,
+            editedById: userId
+          })
+          .where(eq(messages.id, messageId))
+          .returning(messageColumns);
 
-      return updatedMessage;
+        return updatedMessage;
+      });
     }
 
     throw new Error("Unauthorized");
@@ -419,6 +1388,25 @@ export class DatabaseStorage implements IStorage {
 
     return updatedRoom;
   }
+
+  async updateRoomSettings(roomId: number, userId: number, userRole: UserRoleType, settings: RoomSettings): Promise<Room> {
+    const [room] = await db.select().from(rooms).where(eq(rooms.id, roomId));
+    if (!room) {
+      throw new Error("Room not found");
+    }
+
+    if (userRole !== UserRole.OWNER && room.createdById !== userId) {
+      throw new Error("Unauthorized");
+    }
+
+    const [updatedRoom] = await db
+      .update(rooms)
+      .set(settings)
+      .where(eq(rooms.id, roomId))
+      .returning();
+
+    return updatedRoom;
+  }
 }
 
 export const storage = new DatabaseStorage();
\ No newline at end of file
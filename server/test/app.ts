@@ -0,0 +1,68 @@
+import express from "express";
+import { mkdtempSync } from "fs";
+import os from "os";
+import path from "path";
+import type { AddressInfo } from "net";
+import { vi } from "vitest";
+import type { User } from "@shared/schema";
+
+const TEST_USER_HEADER = "x-test-user";
+
+export type TestResponse = { status: number; body: any };
+
+export type TestApp = {
+  // Sends a request signed in as `user`, or anonymously for null. Bodies are
+  // sent as JSON unless they are already form data.
+  request: (user: User | null, method: string, url: string, body?: unknown) => Promise<TestResponse>;
+  // Sends a request the way bots do, with their token as a bearer token
+  requestWithToken: (token: string, method: string, url: string, body?: unknown) => Promise<TestResponse>;
+  // Stands in for the working directory, where uploads and chat logs are written
+  dataDir: string;
+  close: () => Promise<void>;
+};
+
+// Runs the real routes on a free port. Sessions need the Postgres session
+// store, so requests are signed in by user id instead. Test files mock ./db
+// and drizzle-orm/neon-serverless with the test database before calling this.
+export async function startTestApp(): Promise<TestApp> {
+  const dataDir = mkdtempSync(path.join(os.tmpdir(), "chat-test-"));
+  vi.spyOn(process, "cwd").mockReturnValue(dataDir);
+  process.env.SESSION_SECRET ??= "test-secret";
+  const { storage } = await import("../storage");
+  const { registerRoutes } = await import("../routes");
+
+  const app = express();
+  app.use(express.json());
+  app.use(async (req, _res, next) => {
+    const userId = req.header(TEST_USER_HEADER);
+    if (userId) req.user = await storage.getUser(parseInt(userId));
+    next();
+  });
+  const server = registerRoutes(app);
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  async function send(headers: Record<string, string>, method: string, url: string, body?: unknown) {
+    if (body !== undefined && !(body instanceof FormData)) headers["Content-Type"] = "application/json";
+    const response = await fetch(`http://127.0.0.1:${port}${url}`, {
+      method,
+      headers,
+      body: body === undefined || body instanceof FormData ? body : JSON.stringify(body),
+    });
+    const text = await response.text();
+    const isJson = response.headers.get("content-type")?.includes("application/json");
+    return { status: response.status, body: isJson && text ? JSON.parse(text) : text };
+  }
+
+  return {
+    dataDir,
+    request: (user, method, url, body) =>
+      send(user ? { [TEST_USER_HEADER]: String(user.id) } : {}, method, url, body),
+    requestWithToken: (token, method, url, body) =>
+      send({ Authorization: `Bearer ${token}` }, method, url, body),
+    close: () => new Promise((resolve) => {
+      server.closeAllConnections();
+      server.close(() => resolve());
+    }),
+  };
+}
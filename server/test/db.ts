@@ -0,0 +1,19 @@
+import { createRequire } from "module";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import * as schema from "@shared/schema";
+
+// The ESM build of drizzle-kit/api cannot be loaded by the test runner
+const { generateDrizzleJson, generateMigration } = createRequire(import.meta.url)("drizzle-kit/api");
+
+// Stands in for ./db: an in-memory Postgres with the app's schema, so foreign
+// keys and constraints are enforced just as they are in production. The pool
+// is only used by the session store, which tests never reach.
+export async function createTestDatabase() {
+  const client = new PGlite();
+  const statements: string[] = await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema));
+  for (const statement of statements) {
+    await client.exec(statement);
+  }
+  return { pool: {}, db: drizzle(client, { schema }) };
+}
@@ -0,0 +1,28 @@
+import { storage } from "../storage";
+import type { InsertRoom, User, UserRoleType } from "@shared/schema";
+
+let sequence = 0;
+
+// Usernames are numbered so every test gets users of its own
+export async function createTestUser(name = "user", role?: UserRoleType): Promise<User> {
+  sequence++;
+  return storage.createUser({
+    username: `${name}-${sequence}`,
+    password: "not-a-real-hash",
+    consent: true,
+    ...(role ? { role } : {}),
+  });
+}
+
+// The first user creates the room; everyone listed joins it
+export async function createTestRoom(
+  members: User[],
+  settings: Partial<Omit<InsertRoom, "id" | "createdById">> = {}
+) {
+  sequence++;
+  const room = await storage.createRoom({ name: `room-${sequence}`, createdById: members[0].id, ...settings });
+  for (const member of members) {
+    await storage.joinRoom(room.id, member.id);
+  }
+  return room;
+}
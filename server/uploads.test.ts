@@ -0,0 +1,77 @@
+import { existsSync, mkdirSync, mkdtempSync, writeFileSync } from "fs";
+import os from "os";
+import path from "path";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { eq } from "drizzle-orm";
+import { users, type Room, type User } from "@shared/schema";
+import { db } from "./db";
+import { storage } from "./storage";
+import { removeUnusedUpload, uploaderOf } from "./uploads";
+import { createTestRoom, createTestUser } from "./test/fixtures";
+
+vi.mock("./db", async () => (await import("./test/db")).createTestDatabase());
+
+let uploadDir: string;
+let alice: User;
+let bob: User;
+let room: Room;
+
+beforeEach(async () => {
+  const dataDir = mkdtempSync(path.join(os.tmpdir(), "chat-test-"));
+  vi.spyOn(process, "cwd").mockReturnValue(dataDir);
+  uploadDir = path.join(dataDir, "uploads");
+  mkdirSync(uploadDir);
+  alice = await createTestUser("alice");
+  bob = await createTestUser("bob");
+  room = await createTestRoom([alice, bob]);
+});
+
+function storeUpload(owner: User, name: string) {
+  const fileName = `u${owner.id}-${name}`;
+  writeFileSync(path.join(uploadDir, fileName), "data");
+  return { url: `/uploads/${fileName}`, filePath: path.join(uploadDir, fileName) };
+}
+
+describe("uploaderOf", () => {
+  it("reads the uploader's id from the file name", () => {
+    expect(uploaderOf("u42-1700000000-123.png")).toBe(42);
+    expect(uploaderOf("1739545384132-876099295.png")).toBeNull();
+  });
+});
+
+describe("removeUnusedUpload", () => {
+  it("deletes the owner's file once nothing refers to it", async () => {
+    const { url, filePath } = storeUpload(alice, "photo.png");
+
+    await removeUnusedUpload(url, alice.id);
+
+    expect(existsSync(filePath)).toBe(false);
+  });
+
+  it("keeps files that another message or an avatar still uses", async () => {
+    const attached = storeUpload(alice, "attached.png");
+    const avatar = storeUpload(alice, "avatar.png");
+    const message = await storage.createMessage({ content: "", roomId: room.id, userId: bob.id });
+    await storage.createAttachments(message.id, [{ url: attached.url, mediaType: "image" }]);
+    await db.update(users).set({ avatarUrl: avatar.url }).where(eq(users.id, alice.id));
+
+    await removeUnusedUpload(attached.url, alice.id);
+    await removeUnusedUpload(avatar.url, alice.id);
+
+    expect(existsSync(attached.filePath)).toBe(true);
+    expect(existsSync(avatar.filePath)).toBe(true);
+  });
+
+  it("never deletes someone else's file", async () => {
+    const { url, filePath } = storeUpload(alice, "photo.png");
+
+    await removeUnusedUpload(url, bob.id);
+    await removeUnusedUpload(`/uploads/../uploads/${path.basename(filePath)}`, bob.id);
+
+    expect(existsSync(filePath)).toBe(true);
+  });
+
+  it("ignores URLs outside the upload directory", async () => {
+    await expect(removeUnusedUpload("https://example.com/u1-photo.png", alice.id)).resolves.toBeUndefined();
+  });
+});
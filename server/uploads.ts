@@ -0,0 +1,31 @@
+import fs from "fs/promises";
+import path from "path";
+import { storage } from "./storage";
+
+// Upload names start with the uploader's id, so they can see their own files
+// before they are attached to anything
+export function uploaderOf(fileName: string): number | null {
+  const match = fileName.match(/^u(\d+)-/);
+  return match ? parseInt(match[1]) : null;
+}
+
+// Deletes a file once the content that pointed at it is gone. Media URLs come
+// from clients, so only files `ownerId` uploaded are touched, and only when
+// no other message, attachment or avatar still uses them. External URLs are
+// left alone.
+export async function removeUnusedUpload(url: string, ownerId: number) {
+  if (!url.startsWith("/uploads/")) return;
+  const fileName = path.basename(url);
+  if (uploaderOf(fileName) !== ownerId) return;
+  const { isAvatar, messageIds } = await storage.getUploadReferences(`/uploads/${fileName}`);
+  if (isAvatar || messageIds.length > 0) return;
+
+  const filePath = path.join(process.cwd(), "uploads", fileName);
+  try {
+    await fs.unlink(filePath);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      console.error(`Error removing upload ${filePath}:`, error);
+    }
+  }
+}
@@ -0,0 +1,179 @@
+import { WebSocketServer, WebSocket } from "ws";
+import type { Server, IncomingMessage } from "http";
+import type { Request, Response, RequestHandler } from "express";
+import { storage } from "./storage";
+import { UserRole, type User } from "@shared/schema";
+import type { RoomEvent, ClientEvent } from "@shared/events";
+
+const HEARTBEAT_INTERVAL = 30000;
+
+interface ClientSocket extends WebSocket {
+  user: User;
+  rooms: Set<number>;
+  isAlive: boolean;
+}
+
+const roomSockets = new Map<number, Set<ClientSocket>>();
+const userSockets = new Map<number, Set<ClientSocket>>();
+
+function readSessionUserId(sessionParser: RequestHandler, req: IncomingMessage): Promise<number | null> {
+  return new Promise((resolve) => {
+    sessionParser(req as Request, {} as Response, () => {
+      const session = (req as Request).session as { passport?: { user?: number } } | undefined;
+      resolve(session?.passport?.user ?? null);
+    });
+  });
+}
+
+async function canSubscribe(user: User, roomId: number): Promise<boolean> {
+  const room = await storage.getRoom(roomId);
+  if (!room) return false;
+  if (!room.isDirect && (room.isPublic || user.role === UserRole.OWNER)) return true;
+  return storage.isRoomMember(roomId, user.id);
+}
+
+function unsubscribe(socket: ClientSocket, roomId: number) {
+  socket.rooms.delete(roomId);
+  const sockets = roomSockets.get(roomId);
+  if (!sockets) return;
+  sockets.delete(socket);
+  if (sockets.size === 0) {
+    roomSockets.delete(roomId);
+  }
+}
+
+async function handleClientEvent(socket: ClientSocket, event: ClientEvent) {
+  const roomId = Number(event.roomId);
+  if (!Number.isInteger(roomId)) return;
+
+  if (event.type === "subscribe") {
+    if (!(await canSubscribe(socket.user, roomId))) {
+      socket.send(JSON.stringify({ type: "error", roomId, message: "Not allowed to subscribe to this room" }));
+      return;
+    }
+    socket.rooms.add(roomId);
+    if (!roomSockets.has(roomId)) {
+      roomSockets.set(roomId, new Set());
+    }
+    roomSockets.get(roomId)!.add(socket);
+  } else if (event.type === "unsubscribe") {
+    unsubscribe(socket, roomId);
+  }
+}
+
+// Drops subscribers who can no longer see the room, e.g. after leaving it or
+// when it is deleted
+export async function revalidateRoomSockets(roomId: number) {
+  const sockets = roomSockets.get(roomId);
+  if (!sockets) return;
+  for (const socket of Array.from(sockets)) {
+    if (!(await canSubscribe(socket.user, roomId))) unsubscribe(socket, roomId);
+  }
+}
+
+// Sockets keep a copy of their user, so it is reloaded whenever an account
+// changes. Suspended and deleted users are disconnected.
+export async function refreshUserSockets(userId: number) {
+  const sockets = userSockets.get(userId);
+  if (!sockets) return;
+  const user = await storage.getUser(userId);
+  for (const socket of Array.from(sockets)) {
+    if (!user || user.suspended) {
+      socket.close(4001, "Unauthorized");
+      continue;
+    }
+    socket.user = user;
+    for (const roomId of Array.from(socket.rooms)) {
+      if (!(await canSubscribe(user, roomId))) unsubscribe(socket, roomId);
+    }
+  }
+}
+
+// `canReceive` narrows delivery to some subscribers, e.g. for whispers
+export function broadcastToRoom(event: RoomEvent, canReceive?: (user: User) => boolean) {
+  const sockets = roomSockets.get(event.roomId);
+  if (!sockets) return;
+
+  const payload = JSON.stringify(event);
+  Array.from(sockets).forEach((socket) => {
+    if (socket.readyState === WebSocket.OPEN && (!canReceive || canReceive(socket.user))) {
+      socket.send(payload);
+    }
+  });
+}
+
+export function setupWebSocket(server: Server, sessionParser: RequestHandler) {
+  const wss = new WebSocketServer({ noServer: true });
+
+  server.on("upgrade", async (req, socket, head) => {
+    // Other upgrade requests (e.g. the Vite HMR socket) are left alone
+    const { pathname } = new URL(req.url || "/", "http://localhost");
+    if (pathname !== "/ws") return;
+
+    try {
+      const userId = await readSessionUserId(sessionParser, req);
+      const user = userId ? await storage.getUser(userId) : undefined;
+      if (!user || user.suspended) {
+        socket.write("HTTP/1.1 401 Unauthorized\r\n\r\n");
+        socket.destroy();
+        return;
+      }
+
+      wss.handleUpgrade(req, socket, head, (ws) => {
+        const client = ws as ClientSocket;
+        client.user = user;
+        client.rooms = new Set();
+        client.isAlive = true;
+        wss.emit("connection", client, req);
+      });
+    } catch (error) {
+      console.error("Error authenticating websocket:", error);
+      socket.write("HTTP/1.1 500 Internal Server Error\r\n\r\n");
+      socket.destroy();
+    }
+  });
+
+  wss.on("connection", (socket: ClientSocket) => {
+    if (!userSockets.has(socket.user.id)) {
+      userSockets.set(socket.user.id, new Set());
+    }
+    userSockets.get(socket.user.id)!.add(socket);
+
+    socket.on("pong", () => {
+      socket.isAlive = true;
+    });
+
+    socket.on("message", async (data) => {
+      try {
+        await handleClientEvent(socket, JSON.parse(data.toString()) as ClientEvent);
+      } catch (error) {
+        console.error("Error handling websocket message:", error);
+      }
+    });
+
+    socket.on("close", () => {
+      Array.from(socket.rooms).forEach((roomId) => unsubscribe(socket, roomId));
+      const sockets = userSockets.get(socket.user.id);
+      sockets?.delete(socket);
+      if (sockets?.size === 0) {
+        userSockets.delete(socket.user.id);
+      }
+    });
+  });
+
+  const heartbeat = setInterval(() => {
+    wss.clients.forEach((ws) => {
+      const socket = ws as ClientSocket;
+      if (!socket.isAlive) {
+        socket.terminate();
+        return;
+      }
+      socket.isAlive = false;
+      socket.ping();
+    });
+  }, HEARTBEAT_INTERVAL);
+
+  wss.on("close", () => clearInterval(heartbeat));
+
+  return wss;
+}
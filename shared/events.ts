@@ -0,0 +1,42 @@
+import type { Message, MessageWithUser, PollSummary, ReadReceipt, ThreadSummary } from "./schema";
+
+// Events pushed by the realtime gateway to sockets subscribed to a room
+export type RoomEvent =
+  | { type: "message:created"; roomId: number; message: MessageWithUser }
+  | { type: "message:updated"; roomId: number; message: Message }
+  | {
+      type: "message:deleted";
+      roomId: number;
+      messageId: number;
+      parentId?: number | null;
+      // The reason is only sent to moderators
+      tombstone: Pick<Message, "deletedAt" | "deletedById" | "deleteReason">;
+    }
+  // Disappearing messages removed by the sweeper, replies included
+  | { type: "messages:expired"; roomId: number; messageIds: number[] }
+  | { type: "thread:replied"; roomId: number; parentId: number; message: MessageWithUser; thread: ThreadSummary }
+  | { type: "members:changed"; roomId: number }
+  | { type: "room:updated"; roomId: number }
+  | { type: "read:updated"; roomId: number; receipt: ReadReceipt }
+  | {
+      type: "poll:updated";
+      roomId: number;
+      messageId: number;
+      parentId: number | null;
+      // Without `myVotes`, which differs per member
+      poll: Omit<PollSummary, "myVotes">;
+    }
+  | {
+      type: "reaction:changed";
+      roomId: number;
+      messageId: number;
+      parentId: number | null;
+      userId: number;
+      emoji: string;
+      added: boolean;
+    };
+
+// Frames a client may send over the socket
+export type ClientEvent =
+  | { type: "subscribe"; roomId: number }
+  | { type: "unsubscribe"; roomId: number };
@@ -1,4 +1,5 @@
-import { pgTable, text, serial, integer, boolean, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, unique, index, jsonb, customType, type AnyPgColumn } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -17,6 +18,7 @@ export const users = pgTable("users", {
   password: text("password").notNull(),
   isOnline: boolean("is_online").notNull().default(false),
   appearOffline: boolean("appear_offline").notNull().default(false),
+  sendReadReceipts: boolean("send_read_receipts").notNull().default(true),
   lastSeen: timestamp("last_seen").notNull().defaultNow(),
   avatarUrl: text("avatar_url"),
   role: text("role").notNull().default(UserRole.USER),
@@ -27,6 +29,10 @@ export const users = pgTable("users", {
   mutedUntil: timestamp("muted_until"),
   mutedReason: text("muted_reason"),
   lastUsernameChange: timestamp("last_username_change"),
+  isBot: boolean("is_bot").notNull().default(false),
+  botTokenHash: text("bot_token_hash").unique(),
+  // The user who created the bot and manages its token
+  botOwnerId: integer("bot_owner_id").references((): AnyPgColumn => users.id),
 });
 
 export const insertUserSchema = createInsertSchema(users)
@@ -51,13 +57,151 @@ export const rooms = pgTable("rooms", {
   createdAt: timestamp("created_at").notNull().defaultNow(),
   isPublic: boolean("is_public").notNull().default(true),
   inviteCode: text("invite_code").unique(),
+  // Direct conversations are rooms keyed by their sorted participant ids
+  isDirect: boolean("is_direct").notNull().default(false),
+  directKey: text("direct_key").unique(),
+  // Null means the server default applies
+  maxMessageLength: integer("max_message_length"),
+  // Disappearing messages: new messages expire this long after they are sent
+  messageTtlSeconds: integer("message_ttl_seconds"),
+  // File extensions members may attach, and the upload size limit; null means the defaults
+  allowedFileTypes: text("allowed_file_types").array(),
+  maxUploadMb: integer("max_upload_mb"),
 });
 
+export const MAX_DIRECT_PARTICIPANTS = 8;
+
+// Only the server has an environment; the browser gets the built-in values
+// here and asks /api/message-limits for the ones in effect
+function envLimit(name: string, fallback: number) {
+  const value = typeof process === "undefined" ? undefined : process.env[name];
+  return parseInt(value ?? "") || fallback;
+}
+
+// Rooms use the default unless their owner picks a limit, which can never
+// exceed the ceiling. Both are set server-wide with DEFAULT_MESSAGE_LENGTH
+// and MAX_MESSAGE_LENGTH.
+export const MAX_MESSAGE_LENGTH_CEILING = envLimit("MAX_MESSAGE_LENGTH", 4000);
+export const DEFAULT_MESSAGE_LENGTH = Math.min(envLimit("DEFAULT_MESSAGE_LENGTH", 500), MAX_MESSAGE_LENGTH_CEILING);
+
+export type MessageLimits = { defaultLength: number; maxLength: number };
+
+// The expiry periods a room creator can pick for disappearing messages
+export const MESSAGE_TTL_OPTIONS = [
+  { seconds: 60 * 60, label: "1 hour" },
+  { seconds: 24 * 60 * 60, label: "1 day" },
+  { seconds: 7 * 24 * 60 * 60, label: "7 days" },
+] as const;
+
+export function messageTtlLabel(seconds: number) {
+  return MESSAGE_TTL_OPTIONS.find((option) => option.seconds === seconds)?.label
+    ?? `${Math.round(seconds / 3600)} hours`;
+}
+
+// Images, video and audio are always accepted; other files need an allowed extension
+export const DEFAULT_FILE_TYPES = [
+  "pdf", "txt", "log", "csv", "json", "md",
+  "doc", "docx", "xls", "xlsx", "ppt", "pptx", "odt", "ods",
+  "zip", "gz", "tar", "7z",
+];
+export const DEFAULT_MAX_UPLOAD_MB = 5;
+export const MAX_UPLOAD_MB_CEILING = 50;
+
+export function fileTypeAllowlist(room: Pick<typeof rooms.$inferSelect, "allowedFileTypes">) {
+  return room.allowedFileTypes ?? DEFAULT_FILE_TYPES;
+}
+
+export function uploadLimitBytes(room: Pick<typeof rooms.$inferSelect, "maxUploadMb">) {
+  return (room.maxUploadMb ?? DEFAULT_MAX_UPLOAD_MB) * 1024 * 1024;
+}
+
+export function fileExtension(fileName: string) {
+  const match = /\.([^./\\]+)$/.exec(fileName);
+  return match ? match[1].toLowerCase() : "";
+}
+
+// A room's own limit stops at the ceiling, even if that was lowered later
+export function messageLengthLimit(
+  room: Pick<typeof rooms.$inferSelect, "maxMessageLength">,
+  limits: MessageLimits = { defaultLength: DEFAULT_MESSAGE_LENGTH, maxLength: MAX_MESSAGE_LENGTH_CEILING }
+) {
+  return Math.min(room.maxMessageLength ?? limits.defaultLength, limits.maxLength);
+}
+
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return "tsvector";
+  },
+});
+
+// Secret-token URLs that let scripts post into a room. Only a hash of the
+// token is stored; revoked hooks are kept so their messages still render.
+export const incomingWebhooks = pgTable("incoming_webhooks", {
+  id: serial("id").primaryKey(),
+  roomId: integer("room_id")
+    .references(() => rooms.id, { onDelete: "cascade" })
+    .notNull(),
+  createdById: integer("created_by_id")
+    .references(() => users.id)
+    .notNull(),
+  name: text("name").notNull(),
+  avatarUrl: text("avatar_url"),
+  tokenHash: text("token_hash").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  revokedAt: timestamp("revoked_at"),
+});
+
+export const OUTGOING_WEBHOOK_EVENTS = [
+  "message.created",
+  "message.edited",
+  "message.deleted",
+  "member.joined",
+  "member.left",
+  "room.renamed",
+] as const;
+
+// HTTP endpoints subscribed to a room's events; deliveries are signed with the secret
+export const outgoingWebhooks = pgTable("outgoing_webhooks", {
+  id: serial("id").primaryKey(),
+  roomId: integer("room_id")
+    .references(() => rooms.id, { onDelete: "cascade" })
+    .notNull(),
+  createdById: integer("created_by_id")
+    .references(() => users.id)
+    .notNull(),
+  url: text("url").notNull(),
+  secret: text("secret").notNull(),
+  events: text("events").array().notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// One row per event sent to a hook, updated as it is retried
+export const webhookDeliveries = pgTable("webhook_deliveries", {
+  id: serial("id").primaryKey(),
+  webhookId: integer("webhook_id")
+    .references(() => outgoingWebhooks.id, { onDelete: "cascade" })
+    .notNull(),
+  event: text("event").notNull(),
+  payload: text("payload").notNull(),
+  // pending until it succeeds or runs out of attempts
+  status: text("status").notNull().default("pending"),
+  attempts: integer("attempts").notNull().default(0),
+  responseStatus: integer("response_status"),
+  error: text("error"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  lastAttemptAt: timestamp("last_attempt_at"),
+  nextAttemptAt: timestamp("next_attempt_at"),
+}, (table) => [
+  index("webhook_deliveries_webhook_idx").on(table.webhookId, table.createdAt),
+]);
+
 export const messages = pgTable("messages", {
   id: serial("id").primaryKey(),
   content: text("content"),
   mediaUrl: text("media_url"),
   mediaType: text("media_type"),
+  // Measured by the sender's browser, e.g. a voice note's length and waveform
+  mediaMetadata: jsonb("media_metadata").$type<MediaMetadata>(),
   roomId: integer("room_id")
     .references(() => rooms.id)
     .notNull(),
@@ -66,8 +210,157 @@ export const messages = pgTable("messages", {
     .notNull(),
   createdAt: timestamp("created_at").notNull().defaultNow(),
   editedAt: timestamp("edited_at"),
+  // Who made the latest edit; owners may edit other people's messages
+  editedById: integer("edited_by_id").references(() => users.id),
+  // Soft delete: the row stays behind as a tombstone until the purge job runs
+  deletedAt: timestamp("deleted_at"),
+  deletedById: integer("deleted_by_id").references(() => users.id),
+  deleteReason: text("delete_reason"),
+  // Set for whispers: only the sender and this recipient may read the message
+  whisperToId: integer("whisper_to_id").references(() => users.id),
+  // Set for thread replies; replies are hidden from the room's main history
+  parentId: integer("parent_id").references((): AnyPgColumn => messages.id, { onDelete: "cascade" }),
+  // Set for messages posted through an incoming webhook, which supplies the display name
+  webhookId: integer("webhook_id").references(() => incomingWebhooks.id),
+  // Reminder notifications are whispers to yourself, optionally pointing at
+  // the message they are about
+  isReminder: boolean("is_reminder").notNull().default(false),
+  reminderOfId: integer("reminder_of_id").references((): AnyPgColumn => messages.id, { onDelete: "set null" }),
+  // Fixed when the message is sent, from the room's TTL at the time
+  expiresAt: timestamp("expires_at"),
+  // Maintained by Postgres for full-text search; never sent to clients
+  contentSearch: tsvector("content_search").generatedAlwaysAs(
+    sql`to_tsvector('english', coalesce(content, ''))`
+  ),
+}, (table) => [
+  index("messages_content_search_idx").using("gin", table.contentSearch),
+  index("messages_expires_at_idx").on(table.expiresAt),
+]);
+
+// Files sent with a message, in the order they were picked. Older messages
+// carry a single file in `mediaUrl` instead.
+export const messageAttachments = pgTable("message_attachments", {
+  id: serial("id").primaryKey(),
+  messageId: integer("message_id")
+    .references(() => messages.id, { onDelete: "cascade" })
+    .notNull(),
+  position: integer("position").notNull(),
+  url: text("url").notNull(),
+  mediaType: text("media_type").notNull(),
+  metadata: jsonb("metadata").$type<MediaMetadata>(),
+}, (table) => [
+  index("message_attachments_message_idx").on(table.messageId, table.position),
+]);
+
+// One row per edit, holding the text as it was before that edit
+export const messageRevisions = pgTable("message_revisions", {
+  id: serial("id").primaryKey(),
+  messageId: integer("message_id")
+    .references(() => messages.id, { onDelete: "cascade" })
+    .notNull(),
+  content: text("content"),
+  editedById: integer("edited_by_id")
+    .references(() => users.id)
+    .notNull(),
+  editedAt: timestamp("edited_at").notNull().defaultNow(),
+});
+
+export const messageReactions = pgTable("message_reactions", {
+  id: serial("id").primaryKey(),
+  messageId: integer("message_id")
+    .references(() => messages.id, { onDelete: "cascade" })
+    .notNull(),
+  userId: integer("user_id")
+    .references(() => users.id)
+    .notNull(),
+  emoji: text("emoji").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  unique("message_reactions_message_user_emoji").on(table.messageId, table.userId, table.emoji),
+]);
+
+export const MAX_POLL_OPTIONS = 10;
+export const MAX_POLL_OPTION_LENGTH = 100;
+
+// A poll is attached to the message that announced it; options are addressed by index
+export const polls = pgTable("polls", {
+  id: serial("id").primaryKey(),
+  messageId: integer("message_id")
+    .references(() => messages.id, { onDelete: "cascade" })
+    .notNull()
+    .unique(),
+  question: text("question").notNull(),
+  options: text("options").array().notNull(),
+  multipleChoice: boolean("multiple_choice").notNull().default(false),
+  anonymous: boolean("anonymous").notNull().default(false),
+  closesAt: timestamp("closes_at"),
 });
 
+export const pollVotes = pgTable("poll_votes", {
+  id: serial("id").primaryKey(),
+  pollId: integer("poll_id")
+    .references(() => polls.id, { onDelete: "cascade" })
+    .notNull(),
+  userId: integer("user_id")
+    .references(() => users.id)
+    .notNull(),
+  option: integer("option").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  unique("poll_votes_poll_user_option").on(table.pollId, table.userId, table.option),
+]);
+
+// Messages waiting to be posted at `sendAt`. Rows are removed once posted; if
+// posting fails the reason is kept so the author can fix or cancel it.
+export const scheduledMessages = pgTable("scheduled_messages", {
+  id: serial("id").primaryKey(),
+  roomId: integer("room_id")
+    .references(() => rooms.id, { onDelete: "cascade" })
+    .notNull(),
+  userId: integer("user_id")
+    .references(() => users.id)
+    .notNull(),
+  content: text("content").notNull(),
+  sendAt: timestamp("send_at").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  failedAt: timestamp("failed_at"),
+  failureReason: text("failure_reason"),
+}, (table) => [
+  index("scheduled_messages_send_at_idx").on(table.sendAt),
+]);
+
+// Pending personal reminders; delivered as a whisper to the user, then removed
+export const reminders = pgTable("reminders", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id")
+    .references(() => users.id)
+    .notNull(),
+  roomId: integer("room_id")
+    .references(() => rooms.id, { onDelete: "cascade" })
+    .notNull(),
+  messageId: integer("message_id").references(() => messages.id, { onDelete: "set null" }),
+  note: text("note"),
+  remindAt: timestamp("remind_at").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("reminders_remind_at_idx").on(table.remindAt),
+]);
+
+// Unsent composer text, one per user per room, so it follows them between devices
+export const messageDrafts = pgTable("message_drafts", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id")
+    .references(() => users.id)
+    .notNull(),
+  roomId: integer("room_id")
+    .references(() => rooms.id, { onDelete: "cascade" })
+    .notNull(),
+  content: text("content").notNull(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  unique("message_drafts_user_room").on(table.userId, table.roomId),
+]);
+
 export const roomMembers = pgTable("room_members", {
   id: serial("id").primaryKey(),
   roomId: integer("room_id")
@@ -77,6 +370,9 @@ export const roomMembers = pgTable("room_members", {
     .references(() => users.id)
     .notNull(),
   joinedAt: timestamp("joined_at").notNull().defaultNow(),
+  // Newest message this member has seen. Only a position, so no foreign key:
+  // the message itself may be purged later.
+  lastReadMessageId: integer("last_read_message_id"),
 });
 
 export const unreadMentions = pgTable("unread_mentions", {
@@ -99,20 +395,174 @@ export const insertRoomSchema = createInsertSchema(rooms).pick({
   isPublic: z.boolean().default(true)
 });
 
+export const roomSettingsSchema = z.object({
+  maxMessageLength: z.number().int()
+    .min(1, "The limit must be at least 1 character")
+    .max(MAX_MESSAGE_LENGTH_CEILING, `The limit cannot exceed ${MAX_MESSAGE_LENGTH_CEILING} characters`)
+    .nullable()
+    .optional(),
+  messageTtlSeconds: z.number().int()
+    .refine(
+      (seconds) => MESSAGE_TTL_OPTIONS.some((option) => option.seconds === seconds),
+      "Pick one of the offered expiry periods"
+    )
+    .nullable()
+    .optional(),
+  allowedFileTypes: z.array(
+    z.string().trim().toLowerCase().regex(/^[a-z0-9]+$/, "File types are extensions like pdf or zip")
+  ).max(50, "Allow at most 50 file types").nullable().optional(),
+  maxUploadMb: z.number().int()
+    .min(1, "The limit must be at least 1 MB")
+    .max(MAX_UPLOAD_MB_CEILING, `The limit cannot exceed ${MAX_UPLOAD_MB_CEILING} MB`)
+    .nullable()
+    .optional(),
+});
+
+export const createIncomingWebhookSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(50, "Name cannot exceed 50 characters"),
+  avatarUrl: z.string().url("Avatar must be a URL").optional(),
+});
+
+export const incomingWebhookMessageSchema = z.object({
+  content: z.string().trim().min(1, "Content is required")
+    .max(MAX_MESSAGE_LENGTH_CEILING, `Message cannot exceed ${MAX_MESSAGE_LENGTH_CEILING} characters`),
+});
+
+export const MAX_BOTS_PER_USER = 5;
+
+export const createBotSchema = z.object({
+  username: z.string().trim().min(3, "Username must be at least 3 characters")
+    .max(32, "Username cannot exceed 32 characters"),
+  avatarUrl: z.string().url("Avatar must be a URL").optional(),
+});
+
+export const createOutgoingWebhookSchema = z.object({
+  url: z.string().url("Enter a valid URL").refine(
+    (url) => /^https?:\/\//i.test(url),
+    "Only http and https URLs are supported"
+  ),
+  events: z.array(z.enum(OUTGOING_WEBHOOK_EVENTS)).min(1, "Pick at least one event"),
+});
+
+export const createDirectMessageSchema = z.object({
+  userIds: z.array(z.number().int().positive())
+    .min(1, "Pick at least one person")
+    .max(MAX_DIRECT_PARTICIPANTS - 1, `Direct messages are limited to ${MAX_DIRECT_PARTICIPANTS} people`),
+});
+
+// "file" covers any other attachment, offered as a download
+export const MEDIA_TYPES = ["image", "video", "audio", "file"] as const;
+export const WAVEFORM_BARS = 48;
+// Longer recordings are stopped automatically
+export const MAX_VOICE_NOTE_SECONDS = 5 * 60;
+
+export const mediaMetadataSchema = z.object({
+  durationMs: z.number().int().nonnegative().optional(),
+  // Peak levels from 0 to 1, one per bar of the player
+  waveform: z.array(z.number().min(0).max(1)).max(WAVEFORM_BARS).optional(),
+  // As uploaded, so downloads keep their original name
+  fileName: z.string().max(255).optional(),
+  fileSize: z.number().int().nonnegative().optional(),
+  mimeType: z.string().max(255).optional(),
+});
+
+export const MAX_ATTACHMENTS = 10;
+
+export const attachmentInputSchema = z.object({
+  url: z.string().min(1),
+  mediaType: z.enum(MEDIA_TYPES),
+  metadata: mediaMetadataSchema.optional().nullable(),
+});
+
 export const insertMessageSchema = createInsertSchema(messages)
   .pick({
     content: true,
     mediaUrl: true,
     mediaType: true,
+    mediaMetadata: true,
     roomId: true,
   })
   .extend({
-    content: z.string().max(100, "Message cannot exceed 100 characters").optional(),
+    // The room's own limit is checked by the route
+    content: z.string().max(MAX_MESSAGE_LENGTH_CEILING, `Message cannot exceed ${MAX_MESSAGE_LENGTH_CEILING} characters`).optional(),
     mediaUrl: z.string().optional().nullable(),
-    mediaType: z.enum(["image", "video"]).optional().nullable(),
+    mediaType: z.enum(MEDIA_TYPES).optional().nullable(),
+    mediaMetadata: mediaMetadataSchema.optional().nullable(),
+    attachments: z.array(attachmentInputSchema)
+      .max(MAX_ATTACHMENTS, `Attach at most ${MAX_ATTACHMENTS} files`)
+      .optional(),
     mentions: z.array(z.string()).optional(),
+    whisperTo: z.string().min(1).optional(),
   });
 
+export const insertThreadReplySchema = z.object({
+  content: z.string().trim().min(1, "Reply cannot be empty").max(MAX_MESSAGE_LENGTH_CEILING, `Message cannot exceed ${MAX_MESSAGE_LENGTH_CEILING} characters`),
+});
+
+export const MAX_SCHEDULE_AHEAD_DAYS = 365;
+
+const scheduledMessageFields = {
+  content: z.string().trim().min(1, "Message cannot be empty")
+    .max(MAX_MESSAGE_LENGTH_CEILING, `Message cannot exceed ${MAX_MESSAGE_LENGTH_CEILING} characters`),
+  sendAt: z.coerce.date().refine(
+    (date) => date.getTime() > Date.now(),
+    "Pick a time in the future"
+  ).refine(
+    (date) => date.getTime() <= Date.now() + MAX_SCHEDULE_AHEAD_DAYS * 24 * 60 * 60 * 1000,
+    `Messages can be scheduled at most ${MAX_SCHEDULE_AHEAD_DAYS} days ahead`
+  ),
+};
+
+export const scheduleMessageSchema = z.object(scheduledMessageFields);
+
+// Saving an empty draft removes it
+export const saveDraftSchema = z.object({
+  content: z.string().max(MAX_MESSAGE_LENGTH_CEILING, `Draft cannot exceed ${MAX_MESSAGE_LENGTH_CEILING} characters`),
+});
+
+export const createReminderSchema = z.object({
+  remindAt: scheduledMessageFields.sendAt,
+});
+
+export const updateScheduledMessageSchema = z.object(scheduledMessageFields).partial();
+
+// The full set of options the voter picks; an empty list withdraws their vote
+export const pollVoteSchema = z.object({
+  options: z.array(z.number().int().min(0)).max(MAX_POLL_OPTIONS),
+});
+
+export const reactionSchema = z.object({
+  emoji: z.string().min(1).max(16).refine(
+    (value) => new RegExp("\\p{Extended_Pictographic}", "u").test(value),
+    "Reactions must be an emoji"
+  ),
+});
+
+export const deleteMessageSchema = z.object({
+  reason: z.string().trim().max(200).optional(),
+});
+
+export const MAX_SEARCH_RESULTS = 50;
+
+export const searchQuerySchema = z.object({
+  q: z.string().trim().min(1, "Search text is required").max(200),
+  roomId: z.coerce.number().int().positive().optional(),
+  author: z.string().trim().min(1).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  hasMedia: z.enum(["true", "false"]).transform((value) => value === "true").optional(),
+  limit: z.coerce.number().int().min(1).max(MAX_SEARCH_RESULTS).optional(),
+});
+
+// Wrap the matched words in search snippets; control characters cannot be
+// typed into a message, so the client can split on them safely
+export const SEARCH_HIGHLIGHT_START = "\u0002";
+export const SEARCH_HIGHLIGHT_END = "\u0003";
+
+export const markReadSchema = z.object({
+  messageId: z.number().int().positive(),
+});
+
 export const updateUserSchema = z.object({
   username: z.string().min(1).optional(),
   currentPassword: z.string().optional(),
@@ -120,6 +570,7 @@ export const updateUserSchema = z.object({
     .pipe(z.string().min(6, "Password must be at least 6 characters").optional()),
   avatarUrl: z.string().url().optional(),
   appearOffline: z.boolean().optional(),
+  sendReadReceipts: z.boolean().optional(),
 }).refine((data) => {
   // Only require current password when changing password or username
   if ((data.newPassword || (data.username && !data.appearOffline)) && !data.currentPassword) {
@@ -135,9 +586,96 @@ export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 export type Room = typeof rooms.$inferSelect & {
   participants?: User[];
+  // Only set for rooms the requesting user is a member of
+  unreadCount?: number;
+  lastReadMessageId?: number | null;
+};
+export type InsertRoom = typeof rooms.$inferInsert;
+export type RoomSettings = z.infer<typeof roomSettingsSchema>;
+export type MediaMetadata = z.infer<typeof mediaMetadataSchema>;
+export type Message = Omit<typeof messages.$inferSelect, "contentSearch">;
+export type InsertMessage = typeof messages.$inferInsert;
+// A message as submitted by the composer, before commands run
+export type MessageDraft = z.infer<typeof insertMessageSchema>;
+export type ThreadSummary = {
+  replyCount: number;
+  lastReplyAt: Date | null;
+  lastRepliers: Pick<User, "id" | "username" | "avatarUrl">[];
 };
-export type Message = typeof messages.$inferSelect;
-export type MessageWithUser = Message & { user: User };
+export type ReactionSummary = {
+  emoji: string;
+  count: number;
+  reactedByMe: boolean;
+};
+export type PollOptionResult = {
+  text: string;
+  votes: number;
+  // Left out for anonymous polls
+  voters?: Pick<User, "id" | "username" | "avatarUrl">[];
+};
+export type PollSummary = Omit<typeof polls.$inferSelect, "messageId" | "options"> & {
+  options: PollOptionResult[];
+  totalVoters: number;
+  // Indexes of the options the viewer picked
+  myVotes: number[];
+};
+export type MessageWithUser = Message & {
+  // Sent to every member of the room, so never with the password hash
+  user: Omit<User, "password">;
+  whisperTo?: string | null;
+  editedBy?: string | null;
+  thread?: ThreadSummary;
+  reactions?: ReactionSummary[];
+  // Posted through an incoming webhook; shown under the hook's name and avatar
+  webhook?: Pick<IncomingWebhook, "id" | "name" | "avatarUrl"> | null;
+  poll?: PollSummary;
+  attachments?: Attachment[];
+};
+export type Attachment = Omit<typeof messageAttachments.$inferSelect, "messageId" | "position">;
+export type AttachmentInput = z.infer<typeof attachmentInputSchema>;
+export type MediaType = (typeof MEDIA_TYPES)[number];
+export type SearchQuery = z.infer<typeof searchQuerySchema>;
+export type MessageSearchResult = {
+  id: number;
+  roomId: number;
+  roomName: string;
+  parentId: number | null;
+  createdAt: Date;
+  mediaType: string | null;
+  snippet: string;
+  user: Pick<User, "id" | "username" | "avatarUrl">;
+};
+export type MessageReaction = typeof messageReactions.$inferSelect;
+export type MessageRevision = typeof messageRevisions.$inferSelect;
+export type MessageRevisionWithEditor = MessageRevision & {
+  editedBy: Pick<User, "id" | "username" | "avatarUrl">;
+};
+// A slash command as listed by GET /api/commands
+export type SlashCommandInfo = {
+  name: string;
+  description: string;
+  usage: string;
+  sound: string | null;
+};
+// A bot account as listed to the owner; its token hash never leaves the server
+export type Bot = Pick<User, "id" | "username" | "avatarUrl" | "suspended">;
+export type IncomingWebhook = Omit<typeof incomingWebhooks.$inferSelect, "tokenHash">;
+export type OutgoingWebhookEvent = typeof OUTGOING_WEBHOOK_EVENTS[number];
+export type OutgoingWebhook = Omit<typeof outgoingWebhooks.$inferSelect, "secret">;
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
 export type RoomMember = typeof roomMembers.$inferSelect;
+// How far another member has read; only members who send read receipts are listed
+export type ReadReceipt = {
+  user: Pick<User, "id" | "username" | "avatarUrl">;
+  lastReadMessageId: number;
+};
+export type ScheduledMessage = typeof scheduledMessages.$inferSelect;
+export type Reminder = typeof reminders.$inferSelect;
+// As listed in settings, with enough context to recognise each reminder
+export type ReminderWithContext = Reminder & {
+  roomName: string;
+  messagePreview: string | null;
+};
+export type Draft = Pick<typeof messageDrafts.$inferSelect, "roomId" | "content" | "updatedAt">;
 export type UnreadMention = typeof unreadMentions.$inferSelect;
 export type InsertUnreadMention = typeof unreadMentions.$inferInsert;
\ No newline at end of file